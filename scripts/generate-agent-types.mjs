@@ -0,0 +1,197 @@
+/**
+ * Agent Type Generator
+ *
+ * Reads every response schema listed in workflow.json and writes matching
+ * TypeScript interfaces and runtime type guards to src/types/agents.generated.ts.
+ *
+ * Usage:
+ *   node scripts/generate-agent-types.mjs          # write the file
+ *   node scripts/generate-agent-types.mjs --check  # exit 1 if the file is out of date
+ *
+ * Schema leaves name their type ("string", "number", "boolean"); arrays hold
+ * one item shape and objects map field names to shapes. Fields are generated
+ * as required because validated results have defaults filled in
+ * (see src/lib/schema-validator.ts).
+ */
+
+import { readFileSync, writeFileSync, existsSync } from 'node:fs'
+import { dirname, resolve } from 'node:path'
+import { fileURLToPath } from 'node:url'
+
+const ROOT = resolve(dirname(fileURLToPath(import.meta.url)), '..')
+const WORKFLOW_PATH = resolve(ROOT, 'workflow.json')
+const OUTPUT_PATH = resolve(ROOT, 'src/types/agents.generated.ts')
+const OUTPUT_LABEL = 'src/types/agents.generated.ts'
+
+// =============================================================================
+// Naming
+// =============================================================================
+
+const toPascalCase = (value) =>
+  value
+    .replace(/[^a-zA-Z0-9]+/g, ' ')
+    .trim()
+    .split(' ')
+    .map(word => word.charAt(0).toUpperCase() + word.slice(1))
+    .join('')
+
+/** task_assistant_agent_response.json -> TaskAssistantAgent */
+const baseName = (schemaPath) =>
+  toPascalCase(schemaPath.split('/').pop().replace(/\.json$/, '').replace(/_response$/, ''))
+
+const propertyKey = (key) => (/^[A-Za-z_$][\w$]*$/.test(key) ? key : JSON.stringify(key))
+const propertyAccess = (expr, key) => (/^[A-Za-z_$][\w$]*$/.test(key) ? `${expr}.${key}` : `${expr}[${JSON.stringify(key)}]`)
+
+// =============================================================================
+// Emitters
+// =============================================================================
+
+function describeShape(shape, path) {
+  if (Array.isArray(shape)) {
+    if (shape.length !== 1) throw new Error(`${path}: arrays must declare exactly one item shape`)
+    return
+  }
+  if (shape && typeof shape === 'object') return
+  if (!['string', 'number', 'boolean'].includes(shape)) {
+    throw new Error(`${path}: unknown type ${JSON.stringify(shape)}`)
+  }
+}
+
+function emitType(shape, indent, path) {
+  describeShape(shape, path)
+  if (Array.isArray(shape)) {
+    const item = emitType(shape[0], indent, `${path}[]`)
+    return typeof shape[0] === 'string' ? `${item}[]` : `Array<${item}>`
+  }
+  if (typeof shape === 'object') {
+    const pad = '  '.repeat(indent + 1)
+    const fields = Object.entries(shape).map(
+      ([key, child]) => `${pad}${propertyKey(key)}: ${emitType(child, indent + 1, `${path}.${key}`)}`
+    )
+    return `{\n${fields.join('\n')}\n${'  '.repeat(indent)}}`
+  }
+  return shape
+}
+
+function emitInterface(name, shape, path) {
+  describeShape(shape, path)
+  if (Array.isArray(shape) || typeof shape !== 'object') {
+    return `export type ${name} = ${emitType(shape, 0, path)}\n`
+  }
+  return `export interface ${name} ${emitType(shape, 0, path)}\n`
+}
+
+/** Joins checks onto indented lines: `a &&\n    b &&\n    c` */
+const joinChecks = (checks, indent) => checks.join(` &&\n${'  '.repeat(indent + 2)}`)
+
+function emitGuard(shape, expr, depth, indent) {
+  if (Array.isArray(shape)) {
+    const item = `item${depth}`
+    return `isArrayOf(${expr}, (${item}) => ${emitGuard(shape[0], item, depth + 1, indent + 1)})`
+  }
+  if (typeof shape === 'object') {
+    const checks = Object.entries(shape).map(([key, child]) => emitGuard(child, propertyAccess(expr, key), depth, indent + 1))
+    return `(${joinChecks([`isRecord(${expr})`, ...checks], indent)})`
+  }
+  return `typeof ${expr} === '${shape}'`
+}
+
+function emitGuardFunction(name, shape) {
+  const body = emitGuard(shape, 'value', 0, 0)
+  return `export function is${name}(value: unknown): value is ${name} {\n  return ${body}\n}\n`
+}
+
+// =============================================================================
+// Generation
+// =============================================================================
+
+function generate() {
+  const workflow = JSON.parse(readFileSync(WORKFLOW_PATH, 'utf8'))
+  const agents = (workflow.agents || []).filter(agent => agent.response_schema)
+
+  const sections = agents.map(agent => {
+    const schemaPath = agent.response_schema
+    const schema = JSON.parse(readFileSync(resolve(ROOT, schemaPath), 'utf8'))
+    const name = baseName(schemaPath)
+    const responseShape = schema.response_schema
+    const result = responseShape.result
+
+    const responseFields = Object.entries(responseShape).map(([key, shape]) =>
+      key === 'result'
+        ? `  result: ${name}Result`
+        : `  ${propertyKey(key)}: ${emitType(shape, 1, `${schemaPath}#${key}`)}`
+    )
+    const responseChecks = Object.entries(responseShape).map(([key, shape]) =>
+      key === 'result'
+        ? `is${name}Result(value.result)`
+        : emitGuard(shape, propertyAccess('value', key), 0, 1)
+    )
+
+    return [
+      '// =============================================================================',
+      `// ${agent.name} (${schemaPath})`,
+      '// =============================================================================',
+      '',
+      `export const ${name.replace(/([a-z0-9])([A-Z])/g, '$1_$2').toUpperCase()}_ID = '${agent.agent_id}'`,
+      '',
+      emitInterface(`${name}Result`, result, `${schemaPath}#result`),
+      `export interface ${name}Response {\n${responseFields.join('\n')}\n}\n`,
+      emitGuardFunction(`${name}Result`, result),
+      `export function is${name}Response(value: unknown): value is ${name}Response {\n` +
+        `  return (${joinChecks(['isRecord(value)', ...responseChecks], 0)})\n}\n`,
+    ].join('\n')
+  })
+
+  return [
+    '/**',
+    ' * Agent response types generated from the schemas listed in workflow.json.',
+    ' *',
+    ' * DO NOT EDIT - run `npm run types:generate` after changing a schema.',
+    ' * `npm run types:check` fails when this file is out of date.',
+    ' */',
+    '',
+    'const isRecord = (value: unknown): value is Record<string, unknown> =>',
+    "  typeof value === 'object' && value !== null && !Array.isArray(value)",
+    '',
+    'const isArrayOf = (value: unknown, guard: (item: unknown) => boolean): boolean =>',
+    '  Array.isArray(value) && value.every(guard)',
+    '',
+    ...sections,
+  ].join('\n')
+}
+
+// =============================================================================
+// CLI
+// =============================================================================
+
+function firstDifference(expected, actual) {
+  const a = expected.split('\n')
+  const b = actual.split('\n')
+  for (let i = 0; i < Math.max(a.length, b.length); i++) {
+    if (a[i] !== b[i]) {
+      return `line ${i + 1}:\n  expected: ${a[i] ?? '(end of file)'}\n  found:    ${b[i] ?? '(end of file)'}`
+    }
+  }
+  return null
+}
+
+try {
+  const output = generate()
+
+  if (process.argv.includes('--check')) {
+    const current = existsSync(OUTPUT_PATH) ? readFileSync(OUTPUT_PATH, 'utf8') : ''
+    const difference = firstDifference(output, current)
+    if (difference) {
+      console.error(`${OUTPUT_LABEL} has drifted from its response schemas (${difference})`)
+      console.error('Run `npm run types:generate` and commit the result.')
+      process.exit(1)
+    }
+    console.log(`${OUTPUT_LABEL} is up to date`)
+  } else {
+    writeFileSync(OUTPUT_PATH, output)
+    console.log(`Wrote ${OUTPUT_LABEL}`)
+  }
+} catch (error) {
+  console.error(`Type generation failed: ${error.message}`)
+  process.exit(1)
+}
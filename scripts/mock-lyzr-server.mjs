@@ -0,0 +1,421 @@
+/**
+ * Mock Lyzr Server
+ *
+ * Local stand-in for the Lyzr agent and RAG APIs and the agent test server,
+ * so the app runs with no network access. Agent replies are scripted from the
+ * `example_response` in each `response_schemas/*.json`, matched by agent_id.
+ *
+ * Usage:
+ *   node scripts/mock-lyzr-server.mjs               # listens on :8787
+ *   node scripts/mock-lyzr-server.mjs --port 9000
+ *   MOCK_LATENCY_MS=1500 node scripts/mock-lyzr-server.mjs
+ *
+ * Point the app at it in .env.local (see src/lib/api-config.ts):
+ *   VITE_LYZR_AGENT_BASE_URL=http://localhost:8787
+ *   VITE_LYZR_RAG_BASE_URL=http://localhost:8787
+ *   VITE_API_URL=http://localhost:8787
+ *   VITE_UPLOAD_URL=http://localhost:8787/api/upload
+ *
+ * Routes:
+ *   POST   /v3/inference/chat/          agent reply as `{ response, session_id }`
+ *   POST   /v3/inference/stream/        the same reply as SSE chat_progress events
+ *   POST   /v3/assets/upload            multipart upload, returns asset IDs
+ *   POST   /api/upload                  upload proxy used by fileUpload.ts
+ *   GET    /v3/rag/documents/:ragId/    trained document names
+ *   POST   /v3/parse/:type/             multipart file -> parsed documents
+ *   POST   /v3/rag/train/:ragId/        add parsed documents
+ *   DELETE /v3/rag/:ragId/docs/         remove documents by name
+ *   POST   /api/test-agent              SSE test progress and result
+ *   POST   /api/test-agent/quick        test result as JSON
+ *   GET    /api/test-agent/ping/:id     reachability check
+ *
+ * Knowledge base documents are kept in memory and reset on restart.
+ *
+ * Tests can script failures for the chat and stream routes by passing a
+ * `faults` array and pushing entries onto it; each agent request takes the
+ * next one:
+ *   { status: 503, retryAfter: 1 }   answer with that status (and Retry-After)
+ *   { delayMs: 5000 }                wait before answering
+ *   { stallAfter: 2 }                stream that many chunks, then go silent
+ */
+
+import { createServer } from 'node:http'
+import { randomUUID } from 'node:crypto'
+import { readdirSync, readFileSync } from 'node:fs'
+import { dirname, resolve } from 'node:path'
+import { fileURLToPath } from 'node:url'
+
+const ROOT = resolve(dirname(fileURLToPath(import.meta.url)), '..')
+const SCHEMAS_DIR = resolve(ROOT, 'response_schemas')
+const DEFAULT_PORT = 8787
+const STREAM_CHUNK_SIZE = 24
+
+// =============================================================================
+// Scripted Responses
+// =============================================================================
+
+/** example_response for every schema file, keyed by agent_id */
+export function loadExampleResponses(dir = SCHEMAS_DIR) {
+  const examples = new Map()
+  for (const file of readdirSync(dir).filter(name => name.endsWith('.json'))) {
+    const schema = JSON.parse(readFileSync(resolve(dir, file), 'utf8'))
+    if (schema.agent_id && schema.example_response) {
+      examples.set(schema.agent_id, { agentName: schema.agent_name, response: schema.example_response })
+    }
+  }
+  return examples
+}
+
+/** The example response with a fresh metadata timestamp */
+function scriptedResponse(example) {
+  const response = structuredClone(example.response)
+  if (response.metadata && typeof response.metadata === 'object') {
+    response.metadata.timestamp = new Date().toISOString()
+  }
+  return response
+}
+
+// =============================================================================
+// Field Detection (agent tester)
+// =============================================================================
+
+function detectType(value) {
+  if (value === null) return 'null'
+  if (Array.isArray(value)) return 'array'
+  if (['string', 'number', 'boolean', 'object'].includes(typeof value)) return typeof value
+  return 'unknown'
+}
+
+function detectFields(value, path) {
+  return Object.entries(value).map(([name, field]) => {
+    const type = detectType(field)
+    const fieldPath = `${path}.${name}`
+    const sample = type === 'object' || type === 'array' ? JSON.stringify(field) : String(field)
+    const info = { name, type, sampleValue: sample.slice(0, 80), path: fieldPath, isArray: type === 'array' }
+    if (type === 'object') info.children = detectFields(field, fieldPath)
+    if (type === 'array' && field[0] && typeof field[0] === 'object') {
+      info.children = detectFields(field[0], `${fieldPath}[0]`)
+    }
+    return info
+  })
+}
+
+function typeScriptFor(value, indent) {
+  const type = detectType(value)
+  if (type === 'array') return value.length ? `${typeScriptFor(value[0], indent)}[]` : 'unknown[]'
+  if (type === 'object') {
+    const pad = '  '.repeat(indent + 1)
+    const fields = Object.entries(value).map(([key, field]) => `${pad}${key}: ${typeScriptFor(field, indent + 1)}`)
+    return `{\n${fields.join('\n')}\n${'  '.repeat(indent)}}`
+  }
+  return type === 'null' ? 'null' : type
+}
+
+function buildTestResult(examples, agentId, startedAt) {
+  const example = examples.get(agentId)
+  if (!example) {
+    return { success: false, agent_id: agentId, error: `No response schema for agent ${agentId}` }
+  }
+  const response = scriptedResponse(example)
+  return {
+    success: true,
+    agent_id: agentId,
+    response,
+    rawResponse: JSON.stringify(response),
+    responseTimeMs: Date.now() - startedAt,
+    detectedFields: detectFields(response.result || {}, 'result'),
+    typeScriptInterface: `interface AgentResult ${typeScriptFor(response.result || {}, 0)}`,
+  }
+}
+
+// =============================================================================
+// HTTP Helpers
+// =============================================================================
+
+const CORS_HEADERS = {
+  'Access-Control-Allow-Origin': '*',
+  'Access-Control-Allow-Methods': 'GET, POST, DELETE, OPTIONS',
+  'Access-Control-Allow-Headers': 'Content-Type, Accept, x-api-key',
+}
+
+function sendJson(res, status, body) {
+  res.writeHead(status, { ...CORS_HEADERS, 'Content-Type': 'application/json' })
+  res.end(JSON.stringify(body))
+}
+
+function startEventStream(res) {
+  res.writeHead(200, {
+    ...CORS_HEADERS,
+    'Content-Type': 'text/event-stream',
+    'Cache-Control': 'no-cache',
+    Connection: 'keep-alive',
+  })
+  return (data) => res.write(`data: ${typeof data === 'string' ? data : JSON.stringify(data)}\n\n`)
+}
+
+function readBody(req) {
+  return new Promise((resolveBody, reject) => {
+    const chunks = []
+    req.on('data', chunk => chunks.push(chunk))
+    req.on('end', () => resolveBody(Buffer.concat(chunks)))
+    req.on('error', reject)
+  })
+}
+
+async function readJson(req) {
+  const body = await readBody(req)
+  if (!body.length) return {}
+  try {
+    return JSON.parse(body.toString('utf8'))
+  } catch {
+    return null
+  }
+}
+
+/**
+ * Files in a multipart body as { fileName, mimeType, size, text }. Only what
+ * the mock needs - no streaming, no nested parts.
+ */
+async function readMultipartFiles(req) {
+  const boundary = /boundary=(?:"([^"]+)"|([^;]+))/.exec(req.headers['content-type'] || '')
+  const body = await readBody(req)
+  if (!boundary) return []
+
+  const delimiter = `--${boundary[1] || boundary[2]}`
+  return body
+    .toString('latin1')
+    .split(delimiter)
+    .map(part => {
+      const headerEnd = part.indexOf('\r\n\r\n')
+      if (headerEnd === -1) return null
+      const headers = part.slice(0, headerEnd)
+      const fileName = /filename="([^"]*)"/.exec(headers)?.[1]
+      if (!fileName) return null
+      const content = part.slice(headerEnd + 4).replace(/\r\n$/, '')
+      return {
+        fileName,
+        mimeType: /content-type:\s*([^\r\n]+)/i.exec(headers)?.[1] || 'application/octet-stream',
+        size: Buffer.byteLength(content, 'latin1'),
+        text: Buffer.from(content, 'latin1').toString('utf8'),
+      }
+    })
+    .filter(Boolean)
+}
+
+const sleep = (ms) => new Promise(resolveSleep => setTimeout(resolveSleep, ms))
+
+// =============================================================================
+// Server
+// =============================================================================
+
+/**
+ * Create (but do not start) the mock server
+ *
+ * @param {{ latencyMs?: number, schemasDir?: string, faults?: object[] }} [options]
+ */
+export function createMockLyzrServer(options = {}) {
+  const latencyMs = options.latencyMs ?? 0
+  const examples = loadExampleResponses(options.schemasDir)
+  const faults = options.faults ?? []
+
+  /** Take the next scripted fault, answering with its status if it has one */
+  const nextFault = async (res) => {
+    const fault = faults.shift() || {}
+    if (fault.delayMs) await sleep(fault.delayMs)
+    if (fault.status) {
+      res.writeHead(fault.status, {
+        ...CORS_HEADERS,
+        'Content-Type': 'application/json',
+        ...(fault.retryAfter !== undefined && { 'Retry-After': String(fault.retryAfter) }),
+      })
+      res.end(JSON.stringify({ detail: `Scripted ${fault.status} response` }))
+    }
+    return fault
+  }
+  /** ragId -> Set of "storage/<file>" names */
+  const knowledgeBases = new Map()
+  const documentsFor = (ragId) => {
+    if (!knowledgeBases.has(ragId)) knowledgeBases.set(ragId, new Set())
+    return knowledgeBases.get(ragId)
+  }
+
+  const routes = [
+    ['POST', /^\/v3\/inference\/chat\/?$/, async (req, res) => {
+      const body = await readJson(req)
+      if (!body?.agent_id || typeof body.message !== 'string') {
+        return sendJson(res, 422, { detail: 'agent_id and message are required' })
+      }
+      const example = examples.get(body.agent_id)
+      if (!example) return sendJson(res, 404, { detail: `Agent ${body.agent_id} not found` })
+      if ((await nextFault(res)).status) return
+      sendJson(res, 200, {
+        response: JSON.stringify(scriptedResponse(example)),
+        session_id: body.session_id || `${body.agent_id}-${randomUUID()}`,
+      })
+    }],
+
+    ['POST', /^\/v3\/inference\/stream\/?$/, async (req, res) => {
+      const body = await readJson(req)
+      if (!body?.agent_id || typeof body.message !== 'string') {
+        return sendJson(res, 422, { detail: 'agent_id and message are required' })
+      }
+      const example = examples.get(body.agent_id)
+      if (!example) return sendJson(res, 404, { detail: `Agent ${body.agent_id} not found` })
+      const fault = await nextFault(res)
+      if (fault.status) return
+
+      const send = startEventStream(res)
+      const text = JSON.stringify(scriptedResponse(example))
+      send({ type: 'chat_started' })
+      for (let i = 0; i < text.length; i += STREAM_CHUNK_SIZE) {
+        if (i / STREAM_CHUNK_SIZE === fault.stallAfter) {
+          // Hold the connection open until the client gives up
+          return new Promise(resolveClose => res.on('close', resolveClose))
+        }
+        send({ type: 'chat_progress', content: text.slice(i, i + STREAM_CHUNK_SIZE) })
+        await sleep(10)
+      }
+      send({ type: 'chat_completed' })
+      send('[DONE]')
+      res.end()
+    }],
+
+    ['POST', /^\/v3\/assets\/upload\/?$/, async (req, res) => {
+      const files = await readMultipartFiles(req)
+      sendJson(res, 200, {
+        results: files.map(file => ({ asset_id: randomUUID(), file_name: file.fileName, success: true })),
+        total_files: files.length,
+        successful_uploads: files.length,
+        failed_uploads: 0,
+      })
+    }],
+
+    ['POST', /^\/api\/upload\/?$/, async (req, res) => {
+      const files = await readMultipartFiles(req)
+      if (!files.length) return sendJson(res, 400, { success: false, error: 'No files provided' })
+      const assets = files.map(file => {
+        const assetId = randomUUID()
+        return {
+          success: true,
+          asset_id: assetId,
+          file_name: file.fileName,
+          type: file.mimeType.split('/')[0],
+          url: `mock://assets/${assetId}/${encodeURIComponent(file.fileName)}`,
+          file_size: file.size,
+          mime_type: file.mimeType,
+          created_at: new Date().toISOString(),
+          error: null,
+        }
+      })
+      sendJson(res, 200, {
+        success: true,
+        asset_ids: assets.map(asset => asset.asset_id),
+        assets,
+        message: `Successfully uploaded ${assets.length} file(s)`,
+        timestamp: new Date().toISOString(),
+      })
+    }],
+
+    ['GET', /^\/v3\/rag\/documents\/([^/]+)\/?$/, async (_req, res, [ragId]) => {
+      const documents = knowledgeBases.get(ragId)
+      if (!documents?.size) return sendJson(res, 404, { detail: 'No documents found' })
+      sendJson(res, 200, [...documents])
+    }],
+
+    ['POST', /^\/v3\/parse\/(pdf|docx|txt)\/?$/, async (req, res) => {
+      const [file] = await readMultipartFiles(req)
+      if (!file) return sendJson(res, 422, { detail: 'file is required' })
+      sendJson(res, 200, {
+        documents: [{
+          id_: randomUUID(),
+          text: file.text.slice(0, 2000),
+          metadata: { source: `storage/${file.fileName}` },
+        }],
+      })
+    }],
+
+    ['POST', /^\/v3\/rag\/train\/([^/]+)\/?$/, async (req, res, [ragId]) => {
+      const documents = await readJson(req)
+      if (!Array.isArray(documents)) return sendJson(res, 422, { detail: 'Expected an array of documents' })
+      const stored = documentsFor(ragId)
+      for (const doc of documents) {
+        if (doc?.metadata?.source) stored.add(doc.metadata.source)
+      }
+      sendJson(res, 200, { success: true, trained: documents.length })
+    }],
+
+    ['DELETE', /^\/v3\/rag\/([^/]+)\/docs\/?$/, async (req, res, [ragId]) => {
+      const names = await readJson(req)
+      if (!Array.isArray(names)) return sendJson(res, 422, { detail: 'Expected an array of document names' })
+      const stored = documentsFor(ragId)
+      for (const name of names) stored.delete(name)
+      sendJson(res, 200, { success: true, deleted: names.length })
+    }],
+
+    ['POST', /^\/api\/test-agent\/?$/, async (req, res) => {
+      const startedAt = Date.now()
+      const body = await readJson(req)
+      const send = startEventStream(res)
+      send({ event_type: 'test_started', data: { agent_id: body?.agent_id } })
+      send({ event_type: 'test_progress', data: { status: 'calling', message: 'Calling mock agent...' } })
+      const result = buildTestResult(examples, body?.agent_id, startedAt)
+      if (result.success) {
+        send({ event_type: 'test_progress', data: { status: 'analyzing', message: 'Detecting response fields...' } })
+        send({ event_type: 'test_completed', data: result })
+      } else {
+        send({ event_type: 'test_error', data: { agent_id: result.agent_id, error: result.error } })
+      }
+      res.end()
+    }],
+
+    ['POST', /^\/api\/test-agent\/quick\/?$/, async (req, res) => {
+      const startedAt = Date.now()
+      const body = await readJson(req)
+      const result = buildTestResult(examples, body?.agent_id, startedAt)
+      sendJson(res, result.success ? 200 : 404, result)
+    }],
+
+    ['GET', /^\/api\/test-agent\/ping\/([^/]+)\/?$/, async (_req, res, [agentId]) => {
+      sendJson(res, 200, { success: true, reachable: examples.has(agentId) })
+    }],
+  ]
+
+  return createServer(async (req, res) => {
+    const { pathname } = new URL(req.url || '/', 'http://localhost')
+
+    if (req.method === 'OPTIONS') {
+      res.writeHead(204, CORS_HEADERS)
+      return res.end()
+    }
+
+    const route = routes.find(([method, pattern]) => method === req.method && pattern.test(pathname))
+    if (!route) return sendJson(res, 404, { detail: `No mock for ${req.method} ${pathname}` })
+
+    try {
+      if (latencyMs > 0) await sleep(latencyMs)
+      const params = route[1].exec(pathname).slice(1).map(decodeURIComponent)
+      await route[2](req, res, params)
+    } catch (error) {
+      console.error(`[mock-lyzr] ${req.method} ${pathname} failed:`, error)
+      if (!res.headersSent) sendJson(res, 500, { detail: 'Mock server error' })
+      else res.end()
+    }
+  })
+}
+
+// =============================================================================
+// CLI
+// =============================================================================
+
+if (process.argv[1] && resolve(process.argv[1]) === fileURLToPath(import.meta.url)) {
+  const portFlag = process.argv.indexOf('--port')
+  const port = Number(portFlag !== -1 ? process.argv[portFlag + 1] : process.env.PORT) || DEFAULT_PORT
+  const latencyMs = Number(process.env.MOCK_LATENCY_MS) || 0
+
+  const server = createMockLyzrServer({ latencyMs })
+  server.listen(port, () => {
+    const agents = [...loadExampleResponses().entries()].map(([id, { agentName }]) => `  ${agentName} (${id})`)
+    console.log(`Mock Lyzr server listening on http://localhost:${port}`)
+    console.log(`Scripted agents:\n${agents.join('\n') || '  (none)'}`)
+  })
+}
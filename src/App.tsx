@@ -1,6 +1,7 @@
 import { BrowserRouter, Routes, Route } from 'react-router-dom'
 import { AgentInterceptorProvider } from '@/components/AgentInterceptorProvider'
 import ErrorBoundary, { GlobalErrorModal } from '@/components/ErrorBoundary'
+import { Toaster } from '@/components/ui/sonner'
 import Home from './pages/Home'
 import NotFound from './pages/NotFound'
 
@@ -15,6 +16,7 @@ export default function App() {
           </Routes>
         </AgentInterceptorProvider>
         <GlobalErrorModal />
+        <Toaster position="top-center" />
       </ErrorBoundary>
     </BrowserRouter>
   )
@@ -6,16 +6,21 @@
  *
  * @example
  * ```tsx
- * const { callAgent, loading, error, response } = useAgent({ agentId: 'xxx' })
+ * const { callAgent, cancel, loading, error, response } = useAgent({ agentId: 'xxx' })
+ * // or by role, using the agent chosen in Settings:
+ * const { callAgent } = useAgent({ role: 'task_assistant' })
  *
+ * // In-flight calls are aborted by cancel() and on unmount
  * // response is NormalizedAgentResponse:
  * // { status: 'success', result: {...}, message?: string }
  * ```
  */
 
-import { useState, useCallback } from 'react'
+import { useState, useCallback, useEffect, useRef } from 'react'
 import { isInIframe, sendErrorToParent, requestFixFromParent } from '@/components/ErrorBoundary'
-import { callAIAgent, NormalizedAgentResponse, AIAgentResponse } from '@/utils/aiAgent'
+import { callAIAgent, NormalizedAgentResponse, AIAgentResponse, RetryPolicy } from '@/utils/aiAgent'
+import { LYZR_CHAT_URL } from '@/lib/api-config'
+import { loadAgentAssignments, resolveAgentId, type AgentRole } from '@/lib/agent-registry'
 
 // =============================================================================
 // Types
@@ -35,6 +40,8 @@ interface ErrorDetails {
 
 interface UseAgentOptions {
   agentId?: string
+  /** Resolve the agent from the registry when no agentId is given */
+  role?: AgentRole
   onError?: (error: ErrorDetails) => void
   showErrorModal?: boolean
 }
@@ -44,6 +51,9 @@ interface AgentCallOptions {
   agentId?: string
   userId?: string
   sessionId?: string
+  /** Per-attempt timeout in ms */
+  timeout?: number
+  retry?: Partial<RetryPolicy> | false
 }
 
 interface UseAgentResult {
@@ -51,6 +61,8 @@ interface UseAgentResult {
   response: NormalizedAgentResponse
   raw_response?: string
   error?: ErrorDetails
+  /** The call was cancelled before it finished */
+  aborted?: boolean
 }
 
 // =============================================================================
@@ -81,7 +93,7 @@ const createErrorDetails = (
   type,
   message,
   raw_response,
-  endpoint: 'https://agent-prod.studio.lyzr.ai/v3/inference/chat',
+  endpoint: LYZR_CHAT_URL,
   timestamp: new Date().toISOString(),
   userAgent: typeof navigator !== 'undefined' ? navigator.userAgent : 'unknown',
   url: typeof window !== 'undefined' ? window.location.href : 'unknown',
@@ -122,10 +134,22 @@ export const useAgent = (options: UseAgentOptions = {}) => {
   const [error, setError] = useState<ErrorDetails | null>(null)
   const [response, setResponse] = useState<NormalizedAgentResponse | null>(null)
   const [lastResult, setLastResult] = useState<AIAgentResponse | null>(null)
+  const controllerRef = useRef<AbortController | null>(null)
+
+  // Abort whatever is in flight when the component unmounts
+  useEffect(() => () => controllerRef.current?.abort(), [])
+
+  const cancel = useCallback(() => {
+    controllerRef.current?.abort()
+    controllerRef.current = null
+    setLoading(false)
+  }, [])
 
   const callAgent = useCallback(async (callOptions: AgentCallOptions): Promise<UseAgentResult> => {
-    const { message, agentId, userId, sessionId } = callOptions
-    const finalAgentId = agentId || options.agentId || import.meta.env.VITE_AGENT_ID
+    const { message, agentId, userId, sessionId, timeout, retry } = callOptions
+    const finalAgentId = agentId
+      || options.agentId
+      || (options.role ? resolveAgentId(options.role, loadAgentAssignments()) : import.meta.env.VITE_AGENT_ID)
 
     if (!finalAgentId) {
       const err = createErrorDetails('api_error', 'No agent_id provided')
@@ -137,6 +161,10 @@ export const useAgent = (options: UseAgentOptions = {}) => {
       }
     }
 
+    controllerRef.current?.abort()
+    const controller = new AbortController()
+    controllerRef.current = controller
+
     setLoading(true)
     setError(null)
 
@@ -145,8 +173,16 @@ export const useAgent = (options: UseAgentOptions = {}) => {
       const result = await callAIAgent(message, finalAgentId, {
         user_id: userId,
         session_id: sessionId,
+        signal: controller.signal,
+        timeout,
+        retry,
       })
 
+      // Cancelled, superseded by a newer call, or unmounted - leave state alone
+      if (controller.signal.aborted) {
+        return { success: false, response: result.response, aborted: true }
+      }
+
       setLastResult(result)
       setResponse(result.response)
 
@@ -231,7 +267,10 @@ export const useAgent = (options: UseAgentOptions = {}) => {
       }
 
     } finally {
-      setLoading(false)
+      if (controllerRef.current === controller) {
+        controllerRef.current = null
+        setLoading(false)
+      }
     }
   }, [options])
 
@@ -247,6 +286,7 @@ export const useAgent = (options: UseAgentOptions = {}) => {
 
   return {
     callAgent,
+    cancel,
     loading,
     error,
     response,
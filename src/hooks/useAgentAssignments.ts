@@ -0,0 +1,52 @@
+/**
+ * useAgentAssignments Hook
+ *
+ * Which agent serves each role, kept in sync with localStorage. Roles the
+ * user hasn't changed resolve to their workflow.json default.
+ *
+ * @example
+ * ```tsx
+ * const { getAgentId, assignAgent, resetAgent } = useAgentAssignments()
+ * await callAIAgent(message, getAgentId('task_assistant'))
+ * ```
+ */
+
+import { useCallback, useEffect, useState } from 'react'
+import {
+  loadAgentAssignments,
+  resolveAgentId,
+  saveAgentAssignments,
+  type AgentAssignments,
+  type AgentRole,
+} from '@/lib/agent-registry'
+
+export function useAgentAssignments() {
+  const [assignments, setAssignments] = useState<AgentAssignments>(loadAgentAssignments)
+
+  useEffect(() => {
+    saveAgentAssignments(assignments)
+  }, [assignments])
+
+  const getAgentId = useCallback((role: AgentRole) => resolveAgentId(role, assignments), [assignments])
+
+  const assignAgent = (role: AgentRole, agentId: string) => {
+    setAssignments(prev => ({ ...prev, [role]: agentId.trim() }))
+  }
+
+  const resetAgent = (role: AgentRole) => {
+    setAssignments(prev => {
+      const next = { ...prev }
+      delete next[role]
+      return next
+    })
+  }
+
+  return {
+    assignments,
+    getAgentId,
+    assignAgent,
+    resetAgent,
+  }
+}
+
+export default useAgentAssignments
@@ -0,0 +1,86 @@
+/**
+ * useCategories Hook
+ *
+ * The user's category list, kept in sync with localStorage. Renaming a
+ * category also migrates the tasks filed under it through `setTasks`.
+ * Every edit returns the result, so callers can show validation errors.
+ *
+ * @example
+ * ```tsx
+ * const { categories, addCategory, renameCategory } = useCategories(setTasks)
+ * const result = renameCategory(id, 'Errands')
+ * if (!result.success) setError(result.error)
+ * ```
+ */
+
+import { useCallback, useEffect, useRef, useState, type Dispatch, type SetStateAction } from 'react'
+import {
+  addCategory as addCategoryTo,
+  addProject as addProjectTo,
+  loadCategories,
+  moveCategory as moveCategoryIn,
+  renameCategory as renameCategoryIn,
+  renameCategoryInTasks,
+  renameProject as renameProjectIn,
+  saveCategories,
+  setCategoryArchived,
+  setCategoryColor as setCategoryColorIn,
+  setProjectArchived,
+  withTaskCategories,
+  type Category,
+  type CategoryColor,
+  type CategoryResult,
+} from '@/lib/categories'
+import type { Task } from '@/types'
+
+export function useCategories(setTasks: Dispatch<SetStateAction<Task[]>>) {
+  const [categories, setCategories] = useState<Category[]>(loadCategories)
+  // Edits read the latest list so several in one event don't overwrite each other
+  const categoriesRef = useRef(categories)
+  categoriesRef.current = categories
+
+  useEffect(() => {
+    saveCategories(categories)
+  }, [categories])
+
+  const apply = useCallback((result: CategoryResult): CategoryResult => {
+    if (result.success && result.categories !== categoriesRef.current) {
+      categoriesRef.current = result.categories
+      setCategories(result.categories)
+    }
+    return result
+  }, [])
+
+  const renameCategory = (id: string, name: string): CategoryResult => {
+    const previous = categoriesRef.current.find(c => c.id === id)
+    const result = apply(renameCategoryIn(categoriesRef.current, id, name))
+    const renamed = result.categories.find(c => c.id === id)
+    if (result.success && previous && renamed) {
+      setTasks(prev => renameCategoryInTasks(prev, previous.name, renamed.name))
+    }
+    return result
+  }
+
+  // Add entries for categories that only exist on tasks
+  const syncWithTasks = useCallback((tasks: Task[]) => {
+    const next = withTaskCategories(categoriesRef.current, tasks)
+    if (next !== categoriesRef.current) apply({ success: true, categories: next })
+  }, [apply])
+
+  return {
+    categories,
+    addCategory: (name: string, color?: CategoryColor) => apply(addCategoryTo(categoriesRef.current, name, color)),
+    renameCategory,
+    setCategoryColor: (id: string, color: CategoryColor) => apply(setCategoryColorIn(categoriesRef.current, id, color)),
+    archiveCategory: (id: string, archived: boolean) => apply(setCategoryArchived(categoriesRef.current, id, archived)),
+    moveCategory: (id: string, direction: -1 | 1) => apply(moveCategoryIn(categoriesRef.current, id, direction)),
+    addProject: (categoryId: string, name: string) => apply(addProjectTo(categoriesRef.current, categoryId, name)),
+    renameProject: (categoryId: string, projectId: string, name: string) =>
+      apply(renameProjectIn(categoriesRef.current, categoryId, projectId, name)),
+    archiveProject: (categoryId: string, projectId: string, archived: boolean) =>
+      apply(setProjectArchived(categoriesRef.current, categoryId, projectId, archived)),
+    syncWithTasks,
+  }
+}
+
+export default useCategories
@@ -0,0 +1,89 @@
+/**
+ * useChatThreads Hook
+ *
+ * Keeps the saved chat threads and the selected thread in sync with
+ * localStorage. Starting a new chat only clears the selection; the thread is
+ * created when its first message is sent.
+ *
+ * @example
+ * ```tsx
+ * const { activeThread, ensureThread, updateMessages } = useChatThreads(AGENT_ID)
+ * const thread = ensureThread(deriveThreadTitle(text))
+ * updateMessages(thread.id, prev => [...prev, message])
+ * ```
+ */
+
+import { useCallback, useEffect, useState } from 'react'
+import {
+  createChatThread,
+  loadActiveThreadId,
+  loadChatThreads,
+  saveActiveThreadId,
+  saveChatThreads,
+  type ChatMessage,
+  type ChatThread,
+} from '@/lib/chat-history'
+
+export function useChatThreads(agentId: string) {
+  const [threads, setThreads] = useState<ChatThread[]>(loadChatThreads)
+  const [activeThreadId, setActiveThreadId] = useState<string | null>(loadActiveThreadId)
+
+  useEffect(() => {
+    saveChatThreads(threads)
+  }, [threads])
+
+  useEffect(() => {
+    saveActiveThreadId(activeThreadId)
+  }, [activeThreadId])
+
+  const activeThread = threads.find(t => t.id === activeThreadId) || null
+
+  /**
+   * The selected thread, or a newly created one if none is selected
+   */
+  const ensureThread = (title?: string): ChatThread => {
+    if (activeThread) return activeThread
+    const thread = createChatThread(agentId, title)
+    setThreads(prev => [thread, ...prev])
+    setActiveThreadId(thread.id)
+    return thread
+  }
+
+  /**
+   * Update a thread's messages by ID, so replies land in the thread they were
+   * sent from even if the user switched threads while waiting
+   */
+  const updateMessages = useCallback((threadId: string, update: (messages: ChatMessage[]) => ChatMessage[]) => {
+    setThreads(prev => prev.map(t => (t.id === threadId
+      ? { ...t, messages: update(t.messages), updatedAt: new Date() }
+      : t)))
+  }, [])
+
+  const renameThread = (threadId: string, title: string) => {
+    const trimmed = title.trim()
+    if (!trimmed) return
+    setThreads(prev => prev.map(t => (t.id === threadId ? { ...t, title: trimmed } : t)))
+  }
+
+  const selectThread = useCallback((threadId: string | null) => setActiveThreadId(threadId), [])
+
+  const startNewThread = useCallback(() => setActiveThreadId(null), [])
+
+  const deleteThread = (threadId: string) => {
+    setThreads(prev => prev.filter(t => t.id !== threadId))
+    if (threadId === activeThreadId) setActiveThreadId(null)
+  }
+
+  return {
+    threads,
+    activeThread,
+    selectThread,
+    startNewThread,
+    ensureThread,
+    updateMessages,
+    renameThread,
+    deleteThread,
+  }
+}
+
+export default useChatThreads
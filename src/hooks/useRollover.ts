@@ -0,0 +1,108 @@
+/**
+ * useRollover Hook
+ *
+ * The morning rollover setting and log, kept in sync with localStorage.
+ * Once tasks have loaded, and then every minute so a tab left open
+ * overnight catches up, overdue tasks are moved to today when the
+ * rollover is enabled and has not run yet today.
+ *
+ * @example
+ * ```tsx
+ * const { settings, log, setEnabled, rollOver } = useRollover(tasks, tasksLoaded, setTasks, entries => {
+ *   toast(`Moved ${entries.length} overdue tasks to today`)
+ * })
+ * ```
+ */
+
+import { useEffect, useRef, useState, type Dispatch, type SetStateAction } from 'react'
+import {
+  appendRolloverLog,
+  isRolloverDue,
+  loadRolloverLog,
+  loadRolloverSettings,
+  rollOverTasks,
+  saveRolloverLog,
+  saveRolloverSettings,
+  type RolloverEntry,
+  type RolloverSettings,
+} from '@/lib/overdue'
+import { getDayKeyInZone } from '@/lib/due-time'
+import type { Task } from '@/types'
+
+const CHECK_INTERVAL_MS = 60 * 1000
+
+export function useRollover(
+  tasks: Task[],
+  tasksLoaded: boolean,
+  setTasks: Dispatch<SetStateAction<Task[]>>,
+  /** Called with the moved tasks, in the same tick as the task update */
+  onRolledOver: (entries: RolloverEntry[]) => void
+) {
+  const [settings, setSettings] = useState<RolloverSettings>(loadRolloverSettings)
+  const [log, setLog] = useState<RolloverEntry[]>(loadRolloverLog)
+  // Latest values for the interval callback
+  const latest = useRef({ tasks, settings, onRolledOver })
+  latest.current = { tasks, settings, onRolledOver }
+
+  useEffect(() => {
+    saveRolloverSettings(settings)
+  }, [settings])
+
+  useEffect(() => {
+    saveRolloverLog(log)
+  }, [log])
+
+  /** Move overdue tasks (or only `ids`) to today; returns what was moved */
+  const rollOver = (ids?: Iterable<string>, automatic = false): RolloverEntry[] => {
+    const { tasks: current, onRolledOver: notify } = latest.current
+    const now = new Date()
+    const result = rollOverTasks(current, now, { ids, automatic })
+    if (result.entries.length === 0) return result.entries
+
+    // Apply to the latest list so edits made in the same tick are kept, moving only
+    // the logged tasks that are still overdue there
+    const movedIds = result.entries.map(entry => entry.taskId)
+    latest.current.tasks = result.tasks
+    setTasks(prev => rollOverTasks(prev, now, { ids: movedIds, automatic }).tasks)
+    setLog(prev => appendRolloverLog(prev, result.entries))
+    notify(result.entries)
+    return result.entries
+  }
+
+  const rollOverRef = useRef(rollOver)
+  rollOverRef.current = rollOver
+
+  useEffect(() => {
+    if (!tasksLoaded) return
+
+    const check = () => {
+      const now = new Date()
+      if (!isRolloverDue(latest.current.settings, now)) return
+      const next = { ...latest.current.settings, lastRolloverDay: getDayKeyInZone(now) }
+      latest.current.settings = next
+      setSettings(next)
+      rollOverRef.current(undefined, true)
+    }
+
+    check()
+    const interval = setInterval(check, CHECK_INTERVAL_MS)
+    return () => clearInterval(interval)
+  }, [tasksLoaded, settings.enabled])
+
+  const setEnabled = (enabled: boolean) => {
+    // Turning the rollover on shouldn't move tasks until tomorrow morning
+    setSettings(prev => ({ ...prev, enabled, lastRolloverDay: enabled ? getDayKeyInZone(new Date()) : prev.lastRolloverDay }))
+  }
+
+  const clearLog = () => setLog([])
+
+  return {
+    settings,
+    log,
+    setEnabled,
+    rollOver,
+    clearLog,
+  }
+}
+
+export default useRollover
@@ -0,0 +1,28 @@
+/**
+ * useSearchIndex Hook
+ *
+ * Keeps a search index over tasks and chat threads, re-indexing only the
+ * items that changed since the last render.
+ *
+ * @example
+ * ```tsx
+ * const index = useSearchIndex(tasks, threads)
+ * const results = searchIndex(index, query)
+ * ```
+ */
+
+import { useMemo, useRef } from 'react'
+import { EMPTY_SEARCH_INDEX, updateSearchIndex, type SearchIndex } from '@/lib/search-index'
+import type { ChatThread } from '@/lib/chat-history'
+import type { Task } from '@/types'
+
+export function useSearchIndex(tasks: Task[], threads: ChatThread[]): SearchIndex {
+  const previous = useRef<SearchIndex>(EMPTY_SEARCH_INDEX)
+
+  return useMemo(() => {
+    previous.current = updateSearchIndex(previous.current, tasks, threads)
+    return previous.current
+  }, [tasks, threads])
+}
+
+export default useSearchIndex
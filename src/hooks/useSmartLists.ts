@@ -0,0 +1,65 @@
+/**
+ * useSmartLists Hook
+ *
+ * Saved smart lists, kept in sync with localStorage. Saving returns the
+ * result so the editor can show why a name or query was rejected.
+ * Category and project renames are passed to `renameInQueries` so saved
+ * queries keep matching.
+ *
+ * @example
+ * ```tsx
+ * const { smartLists, saveSmartList } = useSmartLists()
+ * const result = saveSmartList(null, 'Urgent', 'priority:high status:!completed')
+ * ```
+ */
+
+import { useEffect, useRef, useState } from 'react'
+import {
+  createSmartList,
+  deleteSmartList as deleteFrom,
+  loadSmartLists,
+  renameInSmartLists,
+  saveSmartLists,
+  updateSmartList,
+  type SmartList,
+  type SmartListResult,
+} from '@/lib/smart-lists'
+
+export function useSmartLists() {
+  const [smartLists, setSmartLists] = useState<SmartList[]>(loadSmartLists)
+  const listsRef = useRef(smartLists)
+  listsRef.current = smartLists
+
+  useEffect(() => {
+    saveSmartLists(smartLists)
+  }, [smartLists])
+
+  /** Create a list, or update it when an ID is given */
+  const saveSmartList = (id: string | null, name: string, query: string): SmartListResult => {
+    const result = id
+      ? updateSmartList(listsRef.current, id, name, query)
+      : createSmartList(listsRef.current, name, query)
+    if (result.success) {
+      listsRef.current = result.lists
+      setSmartLists(result.lists)
+    }
+    return result
+  }
+
+  const deleteSmartList = (id: string) => {
+    setSmartLists(prev => deleteFrom(prev, id))
+  }
+
+  const renameInQueries = (field: 'category' | 'project', from: string, to: string, keepOld = false) => {
+    setSmartLists(prev => renameInSmartLists(prev, field, from, to, keepOld))
+  }
+
+  return {
+    smartLists,
+    saveSmartList,
+    deleteSmartList,
+    renameInQueries,
+  }
+}
+
+export default useSmartLists
@@ -0,0 +1,95 @@
+/**
+ * useTaskHistory Hook
+ *
+ * Undo/redo stack for task mutations, kept in sync with localStorage.
+ * Commands are recorded from the change between two task lists; undo and
+ * redo apply the stored changes through `setTasks`. A command can also be
+ * reverted by ID out of order (e.g. an accepted suggestion), which only
+ * touches the tasks it changed.
+ *
+ * @example
+ * ```tsx
+ * const { record, undo, redo, canUndo } = useTaskHistory(setTasks)
+ * record('Deleted task', diffTasks(before, after))
+ * undo()
+ * ```
+ */
+
+import { useCallback, useEffect, useRef, useState, type Dispatch, type SetStateAction } from 'react'
+import {
+  applyTaskCommand,
+  createTaskCommand,
+  findCommand,
+  loadTaskHistory,
+  pushCommand,
+  renameCategoryInHistory,
+  saveTaskHistory,
+  stepHistory,
+  type HistoryDirection,
+  type TaskChange,
+  type TaskCommand,
+  type TaskHistory,
+} from '@/lib/task-history'
+import type { Task } from '@/types'
+
+export function useTaskHistory(setTasks: Dispatch<SetStateAction<Task[]>>) {
+  const [history, setHistory] = useState<TaskHistory>(loadTaskHistory)
+  // Read by undo/redo so repeated key presses before a re-render step correctly
+  const historyRef = useRef(history)
+  historyRef.current = history
+
+  useEffect(() => {
+    saveTaskHistory(history)
+  }, [history])
+
+  /** `id` lets the caller refer to the command later, e.g. to revert it */
+  const record = useCallback((label: string, changes: TaskChange[], id?: string): TaskCommand | null => {
+    if (changes.length === 0) return null
+    const command = createTaskCommand(label, changes, id)
+    historyRef.current = pushCommand(historyRef.current, command)
+    setHistory(historyRef.current)
+    return command
+  }, [])
+
+  const step = useCallback((direction: HistoryDirection): TaskCommand | null => {
+    const next = stepHistory(historyRef.current, direction)
+    if (!next) return null
+    historyRef.current = next.history
+    setHistory(next.history)
+    setTasks(prev => applyTaskCommand(prev, next.command, direction))
+    return next.command
+  }, [setTasks])
+
+  const undo = useCallback(() => step('undo'), [step])
+  const redo = useCallback(() => step('redo'), [step])
+
+  /**
+   * Restore the tasks a command changed to their versions before it. The
+   * history is left as is, so callers record the revert as a new change.
+   */
+  const revert = useCallback((id: string): TaskCommand | null => {
+    const command = findCommand(historyRef.current, id)
+    if (!command) return null
+    setTasks(prev => applyTaskCommand(prev, command, 'undo'))
+    return command
+  }, [setTasks])
+
+  /** Keep stored tasks in step with a category rename */
+  const renameCategory = useCallback((from: string, to: string) => {
+    historyRef.current = renameCategoryInHistory(historyRef.current, from, to)
+    setHistory(historyRef.current)
+  }, [])
+
+  return {
+    history,
+    canUndo: history.past.length > 0,
+    canRedo: history.future.length > 0,
+    record,
+    undo,
+    redo,
+    revert,
+    renameCategory,
+  }
+}
+
+export default useTaskHistory
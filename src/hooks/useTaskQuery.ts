@@ -0,0 +1,76 @@
+/**
+ * useTaskQuery Hook
+ *
+ * Runs a TaskRepository query and re-runs it whenever the query or the
+ * `version` value changes (pass the in-memory task list so views refresh
+ * after every mutation has been saved).
+ *
+ * @example
+ * ```tsx
+ * const { tasks: dueToday } = useTaskQuery({ dueFrom: today, dueBefore: tomorrow }, tasks)
+ * ```
+ */
+
+import { useEffect, useMemo, useState } from 'react'
+import { getTaskRepository, type TaskQuery } from '@/lib/task-repository'
+import type { Task } from '@/types'
+
+// Callers build a new query object every render; the serialized form is what identifies it
+const serializeQuery = (query: TaskQuery | null): string => {
+  if (!query) return 'null'
+  return JSON.stringify({
+    dueFrom: query.dueFrom?.getTime(),
+    dueBefore: query.dueBefore?.getTime(),
+    category: query.category,
+    status: query.status,
+  })
+}
+
+const deserializeQuery = (key: string): TaskQuery | null => {
+  const raw = JSON.parse(key)
+  if (!raw) return null
+  return {
+    dueFrom: raw.dueFrom !== undefined ? new Date(raw.dueFrom) : undefined,
+    dueBefore: raw.dueBefore !== undefined ? new Date(raw.dueBefore) : undefined,
+    category: raw.category,
+    status: raw.status,
+  }
+}
+
+export function useTaskQuery(query: TaskQuery | null, version: unknown) {
+  const [tasks, setTasks] = useState<Task[]>([])
+  const [loading, setLoading] = useState(true)
+  const key = serializeQuery(query)
+  const stableQuery = useMemo(() => deserializeQuery(key), [key])
+
+  useEffect(() => {
+    if (!stableQuery) {
+      setTasks([])
+      setLoading(false)
+      return
+    }
+
+    let cancelled = false
+    setLoading(true)
+
+    getTaskRepository()
+      .query(stableQuery)
+      .then(result => {
+        if (!cancelled) setTasks(result)
+      })
+      .catch(error => {
+        console.error('Task query failed:', error)
+      })
+      .finally(() => {
+        if (!cancelled) setLoading(false)
+      })
+
+    return () => {
+      cancelled = true
+    }
+  }, [stableQuery, version])
+
+  return { tasks, loading }
+}
+
+export default useTaskQuery
@@ -0,0 +1,56 @@
+/**
+ * useTimeZone Hook
+ *
+ * The active time zone: the one chosen in settings, or the device zone.
+ * The device zone is re-read whenever the window regains focus, so views
+ * that follow it pick up travel without a reload.
+ *
+ * @example
+ * ```tsx
+ * const { timeZone, setTimeZone } = useTimeZone()
+ * const { start, end } = getDayBounds(new Date(), timeZone)
+ * setTimeZone(null) // follow the device again
+ * ```
+ */
+
+import { useEffect, useState } from 'react'
+import {
+  getSystemTimeZone,
+  isValidTimeZone,
+  loadTimeZoneSetting,
+  refreshSystemTimeZone,
+  saveTimeZoneSetting,
+} from '@/lib/due-time'
+
+export function useTimeZone() {
+  const [chosenTimeZone, setChosenTimeZone] = useState<string | null>(loadTimeZoneSetting)
+  const [systemTimeZone, setSystemTimeZone] = useState(getSystemTimeZone)
+
+  useEffect(() => {
+    const handleFocus = () => {
+      if (document.visibilityState === 'hidden') return
+      if (refreshSystemTimeZone()) setSystemTimeZone(getSystemTimeZone())
+    }
+    window.addEventListener('focus', handleFocus)
+    document.addEventListener('visibilitychange', handleFocus)
+    return () => {
+      window.removeEventListener('focus', handleFocus)
+      document.removeEventListener('visibilitychange', handleFocus)
+    }
+  }, [])
+
+  /** Choose a zone, or null to follow the device */
+  const setTimeZone = (zone: string | null) => {
+    saveTimeZoneSetting(zone)
+    setChosenTimeZone(zone && isValidTimeZone(zone) ? zone : null)
+  }
+
+  return {
+    timeZone: chosenTimeZone || systemTimeZone,
+    chosenTimeZone,
+    systemTimeZone,
+    setTimeZone,
+  }
+}
+
+export default useTimeZone
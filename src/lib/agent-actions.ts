@@ -0,0 +1,157 @@
+/**
+ * Agent Task Actions
+ *
+ * Structured edits proposed by the Task Assistant agent in
+ * `result.actions` (see response_schemas/task_assistant_agent_response.json).
+ * Actions arrive as untrusted JSON, so they are normalized and validated
+ * against the current task list before the UI offers them for acceptance.
+ */
+
+import type { Task, TaskPriority } from '@/types'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type AgentActionType = 'reprioritize' | 'move_due_date' | 'split_task' | 'create_task'
+
+export interface AgentTaskAction {
+  type: AgentActionType
+  /** Target task for reprioritize/move_due_date/split_task */
+  task_id?: string
+  /** New task title for create_task (also used to find the target if task_id is missing) */
+  title?: string
+  priority?: TaskPriority
+  /** YYYY-MM-DD */
+  due_date?: string
+  category?: string
+  /** Titles of the parts for split_task */
+  subtasks?: string[]
+  reason?: string
+}
+
+/**
+ * An accepted action, so it can be undone: the undo history command that
+ * holds the before and after version of each task it changed
+ */
+export interface AppliedAgentAction {
+  commandId: string
+}
+
+export interface ActionProposal {
+  id: string
+  action: AgentTaskAction
+  state: 'pending' | 'accepted' | 'rejected' | 'failed'
+  error?: string
+  applied?: AppliedAgentAction
+}
+
+// =============================================================================
+// Normalization
+// =============================================================================
+
+const ACTION_TYPES: AgentActionType[] = ['reprioritize', 'move_due_date', 'split_task', 'create_task']
+const PRIORITIES: TaskPriority[] = ['low', 'medium', 'high']
+
+const asString = (value: unknown): string | undefined =>
+  typeof value === 'string' && value.trim() ? value.trim() : typeof value === 'number' ? String(value) : undefined
+
+/**
+ * Keep only well-formed actions from an agent result. Unknown types and
+ * invalid priorities are dropped rather than guessed.
+ */
+export function normalizeAgentActions(raw: unknown): AgentTaskAction[] {
+  if (!Array.isArray(raw)) return []
+
+  return raw.flatMap((item): AgentTaskAction[] => {
+    if (!item || typeof item !== 'object') return []
+    const type = asString(item.type)?.toLowerCase() as AgentActionType
+    if (!ACTION_TYPES.includes(type)) return []
+
+    const priority = asString(item.priority)?.toLowerCase() as TaskPriority
+    return [{
+      type,
+      task_id: asString(item.task_id),
+      title: asString(item.title),
+      priority: PRIORITIES.includes(priority) ? priority : undefined,
+      due_date: asString(item.due_date),
+      category: asString(item.category),
+      subtasks: Array.isArray(item.subtasks)
+        ? item.subtasks.map(asString).filter((s: string | undefined): s is string => Boolean(s))
+        : undefined,
+      reason: asString(item.reason),
+    }]
+  })
+}
+
+/**
+ * Parse a YYYY-MM-DD date as a local calendar day
+ */
+export function parseActionDate(value?: string): Date | null {
+  const match = value?.match(/^(\d{4})-(\d{2})-(\d{2})/)
+  if (!match) return null
+  const date = new Date(Number(match[1]), Number(match[2]) - 1, Number(match[3]))
+  return isNaN(date.getTime()) ? null : date
+}
+
+/**
+ * Find the task an action refers to, by ID or else by exact (case-insensitive) title
+ */
+export function resolveActionTarget(action: AgentTaskAction, tasks: Task[]): Task | undefined {
+  if (action.task_id) {
+    const byId = tasks.find(t => t.id === action.task_id)
+    if (byId) return byId
+  }
+  if (action.title) {
+    const title = action.title.toLowerCase()
+    return tasks.find(t => t.title.toLowerCase() === title)
+  }
+  return undefined
+}
+
+/**
+ * Check an action can be applied to the current tasks; returns an error message or null
+ */
+export function validateAgentAction(action: AgentTaskAction, tasks: Task[]): string | null {
+  if (action.type === 'create_task') {
+    if (!action.title) return 'The new task has no title'
+    if (action.due_date && !parseActionDate(action.due_date)) return `Invalid due date "${action.due_date}"`
+    return null
+  }
+
+  if (!resolveActionTarget(action, tasks)) return 'The task no longer exists'
+
+  switch (action.type) {
+    case 'reprioritize':
+      return action.priority ? null : 'No priority given'
+    case 'move_due_date':
+      return parseActionDate(action.due_date) ? null : `Invalid due date "${action.due_date || ''}"`
+    case 'split_task':
+      return action.subtasks && action.subtasks.length >= 2 ? null : 'A split needs at least two parts'
+    default:
+      return 'Unsupported action'
+  }
+}
+
+/**
+ * One-line description for the proposal card
+ */
+export function describeAgentAction(action: AgentTaskAction, tasks: Task[]): string {
+  const target = resolveActionTarget(action, tasks)
+  const name = target ? `"${target.title}"` : 'a task'
+  const date = parseActionDate(action.due_date)
+  const formatted = date?.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })
+
+  switch (action.type) {
+    case 'reprioritize':
+      return `Set ${name} to ${action.priority} priority`
+    case 'move_due_date':
+      return `Move ${name} to ${formatted || action.due_date}`
+    case 'split_task':
+      return `Split ${name} into ${action.subtasks?.length || 0} tasks: ${(action.subtasks || []).join(', ')}`
+    case 'create_task':
+      return `Create "${action.title}"${formatted ? ` due ${formatted}` : ''}${action.priority ? ` (${action.priority})` : ''}`
+    default:
+      return 'Unknown action'
+  }
+}
@@ -5,10 +5,8 @@
  * Works even when AI-generated code uses raw fetch() instead of useAgent hook
  */
 
-// Lyzr Agent API endpoint to intercept
-const LYZR_API_URL = 'https://agent-prod.studio.lyzr.ai/v3/inference/chat'
-
 import { isInIframe } from '@/components/ErrorBoundary'
+import { LYZR_AGENT_BASE_URL, LYZR_CHAT_URL } from '@/lib/api-config'
 
 interface ErrorDetails {
   type: 'react_error' | 'api_error' | 'parse_error' | 'network_error' | 'unknown'
@@ -103,7 +101,7 @@ function detectResponseIssue(data: any): { hasIssue: boolean; error: ErrorDetail
         type: 'api_error',
         message: data.error,
         raw_response: data.details || data.raw_response,
-        endpoint: LYZR_API_URL,
+        endpoint: LYZR_CHAT_URL,
         timestamp: new Date().toISOString(),
         userAgent: navigator.userAgent,
         url: window.location.href,
@@ -119,7 +117,7 @@ function detectResponseIssue(data: any): { hasIssue: boolean; error: ErrorDetail
         type: 'parse_error',
         message: 'JSON parsing failed but valid data exists in raw_response',
         raw_response: data.raw_response,
-        endpoint: LYZR_API_URL,
+        endpoint: LYZR_CHAT_URL,
         timestamp: new Date().toISOString(),
         userAgent: navigator.userAgent,
         url: window.location.href,
@@ -139,7 +137,7 @@ function detectResponseIssue(data: any): { hasIssue: boolean; error: ErrorDetail
             type: 'parse_error',
             message: data.response.error,
             raw_response: data.raw_response,
-            endpoint: LYZR_API_URL,
+            endpoint: LYZR_CHAT_URL,
             timestamp: new Date().toISOString(),
             userAgent: navigator.userAgent,
             url: window.location.href,
@@ -190,7 +188,7 @@ async function interceptedFetch(
   const url = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url
 
   // Only intercept Lyzr Agent API calls
-  if (!url.includes('agent-prod.studio.lyzr.ai')) {
+  if (!url.startsWith(`${LYZR_AGENT_BASE_URL}/v3/`)) {
     return originalFetch(input, init)
   }
 
@@ -0,0 +1,124 @@
+/**
+ * Agent Registry
+ *
+ * Typed view of the agents declared in `workflow.json`, plus the roles
+ * features ask for instead of raw agent IDs. Each role defaults to the
+ * workflow agent that lists it in `roles` (or the workflow's first agent),
+ * and users can point a role at another agent ID from Settings.
+ *
+ * Results are always validated against the role's default agent's schema,
+ * so a replacement agent must return the same response shape.
+ */
+
+import { TASKFLOW_WORKFLOW, type WorkflowAgent } from '@/lib/workflow-engine'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type AgentRole = 'task_assistant'
+
+export interface AgentRoleDefinition {
+  role: AgentRole
+  label: string
+  description: string
+}
+
+export interface RegisteredAgent {
+  agentId: string
+  name: string
+  description?: string
+  provider?: string
+  model?: string
+  temperature?: number
+  topP?: number
+  /** Path of the response schema, e.g. "response_schemas/task_assistant_agent_response.json" */
+  schemaPath?: string
+  roles: AgentRole[]
+}
+
+/** Role -> agent ID chosen in Settings; missing roles use their default */
+export type AgentAssignments = Partial<Record<AgentRole, string>>
+
+// =============================================================================
+// Roles
+// =============================================================================
+
+export const AGENT_ROLES: AgentRoleDefinition[] = [
+  {
+    role: 'task_assistant',
+    label: 'Task Assistant',
+    description: 'Answers questions in the chat, suggests changes to tasks and interprets quick-add text',
+  },
+]
+
+const ROLE_IDS = new Set<string>(AGENT_ROLES.map(r => r.role))
+
+// =============================================================================
+// Registry
+// =============================================================================
+
+function toRegisteredAgent(agent: WorkflowAgent): RegisteredAgent {
+  return {
+    agentId: agent.agent_id,
+    name: agent.name,
+    description: agent.description,
+    provider: agent.provider,
+    model: agent.model,
+    temperature: agent.temperature,
+    topP: agent.top_p,
+    schemaPath: agent.response_schema,
+    roles: (agent.roles || []).filter((role): role is AgentRole => ROLE_IDS.has(role)),
+  }
+}
+
+export const AGENT_REGISTRY: RegisteredAgent[] = (TASKFLOW_WORKFLOW.agents || []).map(toRegisteredAgent)
+
+export function getRegisteredAgent(agentId: string): RegisteredAgent | null {
+  return AGENT_REGISTRY.find(agent => agent.agentId === agentId) || null
+}
+
+/**
+ * The workflow agent that serves a role unless the user picked another
+ */
+export function getDefaultAgentId(role: AgentRole): string {
+  const agent = AGENT_REGISTRY.find(a => a.roles.includes(role)) || AGENT_REGISTRY[0]
+  return agent?.agentId || import.meta.env.VITE_AGENT_ID || ''
+}
+
+export function resolveAgentId(role: AgentRole, assignments: AgentAssignments = {}): string {
+  return assignments[role]?.trim() || getDefaultAgentId(role)
+}
+
+/** Lyzr agent IDs are 24-character hex strings */
+export function isValidAgentId(agentId: string): boolean {
+  return /^[a-f0-9]{24}$/i.test(agentId.trim())
+}
+
+// =============================================================================
+// Persistence
+// =============================================================================
+
+const ASSIGNMENTS_STORAGE_KEY = 'taskflow_agent_assignments'
+
+export function loadAgentAssignments(): AgentAssignments {
+  try {
+    const saved = localStorage.getItem(ASSIGNMENTS_STORAGE_KEY)
+    if (!saved) return {}
+    const parsed = JSON.parse(saved)
+    if (!parsed || typeof parsed !== 'object') return {}
+    return Object.fromEntries(
+      Object.entries(parsed).filter(([role, id]) => ROLE_IDS.has(role) && typeof id === 'string' && isValidAgentId(id))
+    ) as AgentAssignments
+  } catch {
+    return {}
+  }
+}
+
+export function saveAgentAssignments(assignments: AgentAssignments): void {
+  try {
+    localStorage.setItem(ASSIGNMENTS_STORAGE_KEY, JSON.stringify(assignments))
+  } catch (error) {
+    console.error('Failed to save agent assignments:', error)
+  }
+}
@@ -0,0 +1,45 @@
+/**
+ * API Endpoints
+ *
+ * Base URLs for the Lyzr agent and RAG APIs and for the local API server.
+ * Each can be overridden from the environment, e.g. to point the app at the
+ * mock server (`npm run mock:lyzr`):
+ *
+ * ```bash
+ * VITE_LYZR_AGENT_BASE_URL=http://localhost:8787
+ * VITE_LYZR_RAG_BASE_URL=http://localhost:8787
+ * VITE_API_URL=http://localhost:8787
+ * VITE_UPLOAD_URL=http://localhost:8787/api/upload
+ * ```
+ */
+
+// =============================================================================
+// Base URLs
+// =============================================================================
+
+const withoutTrailingSlash = (url: string) => url.replace(/\/+$/, '')
+
+export const LYZR_AGENT_BASE_URL = withoutTrailingSlash(
+  import.meta.env.VITE_LYZR_AGENT_BASE_URL || 'https://agent-prod.studio.lyzr.ai'
+)
+
+export const LYZR_RAG_BASE_URL = withoutTrailingSlash(
+  import.meta.env.VITE_LYZR_RAG_BASE_URL || 'https://rag-prod.studio.lyzr.ai'
+)
+
+/** Local API server used by the agent response tester */
+export const API_BASE_URL = withoutTrailingSlash(import.meta.env.VITE_API_URL || 'http://localhost:8889')
+
+// =============================================================================
+// Endpoints
+// =============================================================================
+
+export const LYZR_CHAT_URL = `${LYZR_AGENT_BASE_URL}/v3/inference/chat/`
+export const LYZR_STREAM_URL = `${LYZR_AGENT_BASE_URL}/v3/inference/stream/`
+export const LYZR_UPLOAD_URL = `${LYZR_AGENT_BASE_URL}/v3/assets/upload`
+
+/** Prefix for RAG routes, e.g. `${LYZR_RAG_API_URL}/rag/train/{ragId}/` */
+export const LYZR_RAG_API_URL = `${LYZR_RAG_BASE_URL}/v3`
+
+/** Upload proxy used by fileUpload.ts; same-origin by default */
+export const UPLOAD_URL = import.meta.env.VITE_UPLOAD_URL || '/api/upload'
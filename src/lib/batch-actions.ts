@@ -0,0 +1,116 @@
+/**
+ * Batch Actions
+ *
+ * Selection helpers and edits applied to several tasks at once from the
+ * list views' selection mode. A batch is applied to the task list in one
+ * pass, so it lands as a single change and undoes as one command.
+ */
+
+import { setTaskStatus } from '@/lib/subtasks'
+import { advanceRecurringTask, anchorRecurrence, getSeriesDay } from '@/lib/recurrence'
+import { pruneDependencies } from '@/lib/dependencies'
+import { addDaysToKey, getDueDayKey, moveDueToDay } from '@/lib/due-time'
+import type { Task, TaskPriority, TaskStatus } from '@/types'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type BatchAction =
+  | { type: 'set_status'; status: TaskStatus }
+  | { type: 'set_priority'; priority: TaskPriority }
+  | { type: 'set_category'; category: string; projectId?: string }
+  /** Move due dates by a number of days; negative moves earlier */
+  | { type: 'shift_due'; days: number }
+  | { type: 'delete' }
+
+// =============================================================================
+// Selection
+// =============================================================================
+
+export function toggleSelection(selection: Set<string>, id: string): Set<string> {
+  const next = new Set(selection)
+  if (next.has(id)) next.delete(id)
+  else next.add(id)
+  return next
+}
+
+/**
+ * Add every task between the anchor and target (inclusive) in view order,
+ * as with shift-click in a file list. Without a visible anchor only the
+ * target is added.
+ */
+export function selectRange(
+  selection: Set<string>,
+  orderedIds: string[],
+  anchorId: string | null,
+  targetId: string
+): Set<string> {
+  const to = orderedIds.indexOf(targetId)
+  const from = anchorId ? orderedIds.indexOf(anchorId) : -1
+  const next = new Set(selection)
+  if (from === -1 || to === -1) {
+    next.add(targetId)
+    return next
+  }
+  for (const id of orderedIds.slice(Math.min(from, to), Math.max(from, to) + 1)) next.add(id)
+  return next
+}
+
+// =============================================================================
+// Applying
+// =============================================================================
+
+function applyToTask(task: Task, action: BatchAction): Task {
+  switch (action.type) {
+    case 'set_status':
+      return setTaskStatus(task, action.status)
+    case 'set_priority':
+      return { ...task, priority: action.priority }
+    case 'set_category':
+      return { ...task, category: action.category, projectId: action.projectId }
+    case 'shift_due': {
+      // Shift by calendar day so timed tasks keep their wall-clock time across DST changes
+      const moved = moveDueToDay(task, addDaysToKey(getDueDayKey(task), action.days))
+      return { ...moved, recurrence: task.recurrence && anchorRecurrence(task.recurrence, getSeriesDay(moved)) }
+    }
+    default:
+      return task
+  }
+}
+
+/**
+ * Apply an action to the selected tasks. Completing a recurring task
+ * spawns its next occurrence, and deleting tasks removes links to them.
+ */
+export function applyBatchAction(tasks: Task[], ids: Iterable<string>, action: BatchAction): Task[] {
+  const selected = new Set(ids)
+
+  if (action.type === 'delete') {
+    const deletedIds = tasks.filter(t => selected.has(t.id)).map(t => t.id)
+    return pruneDependencies(tasks.filter(t => !selected.has(t.id)), deletedIds)
+  }
+
+  return tasks.flatMap(t => (selected.has(t.id) ? advanceRecurringTask(t, applyToTask(t, action)) : [t]))
+}
+
+/**
+ * History label, e.g. "Set priority on 3 tasks"
+ */
+export function describeBatchAction(action: BatchAction, count: number): string {
+  const tasks = `${count} task${count === 1 ? '' : 's'}`
+  switch (action.type) {
+    case 'set_status':
+      return action.status === 'completed' ? `Completed ${tasks}` : `Changed status of ${tasks}`
+    case 'set_priority':
+      return `Set ${action.priority} priority on ${tasks}`
+    case 'set_category':
+      return `Moved ${tasks} to ${action.category}`
+    case 'shift_due': {
+      const days = Math.abs(action.days)
+      return `Moved ${tasks} ${days} day${days === 1 ? '' : 's'} ${action.days < 0 ? 'earlier' : 'later'}`
+    }
+    case 'delete':
+      return `Deleted ${tasks}`
+  }
+}
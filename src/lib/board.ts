@@ -0,0 +1,54 @@
+/**
+ * Board helpers
+ * Column order, keyboard moves and WIP limits for the Kanban board view
+ */
+
+import type { TaskStatus } from '@/types'
+
+const WIP_LIMITS_STORAGE_KEY = 'taskflow_wip_limits'
+
+/** Board columns, left to right */
+export const BOARD_COLUMNS: TaskStatus[] = ['not-started', 'in-progress', 'blocked', 'completed']
+
+/** Max cards per column; missing or null means unlimited */
+export type WipLimits = Partial<Record<TaskStatus, number | null>>
+
+export type WipState = 'ok' | 'at-limit' | 'over-limit'
+
+export const DEFAULT_WIP_LIMITS: WipLimits = {
+  'in-progress': 3,
+}
+
+export function loadWipLimits(): WipLimits {
+  try {
+    const saved = localStorage.getItem(WIP_LIMITS_STORAGE_KEY)
+    if (!saved) return DEFAULT_WIP_LIMITS
+    const parsed = JSON.parse(saved)
+    return parsed && typeof parsed === 'object' ? parsed : DEFAULT_WIP_LIMITS
+  } catch {
+    return DEFAULT_WIP_LIMITS
+  }
+}
+
+export function saveWipLimits(limits: WipLimits): void {
+  try {
+    localStorage.setItem(WIP_LIMITS_STORAGE_KEY, JSON.stringify(limits))
+  } catch (error) {
+    console.error('Failed to save WIP limits:', error)
+  }
+}
+
+export function getWipState(count: number, limit?: number | null): WipState {
+  if (!limit) return 'ok'
+  if (count > limit) return 'over-limit'
+  if (count === limit) return 'at-limit'
+  return 'ok'
+}
+
+/**
+ * Column to the left (-1) or right (+1) of a status, or null at the edges
+ */
+export function getAdjacentColumn(status: TaskStatus, direction: -1 | 1): TaskStatus | null {
+  const index = BOARD_COLUMNS.indexOf(status) + direction
+  return index >= 0 && index < BOARD_COLUMNS.length ? BOARD_COLUMNS[index] : null
+}
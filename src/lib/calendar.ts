@@ -0,0 +1,61 @@
+/**
+ * Calendar helpers
+ * Visible date ranges and navigation for the week/month calendar view
+ */
+
+import {
+  addMonths,
+  addWeeks,
+  eachDayOfInterval,
+  endOfMonth,
+  endOfWeek,
+  startOfMonth,
+  startOfWeek,
+} from 'date-fns'
+
+export type CalendarMode = 'week' | 'month'
+
+export interface CalendarRange {
+  /** First visible day (midnight) */
+  start: Date
+  /** Midnight after the last visible day */
+  end: Date
+  days: Date[]
+}
+
+/**
+ * Days shown for the period containing `cursor`. Month mode pads to whole
+ * weeks so the grid always starts on Sunday.
+ */
+export function getCalendarRange(cursor: Date, mode: CalendarMode): CalendarRange {
+  const first = mode === 'week' ? startOfWeek(cursor) : startOfWeek(startOfMonth(cursor))
+  const last = mode === 'week' ? endOfWeek(cursor) : endOfWeek(endOfMonth(cursor))
+  const days = eachDayOfInterval({ start: first, end: last })
+
+  const end = new Date(days[days.length - 1])
+  end.setDate(end.getDate() + 1)
+
+  return { start: days[0], end, days }
+}
+
+export function shiftCalendar(cursor: Date, mode: CalendarMode, direction: -1 | 1): Date {
+  return mode === 'week' ? addWeeks(cursor, direction) : addMonths(cursor, direction)
+}
+
+export function getCalendarTitle(cursor: Date, mode: CalendarMode): string {
+  if (mode === 'month') {
+    return cursor.toLocaleDateString('en-US', { month: 'long', year: 'numeric' })
+  }
+  const { days } = getCalendarRange(cursor, 'week')
+  const format = (d: Date) => d.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })
+  return `${format(days[0])} – ${format(days[6])}, ${days[6].getFullYear()}`
+}
+
+/**
+ * Move a date to another calendar day, keeping its time of day
+ */
+export function moveToDay(date: Date, day: Date): Date {
+  const moved = new Date(day)
+  moved.setHours(date.getHours(), date.getMinutes(), date.getSeconds(), date.getMilliseconds())
+  return moved
+}
@@ -0,0 +1,293 @@
+/**
+ * Categories
+ * User-defined categories, their colors and the projects nested under them
+ *
+ * Tasks reference a category by name and a project by ID, so renaming a
+ * category rewrites the tasks that use it (see `renameCategoryInTasks`)
+ * while renaming a project needs no migration. The stored list's order is
+ * the display order everywhere categories are listed.
+ */
+
+import { generateId } from '@/lib/utils'
+import type { Task } from '@/types'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type CategoryColor = 'blue' | 'purple' | 'green' | 'orange' | 'pink' | 'teal' | 'red' | 'gray'
+
+export interface Project {
+  id: string
+  name: string
+  archived?: boolean
+}
+
+export interface Category {
+  id: string
+  name: string
+  color: CategoryColor
+  /** Hidden from pickers, lists and stats; tasks keep the category */
+  archived?: boolean
+  projects: Project[]
+}
+
+export interface CategoryResult {
+  success: boolean
+  categories: Category[]
+  error?: string
+}
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+const CATEGORIES_STORAGE_KEY = 'taskflow_categories'
+
+/** Badge classes per color; spelled out so Tailwind keeps them */
+export const CATEGORY_COLOR_CLASSES: Record<CategoryColor, string> = {
+  blue: 'bg-blue-500/10 text-blue-500 border-blue-500/20',
+  purple: 'bg-purple-500/10 text-purple-500 border-purple-500/20',
+  green: 'bg-green-500/10 text-green-500 border-green-500/20',
+  orange: 'bg-orange-500/10 text-orange-500 border-orange-500/20',
+  pink: 'bg-pink-500/10 text-pink-500 border-pink-500/20',
+  teal: 'bg-teal-500/10 text-teal-500 border-teal-500/20',
+  red: 'bg-red-500/10 text-red-500 border-red-500/20',
+  gray: 'bg-gray-500/10 text-gray-500 border-gray-500/20',
+}
+
+/** Solid swatches for color pickers */
+export const CATEGORY_SWATCH_CLASSES: Record<CategoryColor, string> = {
+  blue: 'bg-blue-500',
+  purple: 'bg-purple-500',
+  green: 'bg-green-500',
+  orange: 'bg-orange-500',
+  pink: 'bg-pink-500',
+  teal: 'bg-teal-500',
+  red: 'bg-red-500',
+  gray: 'bg-gray-500',
+}
+
+export const CATEGORY_COLORS = Object.keys(CATEGORY_COLOR_CLASSES) as CategoryColor[]
+
+export const DEFAULT_CATEGORIES: Category[] = [
+  { id: 'work', name: 'Work', color: 'blue', projects: [] },
+  { id: 'personal', name: 'Personal', color: 'purple', projects: [] },
+  { id: 'shopping', name: 'Shopping', color: 'green', projects: [] },
+]
+
+// =============================================================================
+// Lookup
+// =============================================================================
+
+const sameName = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase()
+
+export function findCategory(categories: Category[], name: string): Category | undefined {
+  return categories.find(c => c.name === name) || categories.find(c => sameName(c.name, name))
+}
+
+/** Task category names match case-insensitively, e.g. "#work" from quick add */
+export function belongsToCategory(task: Task, category: Category): boolean {
+  return sameName(task.category, category.name)
+}
+
+export function getActiveCategories(categories: Category[]): Category[] {
+  return categories.filter(c => !c.archived)
+}
+
+export function getCategoryColor(categories: Category[], name: string): string {
+  const category = findCategory(categories, name)
+  return CATEGORY_COLOR_CLASSES[category?.color || 'gray']
+}
+
+export function getActiveProjects(category?: Category): Project[] {
+  return (category?.projects || []).filter(p => !p.archived)
+}
+
+export function findProject(categories: Category[], projectId?: string): Project | undefined {
+  if (!projectId) return undefined
+  for (const category of categories) {
+    const project = category.projects.find(p => p.id === projectId)
+    if (project) return project
+  }
+  return undefined
+}
+
+/**
+ * Category for new tasks when none is given, e.g. by an agent action
+ */
+export function getDefaultCategoryName(categories: Category[]): string {
+  return getActiveCategories(categories)[0]?.name || categories[0]?.name || DEFAULT_CATEGORIES[0].name
+}
+
+// =============================================================================
+// Editing
+// =============================================================================
+
+function validateName(categories: Category[], name: string, exceptId?: string): string | undefined {
+  if (!name.trim()) return 'Name cannot be empty'
+  if (categories.some(c => c.id !== exceptId && sameName(c.name, name))) {
+    return `A category named "${name.trim()}" already exists`
+  }
+  return undefined
+}
+
+function updateCategory(categories: Category[], id: string, update: (c: Category) => Category): CategoryResult {
+  if (!categories.some(c => c.id === id)) {
+    return { success: false, categories, error: 'Category not found' }
+  }
+  return { success: true, categories: categories.map(c => (c.id === id ? update(c) : c)) }
+}
+
+export function addCategory(categories: Category[], name: string, color: CategoryColor = 'gray'): CategoryResult {
+  const error = validateName(categories, name)
+  if (error) return { success: false, categories, error }
+  return {
+    success: true,
+    categories: [...categories, { id: generateId(), name: name.trim(), color, projects: [] }],
+  }
+}
+
+/**
+ * Rename a category. Tasks still carry the old name; migrate them with
+ * `renameCategoryInTasks`.
+ */
+export function renameCategory(categories: Category[], id: string, name: string): CategoryResult {
+  const error = validateName(categories, name, id)
+  if (error) return { success: false, categories, error }
+  return updateCategory(categories, id, c => ({ ...c, name: name.trim() }))
+}
+
+export function renameCategoryInTasks(tasks: Task[], from: string, to: string): Task[] {
+  if (from === to) return tasks
+  return tasks.map(t => (sameName(t.category, from) ? { ...t, category: to } : t))
+}
+
+export function setCategoryColor(categories: Category[], id: string, color: CategoryColor): CategoryResult {
+  return updateCategory(categories, id, c => ({ ...c, color }))
+}
+
+export function setCategoryArchived(categories: Category[], id: string, archived: boolean): CategoryResult {
+  return updateCategory(categories, id, c => ({ ...c, archived }))
+}
+
+/**
+ * Move a category one place up (-1) or down (1) in the display order
+ */
+export function moveCategory(categories: Category[], id: string, direction: -1 | 1): CategoryResult {
+  const from = categories.findIndex(c => c.id === id)
+  if (from === -1) return { success: false, categories, error: 'Category not found' }
+
+  const to = from + direction
+  if (to < 0 || to >= categories.length) return { success: true, categories }
+
+  const next = [...categories]
+  next.splice(to, 0, ...next.splice(from, 1))
+  return { success: true, categories: next }
+}
+
+/**
+ * Append categories for names used by tasks but missing from the list
+ * (agent-created or imported tasks), so every task shows up in lists and
+ * stats. Returns the same array when nothing is missing.
+ */
+export function withTaskCategories(categories: Category[], tasks: Task[]): Category[] {
+  const missing: string[] = []
+  for (const task of tasks) {
+    if (!task.category || findCategory(categories, task.category)) continue
+    if (!missing.some(name => sameName(name, task.category))) missing.push(task.category)
+  }
+  if (missing.length === 0) return categories
+  return [...categories, ...missing.map((name): Category => ({ id: generateId(), name, color: 'gray', projects: [] }))]
+}
+
+// =============================================================================
+// Projects
+// =============================================================================
+
+function validateProjectName(category: Category, name: string, exceptId?: string): string | undefined {
+  if (!name.trim()) return 'Name cannot be empty'
+  if (category.projects.some(p => p.id !== exceptId && sameName(p.name, name))) {
+    return `${category.name} already has a project named "${name.trim()}"`
+  }
+  return undefined
+}
+
+function updateProjects(
+  categories: Category[],
+  categoryId: string,
+  update: (category: Category) => Project[] | string
+): CategoryResult {
+  const category = categories.find(c => c.id === categoryId)
+  if (!category) return { success: false, categories, error: 'Category not found' }
+
+  const projects = update(category)
+  if (typeof projects === 'string') return { success: false, categories, error: projects }
+  return { success: true, categories: categories.map(c => (c.id === categoryId ? { ...c, projects } : c)) }
+}
+
+export function addProject(categories: Category[], categoryId: string, name: string): CategoryResult {
+  return updateProjects(categories, categoryId, category =>
+    validateProjectName(category, name) || [...category.projects, { id: generateId(), name: name.trim() }]
+  )
+}
+
+export function renameProject(categories: Category[], categoryId: string, projectId: string, name: string): CategoryResult {
+  return updateProjects(categories, categoryId, category => {
+    if (!category.projects.some(p => p.id === projectId)) return 'Project not found'
+    return validateProjectName(category, name, projectId) ||
+      category.projects.map(p => (p.id === projectId ? { ...p, name: name.trim() } : p))
+  })
+}
+
+export function setProjectArchived(
+  categories: Category[],
+  categoryId: string,
+  projectId: string,
+  archived: boolean
+): CategoryResult {
+  return updateProjects(categories, categoryId, category => {
+    if (!category.projects.some(p => p.id === projectId)) return 'Project not found'
+    return category.projects.map(p => (p.id === projectId ? { ...p, archived } : p))
+  })
+}
+
+// =============================================================================
+// Persistence
+// =============================================================================
+
+function reviveCategory(raw: any): Category | null {
+  if (!raw || typeof raw !== 'object' || typeof raw.name !== 'string' || !raw.name.trim()) return null
+  return {
+    id: raw.id ? String(raw.id) : generateId(),
+    name: raw.name,
+    color: CATEGORY_COLORS.includes(raw.color) ? raw.color : 'gray',
+    archived: Boolean(raw.archived),
+    projects: Array.isArray(raw.projects)
+      ? raw.projects
+          .filter((p: any) => p && typeof p.name === 'string' && p.id)
+          .map((p: any): Project => ({ id: String(p.id), name: p.name, archived: Boolean(p.archived) }))
+      : [],
+  }
+}
+
+export function loadCategories(): Category[] {
+  try {
+    const saved = localStorage.getItem(CATEGORIES_STORAGE_KEY)
+    if (!saved) return DEFAULT_CATEGORIES
+    const parsed = JSON.parse(saved)
+    if (!Array.isArray(parsed)) return DEFAULT_CATEGORIES
+    const categories = parsed.map(reviveCategory).filter((c): c is Category => c !== null)
+    return categories.length > 0 ? categories : DEFAULT_CATEGORIES
+  } catch {
+    return DEFAULT_CATEGORIES
+  }
+}
+
+export function saveCategories(categories: Category[]): void {
+  try {
+    localStorage.setItem(CATEGORIES_STORAGE_KEY, JSON.stringify(categories))
+  } catch (error) {
+    console.error('Failed to save categories:', error)
+  }
+}
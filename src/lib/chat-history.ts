@@ -0,0 +1,167 @@
+/**
+ * Chat History
+ *
+ * Persists Task Assistant conversations in localStorage as named threads.
+ * Each thread keeps a fixed `session_id` so the agent's memory carries over
+ * when a conversation is resumed, and every thread is sent with the same
+ * per-install `user_id`.
+ */
+
+import { generateId } from '@/lib/utils'
+import type { ActionProposal } from '@/lib/agent-actions'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface ChatMessage {
+  id: string
+  type: 'user' | 'assistant'
+  content: string
+  tips?: string[]
+  prioritySuggestions?: string[]
+  relatedTopics?: string[]
+  proposals?: ActionProposal[]
+  timestamp: Date
+}
+
+export interface ChatThread {
+  id: string
+  title: string
+  /** Sent as session_id on every message in this thread */
+  sessionId: string
+  messages: ChatMessage[]
+  createdAt: Date
+  updatedAt: Date
+}
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+const USER_ID_STORAGE_KEY = 'taskflow_user_id'
+const THREADS_STORAGE_KEY = 'taskflow_chat_threads'
+const ACTIVE_THREAD_STORAGE_KEY = 'taskflow_chat_active_thread'
+
+/** Oldest messages are dropped past this to keep localStorage bounded */
+export const MAX_MESSAGES_PER_THREAD = 200
+const TITLE_MAX_LENGTH = 40
+
+// =============================================================================
+// User ID
+// =============================================================================
+
+/**
+ * Stable user ID for this install, created on first use
+ */
+export function getInstallUserId(): string {
+  try {
+    const saved = localStorage.getItem(USER_ID_STORAGE_KEY)
+    if (saved) return saved
+    const id = `user-${generateId()}`
+    localStorage.setItem(USER_ID_STORAGE_KEY, id)
+    return id
+  } catch {
+    return `user-${generateId()}`
+  }
+}
+
+// =============================================================================
+// Threads
+// =============================================================================
+
+export function createChatThread(agentId: string, title = 'New chat'): ChatThread {
+  const now = new Date()
+  return {
+    id: generateId(),
+    title,
+    sessionId: `${agentId}-${generateId()}`,
+    messages: [],
+    createdAt: now,
+    updatedAt: now,
+  }
+}
+
+/**
+ * Default thread title from the first user message
+ */
+export function deriveThreadTitle(text: string): string {
+  const title = text.replace(/\s+/g, ' ').trim()
+  if (!title) return 'New chat'
+  return title.length > TITLE_MAX_LENGTH ? `${title.slice(0, TITLE_MAX_LENGTH - 1).trimEnd()}…` : title
+}
+
+function reviveMessage(raw: any): ChatMessage | null {
+  if (!raw || typeof raw !== 'object' || typeof raw.content !== 'string') return null
+
+  return {
+    ...raw,
+    timestamp: new Date(raw.timestamp),
+    proposals: Array.isArray(raw.proposals)
+      ? raw.proposals.map((proposal: any) => ({
+          ...proposal,
+          applied: proposal.applied?.commandId ? { commandId: String(proposal.applied.commandId) } : undefined,
+        }))
+      : undefined,
+  }
+}
+
+function reviveThread(raw: any): ChatThread | null {
+  if (!raw || typeof raw !== 'object' || !raw.id || !raw.sessionId) return null
+
+  return {
+    id: String(raw.id),
+    title: typeof raw.title === 'string' ? raw.title : 'New chat',
+    sessionId: String(raw.sessionId),
+    messages: Array.isArray(raw.messages) ? raw.messages.map(reviveMessage).filter(Boolean) : [],
+    createdAt: new Date(raw.createdAt),
+    updatedAt: new Date(raw.updatedAt),
+  }
+}
+
+/**
+ * Saved threads, most recently updated first
+ */
+export function loadChatThreads(): ChatThread[] {
+  try {
+    const saved = localStorage.getItem(THREADS_STORAGE_KEY)
+    if (!saved) return []
+    const parsed = JSON.parse(saved)
+    if (!Array.isArray(parsed)) return []
+    return parsed
+      .map(reviveThread)
+      .filter(Boolean)
+      .sort((a: ChatThread, b: ChatThread) => b.updatedAt.getTime() - a.updatedAt.getTime())
+  } catch {
+    return []
+  }
+}
+
+export function saveChatThreads(threads: ChatThread[]): void {
+  try {
+    const trimmed = threads.map(thread => ({
+      ...thread,
+      messages: thread.messages.slice(-MAX_MESSAGES_PER_THREAD),
+    }))
+    localStorage.setItem(THREADS_STORAGE_KEY, JSON.stringify(trimmed))
+  } catch (error) {
+    console.error('Failed to save chat history:', error)
+  }
+}
+
+export function loadActiveThreadId(): string | null {
+  try {
+    return localStorage.getItem(ACTIVE_THREAD_STORAGE_KEY)
+  } catch {
+    return null
+  }
+}
+
+export function saveActiveThreadId(id: string | null): void {
+  try {
+    if (id) localStorage.setItem(ACTIVE_THREAD_STORAGE_KEY, id)
+    else localStorage.removeItem(ACTIVE_THREAD_STORAGE_KEY)
+  } catch (error) {
+    console.error('Failed to save active chat thread:', error)
+  }
+}
@@ -0,0 +1,131 @@
+/**
+ * Task Dependencies
+ * "Depends on" links between tasks, derived blocked status and cycle detection
+ *
+ * Blocked is never written to a task because of its dependencies; it is
+ * derived at read time, so a task returns to its own status as soon as the
+ * last blocking task is completed.
+ */
+
+import type { Task, TaskStatus } from '@/types'
+
+export type TaskIndex = Map<string, Task>
+
+export interface DependencyResult {
+  success: boolean
+  tasks: Task[]
+  error?: string
+}
+
+export function indexTasks(tasks: Task[]): TaskIndex {
+  return new Map(tasks.map(t => [t.id, t]))
+}
+
+/**
+ * Resolve a task's dependency IDs, skipping ones whose task no longer exists
+ */
+export function getDependencies(task: Task, index: TaskIndex): Task[] {
+  return (task.dependsOn || [])
+    .map(id => index.get(id))
+    .filter((t): t is Task => Boolean(t))
+}
+
+export function getBlockingTasks(task: Task, index: TaskIndex): Task[] {
+  return getDependencies(task, index).filter(t => !t.completed)
+}
+
+export function isBlockedByDependencies(task: Task, index: TaskIndex): boolean {
+  return !task.completed && getBlockingTasks(task, index).length > 0
+}
+
+/**
+ * Status to display: blocked while any dependency is incomplete, otherwise
+ * the task's own status
+ */
+export function getEffectiveStatus(task: Task, index: TaskIndex): TaskStatus {
+  return isBlockedByDependencies(task, index) ? 'blocked' : task.status
+}
+
+/**
+ * Find the dependency path that would close a cycle if `taskId` started
+ * depending on `dependencyId`. Returns the task IDs from dependencyId back
+ * to taskId, or null when the link is safe.
+ */
+export function findDependencyCycle(
+  tasks: Task[],
+  taskId: string,
+  dependencyId: string
+): string[] | null {
+  if (taskId === dependencyId) return [taskId]
+
+  const index = indexTasks(tasks)
+  const visited = new Set<string>()
+
+  const visit = (id: string, path: string[]): string[] | null => {
+    if (id === taskId) return path
+    if (visited.has(id)) return null
+    visited.add(id)
+
+    for (const next of index.get(id)?.dependsOn || []) {
+      const found = visit(next, [...path, next])
+      if (found) return found
+    }
+    return null
+  }
+
+  return visit(dependencyId, [dependencyId])
+}
+
+/**
+ * Add a "depends on" link, rejecting unknown tasks and cycles
+ */
+export function addDependency(tasks: Task[], taskId: string, dependencyId: string): DependencyResult {
+  const index = indexTasks(tasks)
+  const task = index.get(taskId)
+  const dependency = index.get(dependencyId)
+
+  if (!task || !dependency) {
+    return { success: false, tasks, error: 'Task not found' }
+  }
+
+  if (task.dependsOn?.includes(dependencyId)) {
+    return { success: true, tasks }
+  }
+
+  const cycle = findDependencyCycle(tasks, taskId, dependencyId)
+  if (cycle) {
+    const chain = [task.title, ...cycle.map(id => index.get(id)?.title || id)].join(' → ')
+    return {
+      success: false,
+      tasks,
+      error: cycle.length === 1
+        ? 'A task cannot depend on itself'
+        : `That would create a cycle: ${chain}`,
+    }
+  }
+
+  return {
+    success: true,
+    tasks: tasks.map(t =>
+      t.id === taskId ? { ...t, dependsOn: [...(t.dependsOn || []), dependencyId] } : t
+    ),
+  }
+}
+
+export function removeDependency(tasks: Task[], taskId: string, dependencyId: string): Task[] {
+  return tasks.map(t =>
+    t.id === taskId ? { ...t, dependsOn: (t.dependsOn || []).filter(id => id !== dependencyId) } : t
+  )
+}
+
+/**
+ * Drop links pointing at deleted tasks so they don't block forever
+ */
+export function pruneDependencies(tasks: Task[], deletedIds: string[]): Task[] {
+  const deleted = new Set(deletedIds)
+  return tasks.map(t =>
+    t.dependsOn?.some(id => deleted.has(id))
+      ? { ...t, dependsOn: t.dependsOn.filter(id => !deleted.has(id)) }
+      : t
+  )
+}
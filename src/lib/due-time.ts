@@ -0,0 +1,344 @@
+/**
+ * Due Times
+ * Time-of-day due times, durations and the user's time zone
+ *
+ * ## Storage
+ * `dueDate` stays the instant a task is due, so sorting and repository
+ * range queries keep working, but it is derived from wall-clock fields:
+ * - All-day tasks (no `dueTime`) are due at midnight of their calendar day
+ *   in `timeZone`. They float: when the user's zone changes they are
+ *   re-anchored so they stay on the same calendar day.
+ * - Timed tasks keep `dueTime` ("HH:mm") and the `timeZone` it was set in.
+ *   `dueDate` is recomputed from those, so "9am" stays 9am in that zone
+ *   across DST changes and is shown converted after travel.
+ *
+ * ## Zones
+ * The active zone is the one chosen in settings, or the device zone. Day
+ * bucketing (Today, Upcoming, overdue) uses day boundaries in that zone
+ * rather than the browser's local midnight.
+ */
+
+import type { Task } from '@/types'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+/** Calendar day as "yyyy-mm-dd" */
+export type DayKey = string
+
+export interface DayBounds {
+  /** Start of today in the zone */
+  start: Date
+  /** Start of tomorrow in the zone */
+  end: Date
+}
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+const TIME_ZONE_STORAGE_KEY = 'taskflow_time_zone'
+
+/** Offered in the quick-add duration picker, in minutes */
+export const DURATION_OPTIONS = [15, 30, 45, 60, 90, 120, 180, 240]
+
+const TIME_PATTERN = /^([01]\d|2[0-3]):([0-5]\d)$/
+
+// Used where Intl.supportedValuesOf is missing
+const FALLBACK_TIME_ZONES = [
+  'UTC',
+  'America/Los_Angeles',
+  'America/Denver',
+  'America/Chicago',
+  'America/New_York',
+  'America/Sao_Paulo',
+  'Europe/London',
+  'Europe/Berlin',
+  'Europe/Athens',
+  'Asia/Dubai',
+  'Asia/Kolkata',
+  'Asia/Singapore',
+  'Asia/Tokyo',
+  'Australia/Sydney',
+  'Pacific/Auckland',
+]
+
+// =============================================================================
+// Zones
+// =============================================================================
+
+const formatters = new Map<string, Intl.DateTimeFormat>()
+
+function getPartsFormatter(zone: string): Intl.DateTimeFormat {
+  let formatter = formatters.get(zone)
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone: zone,
+      hourCycle: 'h23',
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+    })
+    formatters.set(zone, formatter)
+  }
+  return formatter
+}
+
+export function isValidTimeZone(zone: unknown): zone is string {
+  if (typeof zone !== 'string' || !zone) return false
+  try {
+    getPartsFormatter(zone)
+    return true
+  } catch {
+    return false
+  }
+}
+
+let systemTimeZone: string | null = null
+
+export function getSystemTimeZone(): string {
+  if (!systemTimeZone) systemTimeZone = Intl.DateTimeFormat().resolvedOptions().timeZone || 'UTC'
+  return systemTimeZone
+}
+
+/**
+ * Re-read the device zone (e.g. when the window regains focus after
+ * travel). Returns true when it changed.
+ */
+export function refreshSystemTimeZone(): boolean {
+  const previous = systemTimeZone
+  systemTimeZone = null
+  return getSystemTimeZone() !== previous
+}
+
+export function getAvailableTimeZones(): string[] {
+  const supported = (Intl as { supportedValuesOf?: (key: string) => string[] }).supportedValuesOf?.('timeZone')
+  const zones = supported?.length ? supported : FALLBACK_TIME_ZONES
+  return zones.includes('UTC') ? zones : ['UTC', ...zones]
+}
+
+/** Wall-clock fields of an instant in a zone */
+function getZonedFields(date: Date, zone: string) {
+  const fields: Record<string, number> = {}
+  for (const part of getPartsFormatter(zone).formatToParts(date)) {
+    if (part.type !== 'literal') fields[part.type] = Number(part.value)
+  }
+  return fields as { year: number; month: number; day: number; hour: number; minute: number; second: number }
+}
+
+/** Milliseconds the zone's wall clock is ahead of UTC at an instant */
+function getZoneOffset(time: number, zone: string): number {
+  const f = getZonedFields(new Date(time), zone)
+  return Date.UTC(f.year, f.month - 1, f.day, f.hour, f.minute, f.second) - (time - (((time % 1000) + 1000) % 1000))
+}
+
+const pad = (value: number) => String(value).padStart(2, '0')
+
+export function getDayKeyInZone(date: Date, zone: string = getActiveTimeZone()): DayKey {
+  const f = getZonedFields(date, zone)
+  return `${f.year}-${pad(f.month)}-${pad(f.day)}`
+}
+
+/** Calendar day of a date picked in the browser (date pickers use local time) */
+export function getLocalDayKey(date: Date): DayKey {
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`
+}
+
+function dayKeyToUTC(key: DayKey): number {
+  const [year, month, day] = key.split('-').map(Number)
+  return Date.UTC(year, month - 1, day)
+}
+
+export function addDaysToKey(key: DayKey, days: number): DayKey {
+  const date = new Date(dayKeyToUTC(key) + days * 86_400_000)
+  return `${date.getUTCFullYear()}-${pad(date.getUTCMonth() + 1)}-${pad(date.getUTCDate())}`
+}
+
+/**
+ * The instant a wall-clock time on a day occurs in a zone. Times skipped
+ * by a DST change resolve to the same offset as just before the change.
+ */
+export function zonedTimeToDate(key: DayKey, time: string, zone: string): Date {
+  const [hours, minutes] = time.split(':').map(Number)
+  const wallClock = dayKeyToUTC(key) + (hours * 60 + minutes) * 60_000
+  const guess = wallClock - getZoneOffset(wallClock, zone)
+  const corrected = wallClock - getZoneOffset(guess, zone)
+  return new Date(corrected)
+}
+
+export function startOfDayInZone(date: Date, zone: string = getActiveTimeZone()): Date {
+  return zonedTimeToDate(getDayKeyInZone(date, zone), '00:00', zone)
+}
+
+export function getDayBounds(now: Date = new Date(), zone: string = getActiveTimeZone()): DayBounds {
+  const today = getDayKeyInZone(now, zone)
+  return {
+    start: zonedTimeToDate(today, '00:00', zone),
+    end: zonedTimeToDate(addDaysToKey(today, 1), '00:00', zone),
+  }
+}
+
+/** Calendar days from `earlier` to `later` in a zone; negative if `later` is earlier */
+export function differenceInZonedDays(later: Date, earlier: Date, zone: string = getActiveTimeZone()): number {
+  return Math.round((dayKeyToUTC(getDayKeyInZone(later, zone)) - dayKeyToUTC(getDayKeyInZone(earlier, zone))) / 86_400_000)
+}
+
+// =============================================================================
+// Active Zone
+// =============================================================================
+
+// Zone chosen in settings; null follows the device, undefined until loaded
+let chosenTimeZone: string | null | undefined
+
+export function getActiveTimeZone(): string {
+  if (chosenTimeZone === undefined) chosenTimeZone = loadTimeZoneSetting()
+  return chosenTimeZone || getSystemTimeZone()
+}
+
+export function loadTimeZoneSetting(): string | null {
+  try {
+    const saved = localStorage.getItem(TIME_ZONE_STORAGE_KEY)
+    return saved && isValidTimeZone(saved) ? saved : null
+  } catch {
+    return null
+  }
+}
+
+/** Choose a zone, or null to follow the device */
+export function saveTimeZoneSetting(zone: string | null): void {
+  chosenTimeZone = zone && isValidTimeZone(zone) ? zone : null
+  try {
+    if (chosenTimeZone) localStorage.setItem(TIME_ZONE_STORAGE_KEY, chosenTimeZone)
+    else localStorage.removeItem(TIME_ZONE_STORAGE_KEY)
+  } catch (error) {
+    console.error('Failed to save time zone:', error)
+  }
+}
+
+// =============================================================================
+// Task Due Dates
+// =============================================================================
+
+/** "9:30" or "09:30" to "09:30"; undefined when not a valid time */
+export function parseTimeOfDay(value: unknown): string | undefined {
+  if (typeof value !== 'string') return undefined
+  const padded = value.trim().replace(/^(\d):/, '0$1:')
+  return TIME_PATTERN.test(padded) ? padded : undefined
+}
+
+/** Wall-clock time of a date picked in the browser, e.g. a parsed "3pm" */
+export function getLocalTimeOfDay(date: Date): string {
+  return `${pad(date.getHours())}:${pad(date.getMinutes())}`
+}
+
+export function isTimedTask(task: Pick<Task, 'dueTime'>): boolean {
+  return !!task.dueTime
+}
+
+/**
+ * Due fields for a calendar day, optionally at a time. Without a time the
+ * task is all-day.
+ */
+export function buildDue(
+  key: DayKey,
+  time?: string,
+  zone: string = getActiveTimeZone()
+): Pick<Task, 'dueDate' | 'dueTime' | 'timeZone'> {
+  const dueTime = parseTimeOfDay(time)
+  return { dueDate: zonedTimeToDate(key, dueTime || '00:00', zone), dueTime, timeZone: zone }
+}
+
+/**
+ * Calendar day a task is due on as seen in `zone`. All-day tasks keep
+ * their own day; timed tasks are converted.
+ */
+export function getDueDayKey(task: Task, zone: string = getActiveTimeZone()): DayKey {
+  if (!task.dueTime && task.timeZone && isValidTimeZone(task.timeZone)) return getDayKeyInZone(task.dueDate, task.timeZone)
+  return getDayKeyInZone(task.dueDate, zone)
+}
+
+/**
+ * Move a task to another calendar day, keeping its time and zone (all-day
+ * tasks move to `zone`)
+ */
+export function moveDueToDay(task: Task, key: DayKey, zone: string = getActiveTimeZone()): Task {
+  const timeZone = task.dueTime && isValidTimeZone(task.timeZone) ? task.timeZone : zone
+  return { ...task, ...buildDue(key, task.dueTime, timeZone) }
+}
+
+/**
+ * Bring a task's `dueDate` in line with its wall-clock fields: timed tasks
+ * are recomputed in their own zone (fixing DST drift), all-day tasks are
+ * anchored at midnight in `zone`. Tasks saved before due times existed
+ * are all-day on the device's calendar day. Returns the same task when
+ * nothing changed.
+ */
+export function alignDueDate(task: Task, zone: string = getActiveTimeZone()): Task {
+  const dueTime = parseTimeOfDay(task.dueTime)
+  const ownZone = isValidTimeZone(task.timeZone) ? task.timeZone : undefined
+
+  if (dueTime) {
+    const timeZone = ownZone || zone
+    const dueDate = zonedTimeToDate(getDayKeyInZone(task.dueDate, timeZone), dueTime, timeZone)
+    if (dueDate.getTime() === task.dueDate.getTime() && timeZone === task.timeZone && dueTime === task.dueTime) return task
+    return { ...task, dueDate, dueTime, timeZone }
+  }
+
+  const key = getDayKeyInZone(task.dueDate, ownZone || getSystemTimeZone())
+  const dueDate = zonedTimeToDate(key, '00:00', zone)
+  if (dueDate.getTime() === task.dueDate.getTime() && zone === task.timeZone && task.dueTime === undefined) return task
+  return { ...task, dueDate, dueTime: undefined, timeZone: zone }
+}
+
+/** Align every task; returns the same array when none changed */
+export function alignDueDates(tasks: Task[], zone: string = getActiveTimeZone()): Task[] {
+  let changed = false
+  const aligned = tasks.map(task => {
+    const next = alignDueDate(task, zone)
+    if (next !== task) changed = true
+    return next
+  })
+  return changed ? aligned : tasks
+}
+
+// =============================================================================
+// Formatting
+// =============================================================================
+
+/** "09:30" to "9:30 AM" */
+export function formatTimeOfDay(time: string): string {
+  const [hours, minutes] = time.split(':').map(Number)
+  return `${hours % 12 || 12}:${pad(minutes)} ${hours < 12 ? 'AM' : 'PM'}`
+}
+
+function getZoneName(date: Date, zone: string): string {
+  const part = new Intl.DateTimeFormat('en-US', { timeZone: zone, timeZoneName: 'short' })
+    .formatToParts(date)
+    .find(p => p.type === 'timeZoneName')
+  return part?.value || zone
+}
+
+/**
+ * Due time as shown in `zone`, with the original time when it was set in
+ * another zone, e.g. "3:00 AM (9:00 AM GMT+2)". Null for all-day tasks.
+ */
+export function formatDueTime(task: Task, zone: string = getActiveTimeZone()): string | null {
+  if (!task.dueTime) return null
+  const f = getZonedFields(task.dueDate, zone)
+  const local = formatTimeOfDay(`${pad(f.hour)}:${pad(f.minute)}`)
+  if (!task.timeZone || task.timeZone === zone || !isValidTimeZone(task.timeZone)) return local
+  const original = `${formatTimeOfDay(task.dueTime)} ${getZoneName(task.dueDate, task.timeZone)}`
+  return local === formatTimeOfDay(task.dueTime) ? local : `${local} (${original})`
+}
+
+/** 90 to "1h 30m" */
+export function formatDuration(minutes: number): string {
+  const hours = Math.floor(minutes / 60)
+  const rest = minutes % 60
+  if (hours === 0) return `${rest}m`
+  return rest ? `${hours}h ${rest}m` : `${hours}h`
+}
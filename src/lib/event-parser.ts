@@ -209,7 +209,13 @@ export function getEventMessage(event: SSEEvent): string {
     case 'agent_created':
       return `Agent created: ${(event as any).agent_name || (event as any).name || 'Unknown'}`
     case 'workflow_update':
-      return 'Workflow updated'
+      return (event as any).node_id
+        ? `Workflow node ${(event as any).node_id}: ${(event as any).node_status}`
+        : 'Workflow updated'
+    case 'workflow_completed':
+      return (event as any).success
+        ? 'Workflow completed'
+        : `Workflow failed: ${(event as any).error || 'Unknown error'}`
     case 'chat_completed':
       return 'Task completed'
     case 'chat_failed':
@@ -0,0 +1,106 @@
+import { describe, expect, it } from 'vitest'
+import { filterTasksByQuery, getQuerySuggestions, parseFilterQuery, renameQueryValue } from '@/lib/filter-query'
+import { addDaysToKey, buildDue, getDayKeyInZone } from '@/lib/due-time'
+import type { Task } from '@/types'
+
+const now = new Date(2026, 9, 18, 10)
+const today = getDayKeyInZone(now)
+
+function makeTask(id: string, fields: Partial<Task> & { dueIn?: number } = {}): Task {
+  const { dueIn = 0, ...rest } = fields
+  return {
+    id,
+    title: id,
+    completed: false,
+    priority: 'medium',
+    category: 'Work',
+    status: 'not-started',
+    createdAt: now,
+    ...buildDue(addDaysToKey(today, dueIn)),
+    ...rest,
+  }
+}
+
+const ids = (tasks: Task[]) => tasks.map(t => t.id)
+const run = (tasks: Task[], query: string) => ids(filterTasksByQuery(tasks, parseFilterQuery(query), { now }))
+
+describe('parseFilterQuery', () => {
+  it('parses fields, negation and quoted values', () => {
+    const { clauses, errors } = parseFilterQuery('priority:high,medium -category:"Side projects" status:!completed report')
+    expect(errors).toEqual([])
+    expect(clauses.map(c => [c.field, c.negated, c.values])).toEqual([
+      ['priority', false, ['high', 'medium']],
+      ['category', true, ['side projects']],
+      ['status', true, ['completed']],
+      ['text', false, ['report']],
+    ])
+  })
+
+  it('reports unknown fields and values with a suggestion and position', () => {
+    const { errors } = parseFilterQuery('prority:high status:blokced')
+    expect(errors).toHaveLength(2)
+    expect(errors[0]).toMatchObject({ start: 0, end: 12 })
+    expect(errors[0].message).toContain('"priority:"')
+    expect(errors[1].message).toContain('"blocked"')
+  })
+
+  it('rejects due dates it cannot read', () => {
+    expect(parseFilterQuery('due:2026-02-30').errors).toHaveLength(1)
+    expect(parseFilterQuery('due:soon').errors).toHaveLength(1)
+  })
+})
+
+describe('filterTasksByQuery', () => {
+  const tasks = [
+    makeTask('yesterday', { dueIn: -1, priority: 'high' }),
+    makeTask('today', { category: 'Personal' }),
+    makeTask('tomorrow', { dueIn: 1 }),
+    makeTask('next-week', { dueIn: 7, priority: 'low' }),
+    makeTask('done', { dueIn: -3, completed: true, status: 'completed' }),
+  ]
+
+  it('matches due days relative to today', () => {
+    expect(run(tasks, 'due:today')).toEqual(['today'])
+    expect(run(tasks, 'due:tomorrow')).toEqual(['tomorrow'])
+    expect(run(tasks, 'due:<7d status:!completed')).toEqual(['yesterday', 'today', 'tomorrow'])
+    expect(run(tasks, `due:>=${addDaysToKey(today, 7)}`)).toEqual(['next-week'])
+  })
+
+  it('treats only open tasks due before today as overdue', () => {
+    expect(run(tasks, 'due:overdue')).toEqual(['yesterday'])
+    expect(run(tasks, 'is:overdue')).toEqual(['yesterday'])
+  })
+
+  it('combines clauses with AND and values with OR', () => {
+    expect(run(tasks, 'priority:high,low')).toEqual(['yesterday', 'next-week'])
+    expect(run(tasks, 'category:personal,work priority:!medium')).toEqual(['yesterday', 'next-week'])
+    expect(run(tasks, 'tom')).toEqual(['tomorrow'])
+  })
+
+  it('counts tasks waiting on unfinished dependencies as blocked', () => {
+    const blocker = makeTask('blocker')
+    const waiting = makeTask('waiting', { dependsOn: ['blocker'] })
+    expect(run([blocker, waiting], 'status:blocked')).toEqual(['waiting'])
+    expect(run([blocker, waiting], 'status:not-started')).toEqual(['blocker'])
+  })
+})
+
+describe('renameQueryValue', () => {
+  it('rewrites matching category terms and leaves the rest as typed', () => {
+    expect(renameQueryValue('priority:high category:Work,Home', 'category', 'work', 'Side projects'))
+      .toBe('priority:high category:"Side projects",Home')
+    expect(renameQueryValue('-category:!work', 'category', 'Work', 'Job')).toBe('-category:!Job')
+    expect(renameQueryValue('category:Home work', 'category', 'Work', 'Job')).toBe('category:Home work')
+  })
+
+  it('can keep the old name as an alternative', () => {
+    expect(renameQueryValue('project:launch', 'project', 'Launch', 'Beta', true)).toBe('project:launch,Beta')
+  })
+})
+
+describe('getQuerySuggestions', () => {
+  it('completes field names, then values', () => {
+    expect(getQuerySuggestions('pri', 3).map(s => s.text)).toContain('priority:')
+    expect(getQuerySuggestions('status:bl', 9)).toEqual([expect.objectContaining({ text: 'blocked', start: 7, end: 9 })])
+  })
+})
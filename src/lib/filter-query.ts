@@ -0,0 +1,453 @@
+/**
+ * Filter Query Language
+ *
+ * Parses queries like `priority:high status:!completed due:<7d category:Work`
+ * into clauses that smart lists evaluate against tasks, with positioned
+ * error messages and autocomplete for the query input.
+ *
+ * ## Syntax
+ * - `field:value` terms are combined with AND; `field:a,b` matches either value
+ * - `field:!value` (or `-field:value`) negates a term
+ * - Values with spaces are quoted: `category:"Side projects"`
+ * - Words without a field match the title, e.g. `report -draft`
+ *
+ * ## Fields
+ * - priority: low, medium, high
+ * - status:   not-started, in-progress, blocked, completed (tasks waiting on
+ *             unfinished dependencies count as blocked)
+ * - category, project: names, matched case-insensitively
+ * - due:      today, tomorrow, yesterday, overdue, YYYY-MM-DD or a day offset
+ *             like 7d / 2w / -3d, optionally after <, <=, > or >=
+ *             (`due:<7d` = due before the day a week from today)
+ * - is:       recurring, overdue
+ * - has:      subtasks, dependencies, project
+ *
+ * Relative dates are resolved when the query is evaluated, so saved lists
+ * stay current from day to day. Days are calendar days in the active time
+ * zone, the same ones the task list groups by.
+ */
+
+import { isValid } from 'date-fns'
+import { findProject, type Category } from '@/lib/categories'
+import { getEffectiveStatus, indexTasks, type TaskIndex } from '@/lib/dependencies'
+import { addDaysToKey, getDayKeyInZone, getDueDayKey, getLocalDayKey, type DayKey } from '@/lib/due-time'
+import { isOverdue } from '@/lib/overdue'
+import type { Task } from '@/types'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type QueryField = 'priority' | 'status' | 'category' | 'project' | 'due' | 'is' | 'has' | 'text'
+
+export type DueComparison = '<' | '<=' | '>' | '>=' | '='
+
+export type DueCondition =
+  | { kind: 'overdue' }
+  /** Days from today, e.g. 7 for "7d" */
+  | { kind: 'relative'; op: DueComparison; days: number }
+  | { kind: 'absolute'; op: DueComparison; date: Date }
+
+export interface QueryClause {
+  field: QueryField
+  negated: boolean
+  /** Lowercased alternatives; the clause matches when any of them does */
+  values: string[]
+  /** Parsed `values` for due clauses */
+  due?: DueCondition[]
+  /** Position in the query text */
+  start: number
+  end: number
+}
+
+export interface QueryError {
+  message: string
+  start: number
+  end: number
+}
+
+export interface ParsedQuery {
+  clauses: QueryClause[]
+  errors: QueryError[]
+}
+
+export interface QueryContext {
+  now?: Date
+  /** Resolves project IDs on tasks to names */
+  categories?: Category[]
+  /** All tasks by ID, so `status:blocked` includes dependency-blocked tasks */
+  taskIndex?: TaskIndex
+}
+
+export interface QuerySuggestion {
+  label: string
+  detail?: string
+  /** Replaces input.slice(start, end) */
+  text: string
+  start: number
+  end: number
+}
+
+// =============================================================================
+// Vocabulary
+// =============================================================================
+
+export const QUERY_FIELDS: { field: Exclude<QueryField, 'text'>; description: string }[] = [
+  { field: 'priority', description: 'low, medium or high' },
+  { field: 'status', description: 'not-started, in-progress, blocked or completed' },
+  { field: 'category', description: 'category name' },
+  { field: 'project', description: 'project name' },
+  { field: 'due', description: 'today, overdue, <7d, >=2025-01-31…' },
+  { field: 'is', description: 'recurring or overdue' },
+  { field: 'has', description: 'subtasks, dependencies or project' },
+]
+
+const FIELD_NAMES = QUERY_FIELDS.map(f => f.field as string)
+
+const ENUM_VALUES: Partial<Record<QueryField, string[]>> = {
+  priority: ['high', 'medium', 'low'],
+  status: ['not-started', 'in-progress', 'blocked', 'completed'],
+  is: ['recurring', 'overdue'],
+  has: ['subtasks', 'dependencies', 'project'],
+}
+
+const DUE_SUGGESTIONS = ['today', 'tomorrow', 'overdue', '<7d', '<14d', '>=7d', 'yesterday']
+
+const DUE_PATTERN = /^(<=|>=|<|>|=)?(?:(today|tomorrow|yesterday)|([+-]?\d+)([dw])|(\d{4})-(\d{2})-(\d{2}))$/
+
+const NAMED_DAYS: Record<string, number> = { yesterday: -1, today: 0, tomorrow: 1 }
+
+// =============================================================================
+// Tokenizing
+// =============================================================================
+
+interface RawToken {
+  text: string
+  start: number
+  end: number
+  /** An opening quote was never closed */
+  unterminated: boolean
+}
+
+function tokenize(input: string): RawToken[] {
+  const tokens: RawToken[] = []
+  let i = 0
+  while (i < input.length) {
+    if (/\s/.test(input[i])) {
+      i++
+      continue
+    }
+    const start = i
+    let quoted = false
+    while (i < input.length && (quoted || !/\s/.test(input[i]))) {
+      if (input[i] === '"') quoted = !quoted
+      i++
+    }
+    tokens.push({ text: input.slice(start, i), start, end: i, unterminated: quoted })
+  }
+  return tokens
+}
+
+/** Split on commas outside quotes and drop the quotes */
+function splitValues(value: string): string[] {
+  const parts: string[] = []
+  let current = ''
+  let quoted = false
+  for (const char of value) {
+    if (char === '"') quoted = !quoted
+    else if (char === ',' && !quoted) {
+      parts.push(current.trim())
+      current = ''
+    } else current += char
+  }
+  parts.push(current.trim())
+  return parts
+}
+
+const quoteIfNeeded = (value: string) => (/[\s,"]/.test(value) ? `"${value.replace(/"/g, '')}"` : value)
+
+// =============================================================================
+// Parsing
+// =============================================================================
+
+function editDistance(a: string, b: string): number {
+  const row = Array.from({ length: b.length + 1 }, (_, i) => i)
+  for (let i = 1; i <= a.length; i++) {
+    let diagonal = row[0]
+    row[0] = i
+    for (let j = 1; j <= b.length; j++) {
+      const above = row[j]
+      row[j] = Math.min(row[j] + 1, row[j - 1] + 1, diagonal + (a[i - 1] === b[j - 1] ? 0 : 1))
+      diagonal = above
+    }
+  }
+  return row[b.length]
+}
+
+function closest(word: string, options: string[]): string | undefined {
+  const prefixed = options.find(o => o.startsWith(word))
+  if (prefixed) return prefixed
+  let best: string | undefined
+  let bestDistance = 3
+  for (const option of options) {
+    const distance = editDistance(word, option)
+    if (distance < bestDistance) {
+      best = option
+      bestDistance = distance
+    }
+  }
+  return best
+}
+
+const listWords = (words: string[]) =>
+  words.length > 1 ? `${words.slice(0, -1).join(', ')} or ${words[words.length - 1]}` : words[0]
+
+export function parseDueCondition(value: string): DueCondition | null {
+  if (value === 'overdue') return { kind: 'overdue' }
+  const match = DUE_PATTERN.exec(value)
+  if (!match) return null
+
+  const op = (match[1] || '=') as DueComparison
+  if (match[2]) return { kind: 'relative', op, days: NAMED_DAYS[match[2]] }
+  if (match[3]) return { kind: 'relative', op, days: Number(match[3]) * (match[4] === 'w' ? 7 : 1) }
+
+  const date = new Date(Number(match[5]), Number(match[6]) - 1, Number(match[7]))
+  if (!isValid(date) || date.getDate() !== Number(match[7])) return null
+  return { kind: 'absolute', op, date }
+}
+
+function parseToken(token: RawToken): { clause?: QueryClause; error?: QueryError } {
+  const at = { start: token.start, end: token.end }
+  if (token.unterminated) return { error: { message: 'Missing closing quote', ...at } }
+
+  const fieldMatch = /^([-!]?)([a-z]+):(.*)$/i.exec(token.text)
+  if (!fieldMatch) {
+    const negated = /^[-!]./.test(token.text)
+    const words = (negated ? token.text.slice(1) : token.text).replace(/"/g, '')
+    return { clause: { field: 'text', negated, values: [words.toLowerCase()], ...at } }
+  }
+
+  const field = fieldMatch[2].toLowerCase()
+  let value = fieldMatch[3]
+  let negated = fieldMatch[1] !== ''
+  if (value.startsWith('!')) {
+    negated = !negated
+    value = value.slice(1)
+  }
+
+  if (!FIELD_NAMES.includes(field)) {
+    const suggestion = closest(field, FIELD_NAMES)
+    return {
+      error: {
+        message: `Unknown filter "${field}:".${suggestion ? ` Did you mean "${suggestion}:"?` : ` Use ${listWords(FIELD_NAMES)}.`}`,
+        ...at,
+      },
+    }
+  }
+
+  const values = splitValues(value).map(v => v.toLowerCase())
+  if (values.some(v => !v)) {
+    const example = ENUM_VALUES[field as QueryField]?.[0] || (field === 'due' ? 'today' : 'Work')
+    return { error: { message: `"${field}:" needs a value, e.g. ${field}:${example}`, ...at } }
+  }
+
+  const allowed = ENUM_VALUES[field as QueryField]
+  if (allowed) {
+    const unknown = values.find(v => !allowed.includes(v))
+    if (unknown) {
+      const suggestion = closest(unknown, allowed)
+      return {
+        error: {
+          message: `Unknown ${field} "${unknown}". ${suggestion ? `Did you mean "${suggestion}"? ` : ''}Use ${listWords(allowed)}.`,
+          ...at,
+        },
+      }
+    }
+  }
+
+  if (field === 'due') {
+    const due = values.map(parseDueCondition)
+    const bad = values.find((_, i) => !due[i])
+    if (bad !== undefined) {
+      return { error: { message: `Can't read due date "${bad}". Try today, overdue, 2025-01-31, <7d or >=2w.`, ...at } }
+    }
+    return { clause: { field: 'due', negated, values, due: due as DueCondition[], ...at } }
+  }
+
+  return { clause: { field: field as QueryField, negated, values, ...at } }
+}
+
+export function parseFilterQuery(input: string): ParsedQuery {
+  const clauses: QueryClause[] = []
+  const errors: QueryError[] = []
+  for (const token of tokenize(input)) {
+    const { clause, error } = parseToken(token)
+    if (clause) clauses.push(clause)
+    if (error) errors.push(error)
+  }
+  return { clauses, errors }
+}
+
+/**
+ * Point `category:` or `project:` terms naming `from` at `to`, keeping the
+ * rest of the query as typed. With `keepOld` the old name stays as an
+ * alternative, for a project name another category still uses.
+ */
+export function renameQueryValue(
+  input: string,
+  field: 'category' | 'project',
+  from: string,
+  to: string,
+  keepOld = false
+): string {
+  const same = (a: string, b: string) => a.trim().toLowerCase() === b.trim().toLowerCase()
+  let output = input
+  for (const token of tokenize(input).reverse()) {
+    const match = /^([-!]?)([a-z]+):(!?)(.*)$/i.exec(token.text)
+    if (token.unterminated || !match || match[2].toLowerCase() !== field) continue
+
+    const values = splitValues(match[4])
+    if (!values.some(v => same(v, from))) continue
+    const renamed = values
+      .flatMap(v => (same(v, from) ? (keepOld ? [v, to] : [to]) : [v]))
+      .filter((v, i, all) => all.findIndex(other => same(other, v)) === i)
+    const text = `${match[1]}${match[2]}:${match[3]}${renamed.map(quoteIfNeeded).join(',')}`
+    output = output.slice(0, token.start) + text + output.slice(token.end)
+  }
+  return output
+}
+
+// =============================================================================
+// Evaluation
+// =============================================================================
+
+function compareDay(day: DayKey, op: DueComparison, target: DayKey): boolean {
+  switch (op) {
+    case '<': return day < target
+    case '<=': return day <= target
+    case '>': return day > target
+    case '>=': return day >= target
+    default: return day === target
+  }
+}
+
+function matchesDue(task: Task, condition: DueCondition, now: Date, today: DayKey): boolean {
+  if (condition.kind === 'overdue') return isOverdue(task, now)
+  const target = condition.kind === 'relative' ? addDaysToKey(today, condition.days) : getLocalDayKey(condition.date)
+  return compareDay(getDueDayKey(task), condition.op, target)
+}
+
+function matchesValue(task: Task, clause: QueryClause, value: string, index: number, context: QueryContext, now: Date, today: DayKey): boolean {
+  switch (clause.field) {
+    case 'priority':
+      return task.priority === value
+    case 'status':
+      return (context.taskIndex ? getEffectiveStatus(task, context.taskIndex) : task.status) === value
+    case 'category':
+      return task.category.toLowerCase() === value
+    case 'project':
+      return findProject(context.categories || [], task.projectId)?.name.toLowerCase() === value
+    case 'due':
+      return matchesDue(task, clause.due![index], now, today)
+    case 'is':
+      return value === 'recurring' ? Boolean(task.recurrence) : isOverdue(task, now)
+    case 'has':
+      if (value === 'subtasks') return (task.subtasks?.length || 0) > 0
+      if (value === 'dependencies') return (task.dependsOn?.length || 0) > 0
+      return Boolean(task.projectId)
+    case 'text':
+      return task.title.toLowerCase().includes(value)
+  }
+}
+
+/**
+ * Whether a task matches every clause. Errors are ignored, so callers
+ * decide whether a query with errors may be used.
+ */
+export function matchesFilterQuery(task: Task, query: ParsedQuery, context: QueryContext = {}): boolean {
+  const now = context.now || new Date()
+  const today = getDayKeyInZone(now)
+  return query.clauses.every(clause => {
+    const matched = clause.values.some((value, index) => matchesValue(task, clause, value, index, context, now, today))
+    return clause.negated ? !matched : matched
+  })
+}
+
+export function filterTasksByQuery(tasks: Task[], query: ParsedQuery, context: QueryContext = {}): Task[] {
+  const resolved = { ...context, taskIndex: context.taskIndex || indexTasks(tasks) }
+  return tasks.filter(task => matchesFilterQuery(task, query, resolved))
+}
+
+// =============================================================================
+// Autocomplete
+// =============================================================================
+
+/**
+ * Completions for the term under the cursor: field names while typing a
+ * field, then values for that field (categories and projects come from
+ * the user's list).
+ */
+export function getQuerySuggestions(input: string, cursor: number, context: QueryContext = {}): QuerySuggestion[] {
+  const token = tokenize(input).find(t => t.start <= cursor && cursor <= t.end)
+  const start = token?.start ?? cursor
+  const text = token ? input.slice(token.start, cursor) : ''
+  const end = token?.end ?? cursor
+
+  const fieldMatch = /^([-!]?)([a-z]*)(:?)(.*)$/i.exec(text)
+  if (!fieldMatch) return []
+  const [, negation, fieldText, colon, valueText] = fieldMatch
+
+  if (!colon) {
+    const prefix = fieldText.toLowerCase()
+    if (text !== negation + fieldText) return []
+    return QUERY_FIELDS
+      .filter(({ field }) => field.startsWith(prefix) && field !== prefix)
+      .map(({ field, description }) => ({
+        label: `${field}:`,
+        detail: description,
+        text: `${negation}${field}:`,
+        start,
+        end,
+      }))
+  }
+
+  const field = fieldText.toLowerCase() as QueryField
+  if (!FIELD_NAMES.includes(field)) return []
+
+  // Complete the last comma-separated value, after any "!"
+  const valueStart = start + negation.length + fieldText.length + 1
+  const offset = valueText.lastIndexOf(',') + 1 || (valueText.startsWith('!') ? 1 : 0)
+  const prefix = valueText.slice(offset).replace(/"/g, '').toLowerCase()
+
+  const categories = context.categories || []
+  const options = field === 'category'
+    ? categories.filter(c => !c.archived).map(c => c.name)
+    : field === 'project'
+      ? categories.flatMap(c => c.projects.filter(p => !p.archived).map(p => p.name))
+      : field === 'due'
+        ? DUE_SUGGESTIONS
+        : ENUM_VALUES[field] || []
+
+  return options
+    .filter(option => option.toLowerCase().startsWith(prefix) && option.toLowerCase() !== prefix)
+    .map(option => ({
+      label: option,
+      text: quoteIfNeeded(option),
+      start: valueStart + offset,
+      end,
+    }))
+}
+
+/**
+ * Insert a suggestion, returning the new text and cursor position. Fields
+ * keep the cursor after the colon; values add a trailing space.
+ */
+export function applyQuerySuggestion(input: string, suggestion: QuerySuggestion): { value: string; cursor: number } {
+  const isField = suggestion.text.endsWith(':')
+  const rest = input.slice(suggestion.end)
+  const insert = isField || rest.startsWith(' ') ? suggestion.text : `${suggestion.text} `
+  return {
+    value: input.slice(0, suggestion.start) + insert + rest,
+    cursor: suggestion.start + insert.length,
+  }
+}
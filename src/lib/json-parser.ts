@@ -235,3 +235,38 @@ export function safeGet<T>(
   }
   return defaultValue
 }
+
+/**
+ * Read a string field from JSON that is still arriving, e.g. `"answer": "Hel`
+ * while a response streams in. Returns the decoded text so far, or null if the
+ * field hasn't started yet.
+ */
+export function extractPartialStringField(partial: string, key: string): string | null {
+  const start = new RegExp(`"${key}"\\s*:\\s*"`).exec(partial)
+  if (!start) return null
+
+  let value = ''
+  for (let i = start.index + start[0].length; i < partial.length; i++) {
+    const char = partial[i]
+    if (char === '"') return value
+    if (char !== '\\') {
+      value += char
+      continue
+    }
+
+    // Escape sequence - stop if it is cut off mid-way
+    const next = partial[i + 1]
+    if (next === undefined) return value
+    if (next === 'u') {
+      const hex = partial.slice(i + 2, i + 6)
+      if (hex.length < 4) return value
+      value += String.fromCharCode(parseInt(hex, 16))
+      i += 5
+      continue
+    }
+    const escapes: Record<string, string> = { n: '\n', t: '\t', r: '\r', b: '\b', f: '\f' }
+    value += escapes[next] ?? next
+    i++
+  }
+  return value
+}
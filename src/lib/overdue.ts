@@ -0,0 +1,177 @@
+/**
+ * Overdue Tasks
+ * Detection of past-due tasks and the optional morning rollover
+ *
+ * A task is overdue when it is not completed and its due date is before
+ * today (by calendar day in the active time zone, so a task due earlier
+ * today is not overdue).
+ *
+ * Rollover moves overdue tasks to today, keeping their time of day, and
+ * records each move in a log so the user can see what was rescheduled.
+ * Recurring tasks are left in place: moving one would shift its whole
+ * series, and their missed occurrences stay visible as overdue instead.
+ */
+
+import { differenceInZonedDays, getDayKeyInZone, moveDueToDay } from '@/lib/due-time'
+import type { Task, TaskStatus } from '@/types'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface RolloverSettings {
+  /** Roll overdue tasks over to today on the first open of each day */
+  enabled: boolean
+  /** Day key ("yyyy-mm-dd") of the last automatic rollover */
+  lastRolloverDay?: string
+}
+
+export interface RolloverEntry {
+  taskId: string
+  title: string
+  from: Date
+  to: Date
+  rolledAt: Date
+  /** False when started from the Overdue section rather than the morning rollover */
+  automatic: boolean
+}
+
+export interface RolloverResult {
+  tasks: Task[]
+  entries: RolloverEntry[]
+}
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+const ROLLOVER_SETTINGS_STORAGE_KEY = 'taskflow_rollover_settings'
+const ROLLOVER_LOG_STORAGE_KEY = 'taskflow_rollover_log'
+
+/** Oldest log entries are dropped past this many */
+export const MAX_ROLLOVER_LOG_ENTRIES = 100
+
+/** Statuses a task can be overdue in, for repository queries */
+export const OPEN_STATUSES: TaskStatus[] = ['not-started', 'in-progress', 'blocked']
+
+// =============================================================================
+// Detection
+// =============================================================================
+
+/** Calendar days a date is past, 0 for today or later */
+export function getDaysOverdue(date: Date, now: Date = new Date()): number {
+  return Math.max(0, differenceInZonedDays(now, date))
+}
+
+export function isOverdue(task: Task, now: Date = new Date()): boolean {
+  return !task.completed && getDaysOverdue(task.dueDate, now) > 0
+}
+
+export function getOverdueTasks(tasks: Task[], now: Date = new Date()): Task[] {
+  return tasks.filter(t => isOverdue(t, now))
+}
+
+/**
+ * e.g. "2 days overdue"
+ */
+export function formatOverdue(days: number): string {
+  return `${days} day${days === 1 ? '' : 's'} overdue`
+}
+
+// =============================================================================
+// Rollover
+// =============================================================================
+
+export function isRolloverDue(settings: RolloverSettings, now: Date = new Date()): boolean {
+  return settings.enabled && settings.lastRolloverDay !== getDayKeyInZone(now)
+}
+
+/**
+ * Move overdue, non-recurring tasks (or only `ids`, when given) to today
+ */
+export function rollOverTasks(
+  tasks: Task[],
+  now: Date = new Date(),
+  options: { ids?: Iterable<string>; automatic?: boolean } = {}
+): RolloverResult {
+  const ids = options.ids ? new Set(options.ids) : null
+  const today = getDayKeyInZone(now)
+  const entries: RolloverEntry[] = []
+
+  const next = tasks.map(task => {
+    if (task.recurrence || !isOverdue(task, now) || (ids && !ids.has(task.id))) return task
+
+    const moved = moveDueToDay(task, today)
+    entries.push({
+      taskId: task.id,
+      title: task.title,
+      from: task.dueDate,
+      to: moved.dueDate,
+      rolledAt: now,
+      automatic: !!options.automatic,
+    })
+    return moved
+  })
+
+  return { tasks: entries.length > 0 ? next : tasks, entries }
+}
+
+/** New entries first, trimmed to the log limit */
+export function appendRolloverLog(log: RolloverEntry[], entries: RolloverEntry[]): RolloverEntry[] {
+  return [...entries, ...log].slice(0, MAX_ROLLOVER_LOG_ENTRIES)
+}
+
+// =============================================================================
+// Persistence
+// =============================================================================
+
+export function loadRolloverSettings(): RolloverSettings {
+  try {
+    const saved = localStorage.getItem(ROLLOVER_SETTINGS_STORAGE_KEY)
+    if (!saved) return { enabled: false }
+    const parsed = JSON.parse(saved)
+    return {
+      enabled: parsed?.enabled === true,
+      lastRolloverDay: typeof parsed?.lastRolloverDay === 'string' ? parsed.lastRolloverDay : undefined,
+    }
+  } catch {
+    return { enabled: false }
+  }
+}
+
+export function saveRolloverSettings(settings: RolloverSettings): void {
+  try {
+    localStorage.setItem(ROLLOVER_SETTINGS_STORAGE_KEY, JSON.stringify(settings))
+  } catch (error) {
+    console.error('Failed to save rollover settings:', error)
+  }
+}
+
+export function loadRolloverLog(): RolloverEntry[] {
+  try {
+    const saved = localStorage.getItem(ROLLOVER_LOG_STORAGE_KEY)
+    if (!saved) return []
+    const parsed = JSON.parse(saved)
+    if (!Array.isArray(parsed)) return []
+    return parsed
+      .filter((e: any) => e && e.taskId && e.from && e.to)
+      .map((e: any): RolloverEntry => ({
+        taskId: String(e.taskId),
+        title: String(e.title ?? ''),
+        from: new Date(e.from),
+        to: new Date(e.to),
+        rolledAt: new Date(e.rolledAt || e.to),
+        automatic: e.automatic === true,
+      }))
+  } catch {
+    return []
+  }
+}
+
+export function saveRolloverLog(log: RolloverEntry[]): void {
+  try {
+    localStorage.setItem(ROLLOVER_LOG_STORAGE_KEY, JSON.stringify(log))
+  } catch (error) {
+    console.error('Failed to save rollover log:', error)
+  }
+}
@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest'
+import { parseQuickAdd } from '@/lib/quick-add-parser'
+
+// Sunday, 18 October 2026, 10:00 local time
+const now = new Date(2026, 9, 18, 10)
+const parse = (input: string) => parseQuickAdd(input, { now, categories: ['Work', 'Personal'] })
+
+describe('parseQuickAdd', () => {
+  it('reads priority, category, day and time and keeps the rest as the title', () => {
+    const parsed = parse('Call dentist tomorrow 3pm !high #personal')
+    expect(parsed.title).toBe('Call dentist')
+    expect(parsed.priority).toBe('high')
+    expect(parsed.category).toBe('Personal')
+    expect(parsed.hasTime).toBe(true)
+    expect(parsed.dueDate).toEqual(new Date(2026, 9, 19, 15, 0))
+  })
+
+  it('leaves plain titles untouched', () => {
+    const parsed = parse('Write the quarterly report')
+    expect(parsed.title).toBe('Write the quarterly report')
+    expect(parsed.dueDate).toBeUndefined()
+    expect(parsed.tokens).toEqual([])
+  })
+
+  it('resolves calendar dates to their next occurrence', () => {
+    expect(parse('Renew passport Jan 5').dueDate).toEqual(new Date(2027, 0, 5))
+    expect(parse('Pay rent 2026-11-01').dueDate).toEqual(new Date(2026, 10, 1))
+    expect(parse('Ship it in 3 days').dueDate).toEqual(new Date(2026, 9, 21))
+  })
+
+  describe('weekdays', () => {
+    it('reads a weekday after a preposition or as the last word', () => {
+      expect(parse('Fix sat nav on fri').dueDate).toEqual(new Date(2026, 9, 23))
+      expect(parse('Call mom fri').dueDate).toEqual(new Date(2026, 9, 23))
+      expect(parse('Call mom fri 3pm !high').title).toBe('Call mom')
+      expect(parse('Standup this wednesday').dueDate).toEqual(new Date(2026, 9, 21))
+    })
+
+    it('keeps weekday abbreviations that are part of the title', () => {
+      for (const title of ['Read the sun book', 'Fix sat nav', 'Review wed notes']) {
+        const parsed = parse(title)
+        expect(parsed.title).toBe(title)
+        expect(parsed.dueDate).toBeUndefined()
+      }
+    })
+  })
+
+  describe('months', () => {
+    it('reads full and abbreviated month names', () => {
+      expect(parse('Taxes due April 15').dueDate).toEqual(new Date(2027, 3, 15))
+      expect(parse('Offsite 3rd of Sept.').dueDate).toEqual(new Date(2027, 8, 3))
+      expect(parse('Party on dec 31').title).toBe('Party')
+    })
+
+    it('keeps words that only start with a month abbreviation', () => {
+      for (const title of ['Decide 3 options', 'Prepare marketing 2 slides', 'Buy 2 junk drives', 'Read chapter 3 of Marches']) {
+        const parsed = parse(title)
+        expect(parsed.title).toBe(title)
+        expect(parsed.dueDate).toBeUndefined()
+      }
+    })
+  })
+
+  describe('repeats', () => {
+    it('reads intervals and weekday lists', () => {
+      expect(parse('Water plants every 2 weeks').recurrence).toEqual({ freq: 'weekly', interval: 2 })
+      expect(parse('Standup every weekday').recurrence).toEqual({ freq: 'weekly', interval: 1, byWeekday: [1, 2, 3, 4, 5] })
+      expect(parse('Gym every mon and thu').recurrence).toEqual({ freq: 'weekly', interval: 1, byWeekday: [1, 4] })
+    })
+
+    it('starts a weekday repeat on its first matching day', () => {
+      const parsed = parse('Gym every monday')
+      expect(parsed.title).toBe('Gym')
+      expect(parsed.dueDate).toEqual(new Date(2026, 9, 19))
+    })
+  })
+
+  it('reports leftover date-like phrases as unresolved', () => {
+    expect(parse('Plan trip end of the quarter').unresolved).toEqual(['end of the quarter'])
+  })
+})
@@ -0,0 +1,304 @@
+/**
+ * Quick Add Parser
+ *
+ * Turns a single line like "Call dentist tomorrow 3pm !high #Personal every 2 weeks"
+ * into task fields. The grammar is deterministic and runs fully offline:
+ *
+ * - Priority:   !high / !medium / !low (also !h, !m, !l, !1-!3)
+ * - Category:   #Name (matched case-insensitively against known categories)
+ * - Due date:   today, tonight, tomorrow, weekday names ("on fri", "next monday",
+ *               or a bare "fri" at the end, so "Fix sat nav" keeps its title),
+ *               "in 3 days", "next week", "Jan 5", "5 January", "2025-01-05", "1/5"
+ * - Time:       3pm, 3:30 pm, 15:00, noon, midnight (optionally after "at")
+ * - Repeat:     daily, weekly, monthly, yearly, every weekday, every monday,
+ *               every other week, every 2 weeks
+ *
+ * Matched phrases are removed and whatever remains becomes the title. Phrases
+ * that look like dates but match no rule are reported in `unresolved` so the
+ * UI can offer the agent as a fallback.
+ */
+
+import { addDays, addMonths, addWeeks, addYears, startOfDay } from 'date-fns'
+import { WEEKDAYS } from '@/lib/recurrence'
+import type { RecurrenceRule, TaskPriority } from '@/types'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type QuickAddTokenKind = 'priority' | 'category' | 'date' | 'time' | 'recurrence'
+
+export interface QuickAddToken {
+  kind: QuickAddTokenKind
+  /** The phrase as typed */
+  text: string
+}
+
+export interface ParsedQuickAdd {
+  title: string
+  priority?: TaskPriority
+  category?: string
+  /** Due day, with the time of day applied when one was given */
+  dueDate?: Date
+  hasTime: boolean
+  recurrence?: RecurrenceRule
+  tokens: QuickAddToken[]
+  /** Leftover phrases that look like scheduling but could not be parsed */
+  unresolved: string[]
+}
+
+export interface QuickAddOptions {
+  now?: Date
+  /** Known category names, used to normalize "#work" to "Work" */
+  categories?: string[]
+}
+
+// =============================================================================
+// Vocabulary
+// =============================================================================
+
+const PRIORITY_WORDS: Record<string, TaskPriority> = {
+  high: 'high', h: 'high', '1': 'high',
+  medium: 'medium', med: 'medium', m: 'medium', '2': 'medium',
+  low: 'low', l: 'low', '3': 'low',
+}
+
+const WEEKDAY_NAMES = ['sunday', 'monday', 'tuesday', 'wednesday', 'thursday', 'friday', 'saturday']
+const MONTH_NAMES = [
+  'january', 'february', 'march', 'april', 'may', 'june',
+  'july', 'august', 'september', 'october', 'november', 'december',
+]
+
+const WEEKDAY_PATTERN = '(sun|mon|tue|tues|wed|thu|thur|thurs|fri|sat)(?:day|sday|nesday|rsday|urday)?'
+const MONTH_PATTERN =
+  '(jan(?:uary)?|feb(?:ruary)?|mar(?:ch)?|apr(?:il)?|may|june?|july?|aug(?:ust)?|sep(?:t(?:ember)?)?|oct(?:ober)?|nov(?:ember)?|dec(?:ember)?)\\b\\.?'
+const UNIT_PATTERN = '(day|week|month|year)s?'
+
+const FREQ_BY_UNIT: Record<string, RecurrenceRule['freq']> = {
+  day: 'daily', week: 'weekly', month: 'monthly', year: 'yearly',
+}
+
+/** Leftover phrases that suggest an unparsed date or repeat rule */
+const TEMPORAL_HINT = new RegExp(
+  `\\b(every\\s+\\w+|next\\s+\\w+|in\\s+\\d+\\s+\\w+|end\\s+of\\s+(the\\s+)?\\w+|` +
+  `this\\s+(week|weekend|month|year)|weekend|\\d+(st|nd|rd|th))\\b`,
+  'i'
+)
+
+/** What may follow a bare weekday for it to count as the last word */
+const TRAILING_TOKENS = /^(?:[\s,.;]|[!#][\w-]+)*$/
+
+/** Prepositions left dangling once a date or time is removed */
+const TRAILING_FILLER = /\s+(on|at|by|due|before|until|for|from|the)$/i
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+const weekdayIndex = (word: string): number =>
+  WEEKDAY_NAMES.findIndex(name => name.startsWith(word.toLowerCase().slice(0, 3)))
+
+const monthIndex = (word: string): number =>
+  MONTH_NAMES.findIndex(name => name.startsWith(word.toLowerCase().slice(0, 3)))
+
+/**
+ * Next date falling on a weekday; today counts unless `strictlyAfter`
+ */
+function nextWeekday(from: Date, weekday: number, strictlyAfter: boolean): Date {
+  let diff = (weekday - from.getDay() + 7) % 7
+  if (diff === 0 && strictlyAfter) diff = 7
+  return addDays(startOfDay(from), diff)
+}
+
+/**
+ * A calendar date without a year resolves to its next occurrence
+ */
+function upcomingDate(now: Date, month: number, day: number, year?: number): Date | null {
+  const resolvedYear = year ?? now.getFullYear()
+  const date = new Date(resolvedYear, month, day)
+  if (date.getMonth() !== month || date.getDate() !== day) return null
+  if (year === undefined && date < startOfDay(now)) return new Date(resolvedYear + 1, month, day)
+  return date
+}
+
+function to24Hour(hour: number, meridiem?: string): number | null {
+  if (!meridiem) return hour <= 23 ? hour : null
+  if (hour < 1 || hour > 12) return null
+  const pm = meridiem.toLowerCase().startsWith('p')
+  return (hour % 12) + (pm ? 12 : 0)
+}
+
+// =============================================================================
+// Main API
+// =============================================================================
+
+export function parseQuickAdd(input: string, options: QuickAddOptions = {}): ParsedQuickAdd {
+  const now = options.now || new Date()
+  const today = startOfDay(now)
+  const tokens: QuickAddToken[] = []
+  let rest = ` ${input} `
+
+  let priority: TaskPriority | undefined
+  let category: string | undefined
+  let day: Date | undefined
+  let time: { hours: number; minutes: number } | undefined
+  let recurrence: RecurrenceRule | undefined
+
+  /**
+   * Remove the first match of a phrase whose handler accepts it
+   */
+  const consume = (kind: QuickAddTokenKind, pattern: string, handler: (m: RegExpExecArray) => boolean) => {
+    const regex = new RegExp(`(?<=\\s)${pattern}(?=[\\s,.;]|$)`, 'gi')
+    let match: RegExpExecArray | null
+    while ((match = regex.exec(rest))) {
+      if (!handler(match)) continue
+      tokens.push({ kind, text: match[0] })
+      rest = `${rest.slice(0, match.index)} ${rest.slice(match.index + match[0].length)}`
+      return
+    }
+  }
+
+  // --- Repeat (before dates, so "every monday" is not read as a due date) ---
+  consume('recurrence', `every\\s+weekday|weekdays`, () => {
+    recurrence = { freq: 'weekly', interval: 1, byWeekday: WEEKDAYS }
+    return true
+  })
+  consume('recurrence', `every\\s+${WEEKDAY_PATTERN}(?:(?:\\s*,\\s*|\\s+and\\s+)${WEEKDAY_PATTERN})*`, m => {
+    if (recurrence) return false
+    const days = m[0].replace(/^every\s+/i, '').split(/\s*,\s*|\s+and\s+/i).map(weekdayIndex)
+    if (days.some(d => d < 0)) return false
+    recurrence = { freq: 'weekly', interval: 1, byWeekday: [...new Set(days)].sort((a, b) => a - b) }
+    return true
+  })
+  consume('recurrence', `every\\s+(?:(other)|(\\d+))?\\s*${UNIT_PATTERN}`, m => {
+    if (recurrence) return false
+    const interval = m[1] ? 2 : m[2] ? parseInt(m[2], 10) : 1
+    if (interval < 1) return false
+    recurrence = { freq: FREQ_BY_UNIT[m[3].toLowerCase()], interval }
+    return true
+  })
+  consume('recurrence', `(daily|weekly|monthly|yearly|annually)`, m => {
+    if (recurrence) return false
+    const word = m[1].toLowerCase()
+    recurrence = { freq: word === 'annually' ? 'yearly' : (word as RecurrenceRule['freq']), interval: 1 }
+    return true
+  })
+
+  // --- Time ---
+  consume('time', `(?:at\\s+)?(\\d{1,2})(?::(\\d{2}))?\\s*(am|pm|a\\.m\\.|p\\.m\\.)`, m => {
+    const hours = to24Hour(parseInt(m[1], 10), m[3])
+    const minutes = m[2] ? parseInt(m[2], 10) : 0
+    if (hours === null || minutes > 59) return false
+    time = { hours, minutes }
+    return true
+  })
+  consume('time', `(?:at\\s+)?([01]?\\d|2[0-3]):([0-5]\\d)`, m => {
+    if (time) return false
+    time = { hours: parseInt(m[1], 10), minutes: parseInt(m[2], 10) }
+    return true
+  })
+  consume('time', `(?:at\\s+)?(noon|midnight)`, m => {
+    if (time) return false
+    time = { hours: m[1].toLowerCase() === 'noon' ? 12 : 0, minutes: 0 }
+    return true
+  })
+
+  // --- Due date ---
+  consume('date', `(?:on\\s+|due\\s+|by\\s+)?(\\d{4})-(\\d{2})-(\\d{2})`, m => {
+    const date = upcomingDate(now, parseInt(m[2], 10) - 1, parseInt(m[3], 10), parseInt(m[1], 10))
+    if (!date) return false
+    day = date
+    return true
+  })
+  consume('date', `(?:on\\s+|due\\s+|by\\s+)?(\\d{1,2})/(\\d{1,2})(?:/(\\d{2}|\\d{4}))?`, m => {
+    if (day) return false
+    const year = m[3] ? (m[3].length === 2 ? 2000 + parseInt(m[3], 10) : parseInt(m[3], 10)) : undefined
+    const date = upcomingDate(now, parseInt(m[1], 10) - 1, parseInt(m[2], 10), year)
+    if (!date) return false
+    day = date
+    return true
+  })
+  consume('date', `(?:on\\s+|due\\s+|by\\s+)?${MONTH_PATTERN}\\s+(\\d{1,2})(?:st|nd|rd|th)?(?:,?\\s+(\\d{4}))?`, m => {
+    if (day) return false
+    const date = upcomingDate(now, monthIndex(m[1]), parseInt(m[2], 10), m[3] ? parseInt(m[3], 10) : undefined)
+    if (!date) return false
+    day = date
+    return true
+  })
+  consume('date', `(?:on\\s+|due\\s+|by\\s+)?(?:the\\s+)?(\\d{1,2})(?:st|nd|rd|th)?\\s+(?:of\\s+)?${MONTH_PATTERN}(?:,?\\s+(\\d{4}))?`, m => {
+    if (day) return false
+    const date = upcomingDate(now, monthIndex(m[2]), parseInt(m[1], 10), m[3] ? parseInt(m[3], 10) : undefined)
+    if (!date) return false
+    day = date
+    return true
+  })
+  consume('date', `(?:due\\s+|by\\s+)?(today|tonight|tomorrow|tmrw|tmr)`, m => {
+    if (day) return false
+    const word = m[1].toLowerCase()
+    day = word === 'today' || word === 'tonight' ? today : addDays(today, 1)
+    if (word === 'tonight' && !time) time = { hours: 20, minutes: 0 }
+    return true
+  })
+  consume('date', `(?:due\\s+|by\\s+)?in\\s+(\\d+|a|an|one|two|three)\\s+${UNIT_PATTERN}`, m => {
+    if (day) return false
+    const words: Record<string, number> = { a: 1, an: 1, one: 1, two: 2, three: 3 }
+    const amount = words[m[1].toLowerCase()] ?? parseInt(m[1], 10)
+    const unit = m[2].toLowerCase()
+    day = unit === 'day' ? addDays(today, amount)
+      : unit === 'week' ? addWeeks(today, amount)
+      : unit === 'month' ? addMonths(today, amount)
+      : addYears(today, amount)
+    return true
+  })
+  consume('date', `(?:due\\s+|by\\s+)?next\\s+(week|month|year)`, m => {
+    if (day) return false
+    const unit = m[1].toLowerCase()
+    day = unit === 'week' ? nextWeekday(today, 1, true)
+      : unit === 'month' ? new Date(today.getFullYear(), today.getMonth() + 1, 1)
+      : new Date(today.getFullYear() + 1, 0, 1)
+    return true
+  })
+  // A bare weekday is only a date as the last word; inside a title it is usually
+  // part of a name ("Read the sun book")
+  consume('date', `(on\\s+|due\\s+|by\\s+)?(next\\s+|this\\s+)?${WEEKDAY_PATTERN}`, m => {
+    if (day) return false
+    const weekday = weekdayIndex(m[3])
+    if (weekday < 0) return false
+    if (!m[1] && !m[2] && !TRAILING_TOKENS.test(rest.slice(m.index + m[0].length))) return false
+    day = nextWeekday(today, weekday, Boolean(m[2]?.toLowerCase().startsWith('next')))
+    return true
+  })
+
+  // --- Priority and category ---
+  consume('priority', `!(high|medium|med|low|h|m|l|1|2|3)`, m => {
+    priority = PRIORITY_WORDS[m[1].toLowerCase()]
+    return true
+  })
+  consume('category', `#([\\w-]+)`, m => {
+    const known = options.categories?.find(c => c.toLowerCase() === m[1].toLowerCase())
+    category = known || m[1]
+    return true
+  })
+
+  // A repeat on specific weekdays starts on the first matching day
+  if (recurrence?.byWeekday && !day) {
+    day = [0, 1, 2, 3, 4, 5, 6]
+      .map(offset => addDays(today, offset))
+      .find(d => recurrence.byWeekday.includes(d.getDay()))
+  }
+  if (time && !day) day = today
+
+  let dueDate: Date | undefined
+  if (day) {
+    dueDate = new Date(day)
+    if (time) dueDate.setHours(time.hours, time.minutes, 0, 0)
+  }
+
+  let title = rest.replace(/\s+/g, ' ').trim()
+  while (TRAILING_FILLER.test(title)) title = title.replace(TRAILING_FILLER, '')
+
+  const hint = TEMPORAL_HINT.exec(title)
+  const unresolved = hint ? [hint[0]] : []
+
+  return { title, priority, category, dueDate, hasTime: Boolean(time), recurrence, tokens, unresolved }
+}
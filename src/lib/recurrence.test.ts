@@ -0,0 +1,156 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import {
+  advanceRecurringTask,
+  anchorRecurrence,
+  describeRecurrence,
+  getNextOccurrence,
+  getOccurrencesBetween,
+  getSeriesDay,
+  isOccurrenceDay,
+  toRRuleString,
+} from '@/lib/recurrence'
+import { buildDue, getDueDayKey, saveTimeZoneSetting } from '@/lib/due-time'
+import type { RecurrenceRule, Task } from '@/types'
+
+function makeTask(key: string, recurrence: RecurrenceRule, time?: string, zone = 'UTC'): Task {
+  return {
+    id: 'series',
+    title: 'Series',
+    completed: false,
+    priority: 'medium',
+    category: 'Work',
+    status: 'not-started',
+    createdAt: new Date(),
+    subtasks: [],
+    ...buildDue(key, time, zone),
+    recurrence,
+  }
+}
+
+/** Complete the task `count` times, returning each next occurrence's day in `zone` */
+function completeRepeatedly(task: Task, count: number, zone: string): string[] {
+  const days: string[] = []
+  let current = task
+  for (let i = 0; i < count; i++) {
+    const [, next] = advanceRecurringTask(current, { ...current, completed: true, status: 'completed' })
+    current = next
+    days.push(getDueDayKey(current, zone))
+  }
+  return days
+}
+
+describe('isOccurrenceDay', () => {
+  const anchor = new Date(2026, 0, 31)
+
+  it('repeats every N days or weeks from the anchor', () => {
+    expect(isOccurrenceDay({ freq: 'daily', interval: 3 }, anchor, new Date(2026, 1, 3))).toBe(true)
+    expect(isOccurrenceDay({ freq: 'daily', interval: 3 }, anchor, new Date(2026, 1, 4))).toBe(false)
+    expect(isOccurrenceDay({ freq: 'daily', interval: 1 }, anchor, new Date(2026, 0, 30))).toBe(false)
+  })
+
+  it('clamps a monthly day to short months', () => {
+    const rule = anchorRecurrence({ freq: 'monthly', interval: 1 }, anchor)
+    expect(isOccurrenceDay(rule, anchor, new Date(2026, 1, 28))).toBe(true)
+    expect(isOccurrenceDay(rule, anchor, new Date(2026, 2, 31))).toBe(true)
+    expect(isOccurrenceDay(rule, anchor, new Date(2026, 2, 28))).toBe(false)
+  })
+
+  it('matches the nth or last weekday of the month', () => {
+    // Last Saturday of January 2026
+    const rule = anchorRecurrence({ freq: 'monthly', interval: 1, bySetPos: 1 }, anchor)
+    expect(rule).toMatchObject({ byWeekday: [6], bySetPos: -1 })
+    expect(isOccurrenceDay(rule, anchor, new Date(2026, 1, 28))).toBe(true)
+    expect(isOccurrenceDay(rule, anchor, new Date(2026, 1, 21))).toBe(false)
+  })
+})
+
+describe('getNextOccurrence', () => {
+  it('finds the next selected weekday', () => {
+    const rule: RecurrenceRule = { freq: 'weekly', interval: 1, byWeekday: [1, 3] }
+    const monday = new Date(2026, 9, 19)
+    expect(getNextOccurrence(rule, monday, monday)).toEqual(new Date(2026, 9, 21))
+    expect(getNextOccurrence(rule, monday, new Date(2026, 9, 21))).toEqual(new Date(2026, 9, 26))
+  })
+
+  it('skips inactive weeks', () => {
+    const rule: RecurrenceRule = { freq: 'weekly', interval: 2, byWeekday: [1] }
+    const monday = new Date(2026, 9, 19)
+    expect(getNextOccurrence(rule, monday, monday)).toEqual(new Date(2026, 10, 2))
+  })
+})
+
+describe('yearly rules', () => {
+  it('return to Feb 29 in leap years', () => {
+    const rule = anchorRecurrence({ freq: 'yearly', interval: 1 }, new Date(2028, 1, 29))
+    expect(rule).toEqual({ freq: 'yearly', interval: 1, byMonth: 2, byMonthDay: 29 })
+
+    const task = makeTask('2028-02-29', rule)
+    expect(completeRepeatedly(task, 4, 'UTC')).toEqual(['2029-02-28', '2030-02-28', '2031-02-28', '2032-02-29'])
+    expect(describeRecurrence(rule, new Date(2029, 1, 28))).toBe('Every year on Feb 29')
+    expect(toRRuleString(rule)).toBe('RRULE:FREQ=YEARLY;INTERVAL=1;BYMONTH=2;BYMONTHDAY=29')
+  })
+})
+
+describe('across time zones', () => {
+  beforeEach(() => {
+    const storage = new Map<string, string>()
+    vi.stubGlobal('localStorage', {
+      getItem: (key: string) => storage.get(key) ?? null,
+      setItem: (key: string, value: string) => storage.set(key, value),
+      removeItem: (key: string) => storage.delete(key),
+    })
+    saveTimeZoneSetting('Asia/Tokyo')
+  })
+
+  afterEach(() => {
+    saveTimeZoneSetting(null)
+    vi.unstubAllGlobals()
+  })
+
+  it('keeps a weekly series on its weekday in the task zone', () => {
+    const rule: RecurrenceRule = { freq: 'weekly', interval: 1, byWeekday: [1] }
+    // Monday 09:00 in Tokyo is still Sunday in the Americas
+    const task = makeTask('2026-10-19', rule, '09:00', 'Asia/Tokyo')
+    expect(getSeriesDay(task)).toEqual(new Date(2026, 9, 19))
+    expect(completeRepeatedly(task, 3, 'Asia/Tokyo')).toEqual(['2026-10-26', '2026-11-02', '2026-11-09'])
+  })
+
+  it('keeps the wall-clock time across daylight saving changes', () => {
+    const task = makeTask('2026-10-19', { freq: 'weekly', interval: 1, byWeekday: [1] }, '09:00', 'Europe/Berlin')
+    const [, next] = advanceRecurringTask(task, { ...task, completed: true, status: 'completed' })
+    // Berlin leaves summer time on 25 October
+    expect(task.dueDate.toISOString()).toBe('2026-10-19T07:00:00.000Z')
+    expect(next.dueDate.toISOString()).toBe('2026-10-26T08:00:00.000Z')
+  })
+
+  it('lists occurrences on the days of the active zone', () => {
+    const task = makeTask('2026-10-19', { freq: 'daily', interval: 1 }, '09:00', 'Asia/Tokyo')
+    const start = new Date('2026-10-20T00:00:00+09:00')
+    const end = new Date('2026-10-22T23:59:59+09:00')
+    expect(getOccurrencesBetween(task, start, end).map(d => d.toISOString())).toEqual([
+      '2026-10-20T00:00:00.000Z',
+      '2026-10-21T00:00:00.000Z',
+      '2026-10-22T00:00:00.000Z',
+    ])
+  })
+})
+
+describe('advanceRecurringTask', () => {
+  it('drops the rule from the completed record and resets the next checklist', () => {
+    const task = {
+      ...makeTask('2026-10-19', { freq: 'daily', interval: 1 }),
+      subtasks: [{ id: 's1', title: 'Step', completed: true, subtasks: [{ id: 's2', title: 'Nested', completed: true }] }],
+    }
+    const [completed, next] = advanceRecurringTask(task, { ...task, completed: true, status: 'completed' })
+    expect(completed.recurrence).toBeUndefined()
+    expect(next.recurrence).toEqual(task.recurrence)
+    expect(next.subtasks?.[0]).toMatchObject({ title: 'Step', completed: false })
+    expect(next.subtasks?.[0].subtasks?.[0]).toMatchObject({ title: 'Nested', completed: false })
+    expect(next.subtasks?.[0].id).not.toBe('s1')
+  })
+
+  it('leaves tasks that were not just completed alone', () => {
+    const task = makeTask('2026-10-19', { freq: 'daily', interval: 1 })
+    expect(advanceRecurringTask(task, { ...task, title: 'Renamed' })).toEqual([{ ...task, title: 'Renamed' }])
+  })
+})
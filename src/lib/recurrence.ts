@@ -0,0 +1,284 @@
+/**
+ * Recurrence Engine
+ * Expands RRULE-style recurrence rules into concrete occurrence dates
+ *
+ * Only the next pending occurrence of a series is stored as a Task. Later
+ * occurrences are computed on demand so views can preview them without
+ * writing duplicate records.
+ *
+ * Rules are evaluated on calendar days, not instants: a series day is a
+ * local Date at midnight standing for the task's due day in its own time
+ * zone (see lib/due-time), so "every Monday" means Monday where the task
+ * is due even when the device is in another zone. Occurrence instants are
+ * rebuilt from those days with the task's due time.
+ */
+
+import {
+  addDays,
+  differenceInCalendarDays,
+  differenceInCalendarMonths,
+  differenceInCalendarWeeks,
+  differenceInCalendarYears,
+  getDaysInMonth,
+} from 'date-fns'
+import { generateId } from '@/lib/utils'
+import { resetSubtasks } from '@/lib/subtasks'
+import {
+  addDaysToKey,
+  getActiveTimeZone,
+  getDayKeyInZone,
+  getDueDayKey,
+  getLocalDayKey,
+  moveDueToDay,
+  type DayKey,
+} from '@/lib/due-time'
+import type { RecurrenceRule, Task } from '@/types'
+
+export interface TaskOccurrence {
+  task: Task
+  date: Date
+}
+
+const WEEKDAY_SHORT = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat']
+const WEEKDAY_LONG = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday']
+const ORDINALS: Record<number, string> = { 1: '1st', 2: '2nd', 3: '3rd', 4: '4th', [-1]: 'last' }
+
+export const WEEKDAYS = [1, 2, 3, 4, 5]
+
+function toSeriesDay(key: DayKey): Date {
+  const [year, month, day] = key.split('-').map(Number)
+  return new Date(year, month - 1, day)
+}
+
+/**
+ * The calendar day a task is due on in its own zone, as a series day for
+ * rule math and descriptions
+ */
+export function getSeriesDay(task: Task): Date {
+  return toSeriesDay(getDueDayKey(task, task.timeZone))
+}
+
+/** Due date of the series occurrence on `day`, keeping the task's time and zone */
+function getOccurrenceDate(task: Task, day: Date): Date {
+  return moveDueToDay(task, getLocalDayKey(day), task.timeZone).dueDate
+}
+
+/**
+ * Position of a date's weekday within its month: 1-4, or -1 when it falls
+ * in the last seven days (so "5th Friday" becomes "last Friday").
+ */
+export function getWeekdayPosition(date: Date): number {
+  const nth = Math.ceil(date.getDate() / 7)
+  return nth === 5 ? -1 : nth
+}
+
+function matchesSetPos(date: Date, setPos: number): boolean {
+  if (setPos === -1) return date.getDate() + 7 > getDaysInMonth(date)
+  return Math.ceil(date.getDate() / 7) === setPos
+}
+
+/**
+ * Re-derive the anchor-dependent fields of a rule after the due date changes:
+ * the monthly day/weekday position, the default weekly day and the yearly
+ * date. Occurrences clamped to a shorter month (Feb 29 in a common year)
+ * keep the rule's day, so the series returns to it when it can.
+ */
+export function anchorRecurrence(rule: RecurrenceRule, anchor: Date): RecurrenceRule {
+  const interval = Math.max(1, Math.floor(rule.interval) || 1)
+
+  if (rule.freq === 'monthly') {
+    if (rule.bySetPos) {
+      return { freq: 'monthly', interval, byWeekday: [anchor.getDay()], bySetPos: getWeekdayPosition(anchor) }
+    }
+    return { freq: 'monthly', interval, byMonthDay: anchor.getDate() }
+  }
+
+  if (rule.freq === 'weekly') {
+    return { freq: 'weekly', interval, byWeekday: rule.byWeekday?.length ? rule.byWeekday : [anchor.getDay()] }
+  }
+
+  if (rule.freq === 'yearly') {
+    return { freq: 'yearly', interval, byMonth: anchor.getMonth() + 1, byMonthDay: anchor.getDate() }
+  }
+
+  return { freq: rule.freq, interval }
+}
+
+/**
+ * Check whether a calendar day is an occurrence of the rule
+ */
+export function isOccurrenceDay(rule: RecurrenceRule, anchor: Date, day: Date): boolean {
+  const interval = Math.max(1, rule.interval || 1)
+  if (differenceInCalendarDays(day, anchor) < 0) return false
+
+  switch (rule.freq) {
+    case 'daily':
+      return differenceInCalendarDays(day, anchor) % interval === 0
+
+    case 'weekly': {
+      const weekdays = rule.byWeekday?.length ? rule.byWeekday : [anchor.getDay()]
+      return (
+        differenceInCalendarWeeks(day, anchor) % interval === 0 &&
+        weekdays.includes(day.getDay())
+      )
+    }
+
+    case 'monthly': {
+      if (differenceInCalendarMonths(day, anchor) % interval !== 0) return false
+      if (rule.bySetPos && rule.byWeekday?.length) {
+        return rule.byWeekday.includes(day.getDay()) && matchesSetPos(day, rule.bySetPos)
+      }
+      const monthDay = rule.byMonthDay || anchor.getDate()
+      return day.getDate() === Math.min(monthDay, getDaysInMonth(day))
+    }
+
+    case 'yearly': {
+      const month = rule.byMonth ? rule.byMonth - 1 : anchor.getMonth()
+      const monthDay = rule.byMonthDay || anchor.getDate()
+      return (
+        differenceInCalendarYears(day, anchor) % interval === 0 &&
+        day.getMonth() === month &&
+        day.getDate() === Math.min(monthDay, getDaysInMonth(day))
+      )
+    }
+
+    default:
+      return false
+  }
+}
+
+/**
+ * First series day strictly after the series day `after`
+ */
+export function getNextOccurrence(rule: RecurrenceRule, anchor: Date, after: Date): Date | null {
+  // Enough days to cover one full period of the coarsest frequency
+  const horizon = 366 * Math.max(1, rule.interval || 1) + 31
+  let day = addDays(after, 1)
+
+  for (let i = 0; i < horizon; i++) {
+    if (isOccurrenceDay(rule, anchor, day)) return day
+    day = addDays(day, 1)
+  }
+
+  return null
+}
+
+/**
+ * Due dates of a recurring task's occurrences falling on the days from
+ * `start` to `end` (inclusive) in the active zone, excluding the stored
+ * dueDate itself which already renders as the real task.
+ */
+export function getOccurrencesBetween(task: Task, start: Date, end: Date, limit = 50): Date[] {
+  if (!task.recurrence) return []
+
+  const zone = getActiveTimeZone()
+  const fromKey = getDayKeyInZone(start, zone)
+  const endKey = getDayKeyInZone(end, zone)
+  const anchor = getSeriesDay(task)
+  // A day early, so a timed task due in a zone ahead of this one still lands in range
+  const first = toSeriesDay(addDaysToKey(fromKey, -1))
+  let cursor = differenceInCalendarDays(anchor, first) >= 0 ? anchor : addDays(first, -1)
+
+  const dates: Date[] = []
+  while (dates.length < limit) {
+    const next = getNextOccurrence(task.recurrence, anchor, cursor)
+    if (!next) break
+    const date = getOccurrenceDate(task, next)
+    const key = getDayKeyInZone(date, zone)
+    if (key > endKey) break
+    if (key >= fromKey) dates.push(date)
+    cursor = next
+  }
+
+  return dates
+}
+
+/**
+ * Virtual occurrences for every incomplete recurring task in a date range
+ */
+export function expandOccurrences(tasks: Task[], start: Date, end: Date): TaskOccurrence[] {
+  return tasks
+    .filter(t => t.recurrence && !t.completed)
+    .flatMap(task => getOccurrencesBetween(task, start, end).map(date => ({ task, date })))
+    .sort((a, b) => a.date.getTime() - b.date.getTime())
+}
+
+/**
+ * Handle a task update that may complete a recurring occurrence.
+ * Returns the updated task plus, when it just became completed, the next
+ * occurrence carrying the rule forward. The completed record drops its rule
+ * so un-completing and re-completing it cannot spawn a duplicate.
+ */
+export function advanceRecurringTask(previous: Task, updated: Task): Task[] {
+  if (!updated.recurrence || previous.completed || !updated.completed) {
+    return [updated]
+  }
+
+  const anchor = getSeriesDay(updated)
+  const nextDay = getNextOccurrence(updated.recurrence, anchor, anchor)
+  const { recurrence, ...completed } = updated
+  if (!nextDay) return [updated]
+
+  const next: Task = {
+    ...completed,
+    id: generateId(),
+    completed: false,
+    status: 'not-started',
+    dueDate: getOccurrenceDate(updated, nextDay),
+    createdAt: new Date(),
+    subtasks: resetSubtasks(updated.subtasks),
+    recurrence,
+  }
+
+  return [completed, next]
+}
+
+/**
+ * Human-readable summary, e.g. "Every 2 weeks on Mon, Thu"
+ */
+export function describeRecurrence(rule: RecurrenceRule, anchor: Date): string {
+  const interval = Math.max(1, rule.interval || 1)
+
+  switch (rule.freq) {
+    case 'daily':
+      return interval === 1 ? 'Every day' : `Every ${interval} days`
+
+    case 'weekly': {
+      const weekdays = rule.byWeekday?.length ? [...rule.byWeekday].sort((a, b) => a - b) : [anchor.getDay()]
+      if (interval === 1 && weekdays.join() === WEEKDAYS.join()) return 'Every weekday'
+      const days = weekdays.map(d => WEEKDAY_SHORT[d]).join(', ')
+      return interval === 1 ? `Every week on ${days}` : `Every ${interval} weeks on ${days}`
+    }
+
+    case 'monthly': {
+      const prefix = interval === 1 ? 'Monthly' : `Every ${interval} months`
+      if (rule.bySetPos && rule.byWeekday?.length) {
+        return `${prefix} on the ${ORDINALS[rule.bySetPos]} ${WEEKDAY_LONG[rule.byWeekday[0]]}`
+      }
+      return `${prefix} on day ${rule.byMonthDay || anchor.getDate()}`
+    }
+
+    case 'yearly': {
+      // 2000 is a leap year, so a Feb 29 rule still reads as Feb 29
+      const date = (rule.byMonth && rule.byMonthDay ? new Date(2000, rule.byMonth - 1, rule.byMonthDay) : anchor)
+        .toLocaleDateString('en-US', { month: 'short', day: 'numeric' })
+      return interval === 1 ? `Every year on ${date}` : `Every ${interval} years on ${date}`
+    }
+
+    default:
+      return 'Repeats'
+  }
+}
+
+/**
+ * Serialize to an RFC 5545 RRULE string for export/debugging
+ */
+export function toRRuleString(rule: RecurrenceRule): string {
+  const codes = ['SU', 'MO', 'TU', 'WE', 'TH', 'FR', 'SA']
+  const parts = [`FREQ=${rule.freq.toUpperCase()}`, `INTERVAL=${Math.max(1, rule.interval || 1)}`]
+  if (rule.byWeekday?.length) parts.push(`BYDAY=${rule.byWeekday.map(d => codes[d]).join(',')}`)
+  if (rule.byMonth) parts.push(`BYMONTH=${rule.byMonth}`)
+  if (rule.byMonthDay) parts.push(`BYMONTHDAY=${rule.byMonthDay}`)
+  if (rule.bySetPos) parts.push(`BYSETPOS=${rule.bySetPos}`)
+  return `RRULE:${parts.join(';')}`
+}
@@ -0,0 +1,60 @@
+/**
+ * Response Schemas
+ *
+ * Bundles `response_schemas/*.json` at build time and looks them up by agent
+ * ID, so agent results can be validated against the shape each agent was
+ * tested with.
+ */
+
+import { validateAgainstShape, type SchemaShape, type SchemaValidationOptions, type SchemaValidationResult } from '@/lib/schema-validator'
+import type { NormalizedAgentResponse } from '@/utils/aiAgent'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface ResponseSchemaFile {
+  agent_name: string
+  agent_id: string
+  description?: string
+  response_schema: {
+    status?: SchemaShape
+    result: SchemaShape
+    metadata?: SchemaShape
+  }
+  example_response?: NormalizedAgentResponse
+}
+
+// =============================================================================
+// Registry
+// =============================================================================
+
+const schemaModules = import.meta.glob<ResponseSchemaFile>('/response_schemas/*.json', {
+  eager: true,
+  import: 'default',
+})
+
+/** Schema files keyed by path, e.g. "response_schemas/task_assistant_agent_response.json" */
+export const RESPONSE_SCHEMAS: Record<string, ResponseSchemaFile> = Object.fromEntries(
+  Object.entries(schemaModules).map(([path, schema]) => [path.replace(/^\//, ''), schema])
+)
+
+export function getResponseSchema(agentId: string): ResponseSchemaFile | null {
+  return Object.values(RESPONSE_SCHEMAS).find(schema => schema.agent_id === agentId) || null
+}
+
+/**
+ * Validate an agent's `result` against its response schema. Agents without a
+ * schema file pass through unchanged.
+ */
+export function validateAgentResult<T = Record<string, any>>(
+  agentId: string,
+  result: unknown,
+  options?: SchemaValidationOptions
+): SchemaValidationResult<T> {
+  const schema = getResponseSchema(agentId)
+  if (!schema) {
+    return { data: (result ?? {}) as T, valid: true, errors: [] }
+  }
+  return validateAgainstShape<T>(result, schema.response_schema.result, options)
+}
@@ -0,0 +1,71 @@
+import { describe, expect, it, vi } from 'vitest'
+import { getSchemaDefault, validateAgainstShape, type SchemaShape } from '@/lib/schema-validator'
+
+const shape: SchemaShape = {
+  answer: 'string',
+  confidence: 'number',
+  tips: ['string'],
+  actions: [{ type: 'string', urgent: 'boolean' }],
+}
+
+describe('validateAgainstShape', () => {
+  it('accepts data that already matches', () => {
+    const value = { answer: 'Yes', confidence: 0.9, tips: ['One'], actions: [{ type: 'move', urgent: false }] }
+    const result = validateAgainstShape(value, shape)
+    expect(result).toEqual({ data: value, valid: true, errors: [] })
+  })
+
+  it('coerces safe mismatches', () => {
+    const { data, valid, errors } = validateAgainstShape(
+      { answer: 42, confidence: '0.5', tips: 'Only tip', actions: [{ type: 'move', urgent: 'true' }] },
+      shape
+    )
+    expect(valid).toBe(false)
+    expect(data).toEqual({ answer: '42', confidence: 0.5, tips: ['Only tip'], actions: [{ type: 'move', urgent: true }] })
+    expect(errors.map(e => [e.code, e.path])).toEqual([
+      ['coerced', 'result.answer'],
+      ['coerced', 'result.confidence'],
+      ['coerced', 'result.tips'],
+      ['coerced', 'result.actions[0].urgent'],
+    ])
+  })
+
+  it('fills missing fields with defaults and drops items it cannot use', () => {
+    const { data, errors } = validateAgainstShape({ answer: null, actions: [null, 'move', { type: 'done' }] }, shape)
+    expect(data).toEqual({ answer: '', confidence: 0, tips: [], actions: [{ type: 'done', urgent: false }] })
+    expect(errors.map(e => [e.code, e.path])).toEqual([
+      ['missing', 'result.answer'],
+      ['missing', 'result.confidence'],
+      ['missing', 'result.tips'],
+      ['invalid_item', 'result.actions[0]'],
+      ['invalid_item', 'result.actions[1]'],
+      ['missing', 'result.actions[2].urgent'],
+    ])
+  })
+
+  it('replaces values of the wrong kind and keeps undeclared fields', () => {
+    const { data, errors } = validateAgainstShape({ answer: { text: 'Yes' }, confidence: 'high', extra: 1 }, shape, { path: 'body' })
+    expect(data).toMatchObject({ answer: '', confidence: 0, extra: 1 })
+    expect(errors[0]).toMatchObject({ code: 'type_mismatch', path: 'body.answer', expected: 'string', received: 'object' })
+    expect(errors[1]).toMatchObject({ code: 'type_mismatch', path: 'body.confidence', expected: 'number', received: 'string' })
+  })
+
+  it('reports each deviation as a validation_error event', () => {
+    const onValidationError = vi.fn()
+    validateAgainstShape({ answer: 'Yes', tips: 'One' }, { answer: 'string', tips: ['string'] }, { requestId: 'req-1', onValidationError })
+    expect(onValidationError).toHaveBeenCalledTimes(1)
+    expect(onValidationError.mock.calls[0][0]).toMatchObject({
+      type: 'validation_error',
+      request_id: 'req-1',
+      context: 'result.tips',
+      data: { code: 'coerced', expected: 'array', received: 'string' },
+    })
+  })
+})
+
+describe('getSchemaDefault', () => {
+  it('builds defaults for every shape', () => {
+    expect(getSchemaDefault(shape)).toEqual({ answer: '', confidence: 0, tips: [], actions: [] })
+    expect(getSchemaDefault('boolean')).toBe(false)
+  })
+})
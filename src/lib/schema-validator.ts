@@ -0,0 +1,198 @@
+/**
+ * Agent Result Validator
+ *
+ * Checks agent results against the shape notation used in
+ * `response_schemas/*.json`, where each leaf names its type:
+ *
+ * ```json
+ * { "answer": "string", "tips": ["string"], "actions": [{ "type": "string" }] }
+ * ```
+ *
+ * Validation never throws and always returns data in the declared shape:
+ * - Safe mismatches are coerced (a string where an array is expected becomes
+ *   a one-item array, numbers/booleans become strings, numeric strings become
+ *   numbers)
+ * - Missing or null fields are filled with defaults ('', 0, false, [], {})
+ * - Array items that cannot be coerced are dropped
+ *
+ * Every deviation is reported as a typed error and, through
+ * `onValidationError`, as a `validation_error` event.
+ */
+
+import type { ValidationErrorEvent } from '@/types'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type SchemaPrimitive = 'string' | 'number' | 'boolean'
+
+export type SchemaShape = SchemaPrimitive | SchemaShape[] | { [key: string]: SchemaShape }
+
+export type SchemaValidationCode = 'missing' | 'coerced' | 'type_mismatch' | 'invalid_item'
+
+export interface SchemaValidationError {
+  code: SchemaValidationCode
+  /** Dotted path to the field, e.g. "result.actions[0].type" */
+  path: string
+  expected: string
+  received: string
+  message: string
+}
+
+export interface SchemaValidationResult<T> {
+  /** The input coerced into the schema shape, with defaults filled */
+  data: T
+  /** True when the input already matched the shape exactly */
+  valid: boolean
+  errors: SchemaValidationError[]
+}
+
+export interface SchemaValidationOptions {
+  /** Path prefix for error messages (default "result") */
+  path?: string
+  /** Request ID stamped on emitted validation_error events */
+  requestId?: string
+  onValidationError?: (event: ValidationErrorEvent) => void
+}
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+function describeShape(shape: SchemaShape): string {
+  if (Array.isArray(shape)) return 'array'
+  if (typeof shape === 'object') return 'object'
+  return shape
+}
+
+function describeValue(value: unknown): string {
+  if (value === null) return 'null'
+  if (Array.isArray(value)) return 'array'
+  return typeof value
+}
+
+/**
+ * Default value for a shape: '', 0, false, [] or an object of defaults
+ */
+export function getSchemaDefault(shape: SchemaShape): unknown {
+  if (Array.isArray(shape)) return []
+  if (typeof shape === 'object') {
+    return Object.fromEntries(Object.entries(shape).map(([key, child]) => [key, getSchemaDefault(child)]))
+  }
+  if (shape === 'number') return 0
+  if (shape === 'boolean') return false
+  return ''
+}
+
+/**
+ * Convert a validation error into the shared SSE validation_error event
+ */
+export function toValidationErrorEvent(error: SchemaValidationError, requestId = ''): ValidationErrorEvent {
+  return {
+    type: 'validation_error',
+    request_id: requestId,
+    timestamp: new Date().toISOString(),
+    context: error.path,
+    error: error.message,
+    data: { code: error.code, expected: error.expected, received: error.received },
+  }
+}
+
+// =============================================================================
+// Validation
+// =============================================================================
+
+function coerce(value: unknown, shape: SchemaShape, path: string, errors: SchemaValidationError[]): unknown {
+  const report = (code: SchemaValidationCode, message: string) => {
+    errors.push({ code, path, expected: describeShape(shape), received: describeValue(value), message })
+  }
+
+  if (value === undefined || value === null) {
+    report('missing', `${path} is missing; using the default`)
+    return getSchemaDefault(shape)
+  }
+
+  // Arrays
+  if (Array.isArray(shape)) {
+    const itemShape = shape[0] ?? 'string'
+    if (!Array.isArray(value)) {
+      if (typeof value === 'object') {
+        report('type_mismatch', `${path} should be an array; using the default`)
+        return []
+      }
+      report('coerced', `${path} should be an array; wrapped the ${describeValue(value)} in one`)
+      return [coerce(value, itemShape, `${path}[0]`, errors)]
+    }
+
+    return value.flatMap((item, i) => {
+      const itemPath = `${path}[${i}]`
+      if (item === null || item === undefined) {
+        errors.push({ code: 'invalid_item', path: itemPath, expected: describeShape(itemShape), received: describeValue(item), message: `${itemPath} is empty; dropped` })
+        return []
+      }
+      const isObjectShape = typeof itemShape === 'object' && !Array.isArray(itemShape)
+      if (isObjectShape && (typeof item !== 'object' || Array.isArray(item))) {
+        errors.push({ code: 'invalid_item', path: itemPath, expected: 'object', received: describeValue(item), message: `${itemPath} should be an object; dropped` })
+        return []
+      }
+      return [coerce(item, itemShape, itemPath, errors)]
+    })
+  }
+
+  // Objects - declared fields are checked, extra fields pass through
+  if (typeof shape === 'object') {
+    if (typeof value !== 'object' || Array.isArray(value)) {
+      report('type_mismatch', `${path} should be an object; using the default`)
+      return getSchemaDefault(shape)
+    }
+    const result: Record<string, unknown> = { ...(value as Record<string, unknown>) }
+    for (const [key, child] of Object.entries(shape)) {
+      result[key] = coerce((value as Record<string, unknown>)[key], child, `${path}.${key}`, errors)
+    }
+    return result
+  }
+
+  // Primitives
+  if (typeof value === shape) return value
+
+  if (shape === 'string' && (typeof value === 'number' || typeof value === 'boolean')) {
+    report('coerced', `${path} should be a string; converted the ${typeof value}`)
+    return String(value)
+  }
+  if (shape === 'string' && Array.isArray(value) && value.every(v => typeof v === 'string')) {
+    report('coerced', `${path} should be a string; joined the array`)
+    return value.join('\n')
+  }
+  if (shape === 'number' && typeof value === 'string' && value.trim() !== '' && !isNaN(Number(value))) {
+    report('coerced', `${path} should be a number; parsed the string`)
+    return Number(value)
+  }
+  if (shape === 'boolean' && (value === 'true' || value === 'false')) {
+    report('coerced', `${path} should be a boolean; parsed the string`)
+    return value === 'true'
+  }
+
+  report('type_mismatch', `${path} should be a ${shape}, got ${describeValue(value)}; using the default`)
+  return getSchemaDefault(shape)
+}
+
+/**
+ * Coerce a value into a schema shape and report every deviation
+ */
+export function validateAgainstShape<T = Record<string, any>>(
+  value: unknown,
+  shape: SchemaShape,
+  options: SchemaValidationOptions = {}
+): SchemaValidationResult<T> {
+  const errors: SchemaValidationError[] = []
+  const data = coerce(value, shape, options.path || 'result', errors) as T
+
+  if (options.onValidationError) {
+    for (const error of errors) {
+      options.onValidationError(toValidationErrorEvent(error, options.requestId))
+    }
+  }
+
+  return { data, valid: errors.length === 0, errors }
+}
@@ -0,0 +1,224 @@
+/**
+ * Search Index
+ *
+ * Fuzzy search over tasks, categories and chat history for the command
+ * palette.
+ *
+ * ## Incremental updates
+ * Tasks are updated immutably, so `updateSearchIndex` re-indexes only the
+ * tasks whose object changed since the previous index and reuses the rest.
+ *
+ * ## Ranking
+ * Matches are scored on how tightly the query's characters match (exact
+ * substring > word starts > scattered subsequence), then boosted for
+ * overdue tasks and recently created or updated items. Completed tasks sink.
+ */
+
+import type { ChatThread } from '@/lib/chat-history'
+import { isOverdue } from '@/lib/overdue'
+import { flattenSubtasks } from '@/lib/subtasks'
+import type { Task } from '@/types'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type SearchDocumentKind = 'task' | 'category' | 'chat'
+
+export interface SearchDocument {
+  /** Unique across kinds, e.g. "task:abc" */
+  key: string
+  kind: SearchDocumentKind
+  /** ID of the task, category name or chat thread */
+  refId: string
+  title: string
+  subtitle?: string
+  /** Lowercased searchable text */
+  text: string
+  /** Creation time for tasks, last update for chats */
+  activityAt?: Date
+  /** Source task, for task documents */
+  task?: Task
+}
+
+export interface SearchIndex {
+  documents: Map<string, SearchDocument>
+  /** Task objects the task documents were built from, for change detection */
+  taskSources: Map<string, Task>
+  threadSources: Map<string, ChatThread>
+}
+
+export interface SearchResult {
+  document: SearchDocument
+  score: number
+}
+
+export interface SearchOptions {
+  now?: Date
+  limit?: number
+}
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+const DAY_MS = 24 * 60 * 60 * 1000
+/** Items created/updated within this window get a recency boost */
+const RECENT_WINDOW_DAYS = 7
+const OVERDUE_BOOST = 25
+const RECENT_BOOST = 15
+const COMPLETED_PENALTY = 20
+const DEFAULT_LIMIT = 20
+
+export const EMPTY_SEARCH_INDEX: SearchIndex = {
+  documents: new Map(),
+  taskSources: new Map(),
+  threadSources: new Map(),
+}
+
+// =============================================================================
+// Indexing
+// =============================================================================
+
+const normalize = (text: string) => text.toLowerCase().replace(/\s+/g, ' ').trim()
+
+function taskDocument(task: Task): SearchDocument {
+  const subtasks = flattenSubtasks(task.subtasks).map(s => s.title).join(' ')
+  return {
+    key: `task:${task.id}`,
+    kind: 'task',
+    refId: task.id,
+    title: task.title,
+    subtitle: task.category,
+    text: normalize(`${task.title} ${task.category} ${subtasks}`),
+    activityAt: task.createdAt,
+    task,
+  }
+}
+
+function threadDocument(thread: ChatThread): SearchDocument {
+  const messages = thread.messages.map(m => m.content).join(' ')
+  return {
+    key: `chat:${thread.id}`,
+    kind: 'chat',
+    refId: thread.id,
+    title: thread.title,
+    subtitle: `${thread.messages.length} message${thread.messages.length === 1 ? '' : 's'}`,
+    text: normalize(`${thread.title} ${messages}`),
+    activityAt: thread.updatedAt,
+  }
+}
+
+function categoryDocument(category: string, taskCount: number): SearchDocument {
+  return {
+    key: `category:${category}`,
+    kind: 'category',
+    refId: category,
+    title: category,
+    subtitle: `${taskCount} task${taskCount === 1 ? '' : 's'}`,
+    text: normalize(category),
+  }
+}
+
+/**
+ * Build the next index from the previous one, re-indexing only tasks and
+ * threads whose objects changed. Categories are cheap and always rebuilt.
+ */
+export function updateSearchIndex(
+  previous: SearchIndex,
+  tasks: Task[],
+  threads: ChatThread[]
+): SearchIndex {
+  const documents = new Map<string, SearchDocument>()
+  const taskSources = new Map<string, Task>()
+  const threadSources = new Map<string, ChatThread>()
+
+  for (const task of tasks) {
+    const key = `task:${task.id}`
+    const unchanged = previous.taskSources.get(task.id) === task && previous.documents.get(key)
+    documents.set(key, unchanged || taskDocument(task))
+    taskSources.set(task.id, task)
+  }
+
+  for (const thread of threads) {
+    const key = `chat:${thread.id}`
+    const unchanged = previous.threadSources.get(thread.id) === thread && previous.documents.get(key)
+    documents.set(key, unchanged || threadDocument(thread))
+    threadSources.set(thread.id, thread)
+  }
+
+  const categoryCounts = new Map<string, number>()
+  for (const task of tasks) categoryCounts.set(task.category, (categoryCounts.get(task.category) || 0) + 1)
+  for (const [category, count] of categoryCounts) {
+    const document = categoryDocument(category, count)
+    documents.set(document.key, document)
+  }
+
+  return { documents, taskSources, threadSources }
+}
+
+// =============================================================================
+// Scoring
+// =============================================================================
+
+/**
+ * How well `query` matches `text`, or null when it doesn't. Both are
+ * expected lowercased. Every query character must appear in order; runs of
+ * consecutive characters and matches at word starts score higher.
+ */
+export function fuzzyScore(query: string, text: string): number | null {
+  if (!query) return 0
+
+  const substringAt = text.indexOf(query)
+  if (substringAt !== -1) {
+    const atWordStart = substringAt === 0 || text[substringAt - 1] === ' '
+    return 100 + (atWordStart ? 20 : 0) - Math.min(substringAt, 20)
+  }
+
+  let score = 0
+  let run = 0
+  let position = 0
+  for (const char of query) {
+    if (char === ' ') continue
+    const found = text.indexOf(char, position)
+    if (found === -1) return null
+    run = found === position && position > 0 ? run + 1 : 0
+    score += 1 + run * 2 + (found === 0 || text[found - 1] === ' ' ? 3 : 0)
+    position = found + 1
+  }
+  return Math.min(score, 90)
+}
+
+function boost(document: SearchDocument, now: Date): number {
+  let value = 0
+  if (document.task && isOverdue(document.task, now)) value += OVERDUE_BOOST
+  if (document.activityAt) {
+    const ageDays = (now.getTime() - document.activityAt.getTime()) / DAY_MS
+    if (ageDays >= 0 && ageDays < RECENT_WINDOW_DAYS) value += RECENT_BOOST * (1 - ageDays / RECENT_WINDOW_DAYS)
+  }
+  if (document.task?.completed) value -= COMPLETED_PENALTY
+  return value
+}
+
+/**
+ * Ranked matches for a query. An empty query lists overdue and recent
+ * tasks first.
+ */
+export function searchIndex(index: SearchIndex, query: string, options: SearchOptions = {}): SearchResult[] {
+  const now = options.now || new Date()
+  const normalized = normalize(query)
+  const results: SearchResult[] = []
+
+  for (const document of index.documents.values()) {
+    if (!normalized && document.kind !== 'task') continue
+    const match = fuzzyScore(normalized, document.text)
+    if (match === null) continue
+    // Title matches outrank matches in category/subtask/message text
+    const titleMatch = normalized ? fuzzyScore(normalized, normalize(document.title)) : null
+    results.push({ document, score: Math.max(match, titleMatch !== null ? titleMatch + 10 : 0) + boost(document, now) })
+  }
+
+  return results
+    .sort((a, b) => b.score - a.score || a.document.title.localeCompare(b.document.title))
+    .slice(0, options.limit ?? DEFAULT_LIMIT)
+}
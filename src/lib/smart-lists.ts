@@ -0,0 +1,123 @@
+/**
+ * Smart Lists
+ * Named filter queries saved by the user and shown next to the built-in views
+ *
+ * Only the query text is stored; it is parsed again whenever the list is
+ * shown, so relative dates ("due:<7d") and counts stay live. Queries name
+ * categories and projects, so renaming one rewrites the lists that use it.
+ */
+
+import { generateId } from '@/lib/utils'
+import { parseFilterQuery, renameQueryValue } from '@/lib/filter-query'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface SmartList {
+  id: string
+  name: string
+  /** Filter query, e.g. "priority:high status:!completed" */
+  query: string
+  createdAt: Date
+}
+
+export interface SmartListResult {
+  success: boolean
+  lists: SmartList[]
+  /** The created or updated list */
+  list?: SmartList
+  error?: string
+}
+
+// =============================================================================
+// Editing
+// =============================================================================
+
+const SMART_LISTS_STORAGE_KEY = 'taskflow_smart_lists'
+
+function validate(lists: SmartList[], name: string, query: string, exceptId?: string): string | undefined {
+  if (!name.trim()) return 'Give the list a name'
+  if (lists.some(l => l.id !== exceptId && l.name.toLowerCase() === name.trim().toLowerCase())) {
+    return `A smart list named "${name.trim()}" already exists`
+  }
+  if (!query.trim()) return 'Enter a filter query'
+  const { errors } = parseFilterQuery(query)
+  if (errors.length > 0) return errors[0].message
+  return undefined
+}
+
+export function createSmartList(lists: SmartList[], name: string, query: string): SmartListResult {
+  const error = validate(lists, name, query)
+  if (error) return { success: false, lists, error }
+
+  const list: SmartList = { id: generateId(), name: name.trim(), query: query.trim(), createdAt: new Date() }
+  return { success: true, lists: [...lists, list], list }
+}
+
+export function updateSmartList(lists: SmartList[], id: string, name: string, query: string): SmartListResult {
+  const existing = lists.find(l => l.id === id)
+  if (!existing) return { success: false, lists, error: 'Smart list not found' }
+
+  const error = validate(lists, name, query, id)
+  if (error) return { success: false, lists, error }
+
+  const list: SmartList = { ...existing, name: name.trim(), query: query.trim() }
+  return { success: true, lists: lists.map(l => (l.id === id ? list : l)), list }
+}
+
+export function deleteSmartList(lists: SmartList[], id: string): SmartList[] {
+  return lists.filter(l => l.id !== id)
+}
+
+/**
+ * Follow a category or project rename in every saved query (see
+ * `renameQueryValue`). Returns the same array when no query used the name.
+ */
+export function renameInSmartLists(
+  lists: SmartList[],
+  field: 'category' | 'project',
+  from: string,
+  to: string,
+  keepOld = false
+): SmartList[] {
+  let changed = false
+  const next = lists.map(list => {
+    const query = renameQueryValue(list.query, field, from, to, keepOld)
+    if (query === list.query) return list
+    changed = true
+    return { ...list, query }
+  })
+  return changed ? next : lists
+}
+
+// =============================================================================
+// Persistence
+// =============================================================================
+
+export function loadSmartLists(): SmartList[] {
+  try {
+    const saved = localStorage.getItem(SMART_LISTS_STORAGE_KEY)
+    if (!saved) return []
+    const parsed = JSON.parse(saved)
+    if (!Array.isArray(parsed)) return []
+    return parsed
+      .filter((l: any) => l && l.id && typeof l.name === 'string' && typeof l.query === 'string')
+      .map((l: any): SmartList => ({
+        id: String(l.id),
+        name: l.name,
+        query: l.query,
+        createdAt: new Date(l.createdAt || Date.now()),
+      }))
+  } catch {
+    return []
+  }
+}
+
+export function saveSmartLists(lists: SmartList[]): void {
+  try {
+    localStorage.setItem(SMART_LISTS_STORAGE_KEY, JSON.stringify(lists))
+  } catch (error) {
+    console.error('Failed to save smart lists:', error)
+  }
+}
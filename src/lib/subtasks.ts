@@ -0,0 +1,178 @@
+/**
+ * Subtask helpers
+ * Checklist manipulation and parent status rollup for TaskFlow tasks
+ *
+ * Subtasks nest up to `MAX_SUBTASK_DEPTH` levels. A subtask with children
+ * is complete exactly when all of them are, and progress counts the
+ * innermost steps, so a half-done nested step shows as partial progress.
+ */
+
+import { generateId } from '@/lib/utils'
+import type { Subtask, Task, TaskStatus } from '@/types'
+
+export interface SubtaskProgress {
+  completed: number
+  total: number
+  /** 0-100, rounded down */
+  percent: number
+}
+
+/** Levels of nesting, counting top-level subtasks as 1 */
+export const MAX_SUBTASK_DEPTH = 3
+
+// =============================================================================
+// Tree helpers
+// =============================================================================
+
+/** Every subtask at any depth, parents before their children */
+export function flattenSubtasks(subtasks: Subtask[] = []): Subtask[] {
+  return subtasks.flatMap(s => [s, ...flattenSubtasks(s.subtasks)])
+}
+
+/** Subtasks without children: the steps progress is counted in */
+function getLeafSubtasks(subtasks: Subtask[] = []): Subtask[] {
+  return subtasks.flatMap(s => (s.subtasks?.length ? getLeafSubtasks(s.subtasks) : [s]))
+}
+
+function withRolledUpChildren(subtask: Subtask): Subtask {
+  if (!subtask.subtasks?.length) return subtask
+  return { ...subtask, completed: subtask.subtasks.every(s => s.completed) }
+}
+
+function setCompleted(subtask: Subtask, completed: boolean): Subtask {
+  return {
+    ...subtask,
+    completed,
+    ...(subtask.subtasks && { subtasks: subtask.subtasks.map(s => setCompleted(s, completed)) }),
+  }
+}
+
+/**
+ * Replace the subtask with `id` wherever it is nested (or drop it when
+ * `update` returns null), recomputing the completion of its ancestors
+ */
+function updateSubtaskTree(subtasks: Subtask[], id: string, update: (subtask: Subtask) => Subtask | null): Subtask[] {
+  return subtasks.flatMap(subtask => {
+    if (subtask.id === id) {
+      const updated = update(subtask)
+      return updated ? [updated] : []
+    }
+    if (!subtask.subtasks?.length) return [subtask]
+    return [withRolledUpChildren({ ...subtask, subtasks: updateSubtaskTree(subtask.subtasks, id, update) })]
+  })
+}
+
+/**
+ * Fresh, unchecked copies with new IDs, e.g. for a recurring task's next
+ * occurrence
+ */
+export function resetSubtasks(subtasks: Subtask[] = []): Subtask[] {
+  return subtasks.map(s => ({
+    ...s,
+    id: generateId(),
+    completed: false,
+    ...(s.subtasks && { subtasks: resetSubtasks(s.subtasks) }),
+  }))
+}
+
+// =============================================================================
+// Progress and status
+// =============================================================================
+
+/**
+ * Count completed steps for a task's progress bar
+ */
+export function getSubtaskProgress(task: Task): SubtaskProgress {
+  const steps = getLeafSubtasks(task.subtasks)
+  const completed = steps.filter(s => s.completed).length
+  const total = steps.length
+  return {
+    completed,
+    total,
+    percent: total > 0 ? Math.floor((completed / total) * 100) : 0,
+  }
+}
+
+/**
+ * Derive the parent status from its subtasks.
+ *
+ * - every subtask done -> completed
+ * - some subtasks done -> in-progress (unless the user marked it blocked)
+ * - nothing done       -> keeps the current status, except a previously
+ *                         completed parent falls back to not-started
+ */
+export function rollupStatus(task: Task): TaskStatus {
+  const { completed, total } = getSubtaskProgress(task)
+  if (total === 0) return task.status
+
+  if (completed === total) return 'completed'
+  if (completed > 0) {
+    return task.status === 'blocked' ? 'blocked' : 'in-progress'
+  }
+  return task.status === 'completed' ? 'not-started' : task.status
+}
+
+/**
+ * Return a copy of the task with status/completed recomputed from subtasks
+ */
+export function withRolledUpStatus(task: Task): Task {
+  const status = rollupStatus(task)
+  return { ...task, status, completed: status === 'completed' }
+}
+
+/**
+ * Set a task's status directly, keeping the checklist consistent with it:
+ * completing checks every subtask and reopening a completed task unchecks
+ * them, so the next subtask toggle doesn't roll the old status back.
+ */
+export function setTaskStatus(task: Task, status: TaskStatus): Task {
+  const updated: Task = { ...task, status, completed: status === 'completed' }
+  if (status === 'completed') return setAllSubtasks(updated, true)
+  return task.completed ? setAllSubtasks(updated, false) : updated
+}
+
+// =============================================================================
+// Editing
+// =============================================================================
+
+/**
+ * Add a step to the task, or nested under the subtask `parentId`
+ */
+export function addSubtask(task: Task, title: string, parentId?: string): Task {
+  const subtask: Subtask = {
+    id: generateId(),
+    title: title.trim(),
+    completed: false,
+  }
+  const subtasks = parentId
+    ? updateSubtaskTree(task.subtasks || [], parentId, parent =>
+        withRolledUpChildren({ ...parent, subtasks: [...(parent.subtasks || []), subtask] })
+      )
+    : [...(task.subtasks || []), subtask]
+  return withRolledUpStatus({ ...task, subtasks })
+}
+
+/**
+ * Check or uncheck a subtask together with everything nested under it
+ */
+export function toggleSubtask(task: Task, subtaskId: string): Task {
+  const subtasks = updateSubtaskTree(task.subtasks || [], subtaskId, s => setCompleted(s, !s.completed))
+  return withRolledUpStatus({ ...task, subtasks })
+}
+
+export function removeSubtask(task: Task, subtaskId: string): Task {
+  const subtasks = updateSubtaskTree(task.subtasks || [], subtaskId, () => null)
+  return withRolledUpStatus({ ...task, subtasks })
+}
+
+/**
+ * Mark every subtask complete or incomplete, used when the parent is toggled
+ * directly so the checklist stays consistent with the parent.
+ */
+export function setAllSubtasks(task: Task, completed: boolean): Task {
+  if (!task.subtasks || task.subtasks.length === 0) return task
+  return {
+    ...task,
+    subtasks: task.subtasks.map(s => setCompleted(s, completed)),
+  }
+}
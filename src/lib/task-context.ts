@@ -0,0 +1,169 @@
+/**
+ * Task Context Builder
+ *
+ * Serializes the user's task list into a compact text block that is prepended
+ * to agent messages, so the assistant can answer questions like
+ * "Prioritize my tasks" about the actual tasks.
+ *
+ * ## Size budget
+ * The block is capped at `maxTokens` (estimated at ~4 characters per token).
+ * Tasks are ranked by urgency - overdue, then soonest due, then priority,
+ * with completed tasks last - and added until the budget is spent. Anything
+ * that does not fit is summarized as an omitted count, never cut mid-line.
+ *
+ * ## Redaction
+ * Callers can exclude individual tasks or replace every title with a
+ * placeholder; the returned `text` is exactly what gets sent.
+ */
+
+import { getEffectiveStatus, indexTasks } from '@/lib/dependencies'
+import { getDayKeyInZone, getDueDayKey } from '@/lib/due-time'
+import { isOverdue } from '@/lib/overdue'
+import { getSubtaskProgress } from '@/lib/subtasks'
+import type { Task, TaskStatus } from '@/types'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface TaskContextOptions {
+  /** Upper bound for the context block, in estimated tokens */
+  maxTokens?: number
+  /** Task IDs the user chose not to share */
+  excludedIds?: Set<string>
+  /** Replace titles with "Task 1", "Task 2", ... */
+  hideTitles?: boolean
+  /** Reference time for due/overdue calculations */
+  now?: Date
+}
+
+export interface TaskContextEntry {
+  task: Task
+  status: TaskStatus
+  overdue: boolean
+  line: string
+}
+
+export interface TaskContext {
+  /** Exact text block sent to the agent ('' when nothing is shared) */
+  text: string
+  /** Entries that made it into the block, in ranked order */
+  included: TaskContextEntry[]
+  /** Shareable tasks dropped to stay within the budget */
+  omittedCount: number
+  /** Tasks the user excluded */
+  excludedCount: number
+  estimatedTokens: number
+}
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+export const DEFAULT_CONTEXT_TOKENS = 1200
+const CHARS_PER_TOKEN = 4
+const PRIORITY_RANK: Record<Task['priority'], number> = { high: 0, medium: 1, low: 2 }
+
+// =============================================================================
+// Helpers
+// =============================================================================
+
+export function estimateTokens(text: string): number {
+  return Math.ceil(text.length / CHARS_PER_TOKEN)
+}
+
+/**
+ * Sort tasks most-urgent first for truncation
+ */
+export function rankTasksForContext(tasks: Task[], now: Date = new Date()): Task[] {
+  return [...tasks].sort((a, b) => {
+    if (a.completed !== b.completed) return a.completed ? 1 : -1
+    const overdueDiff = Number(isOverdue(b, now)) - Number(isOverdue(a, now))
+    if (overdueDiff !== 0) return overdueDiff
+    const dueDiff = getDueDayKey(a).localeCompare(getDueDayKey(b))
+    if (dueDiff !== 0) return dueDiff
+    return PRIORITY_RANK[a.priority] - PRIORITY_RANK[b.priority]
+  })
+}
+
+function formatLine(task: Task, status: TaskStatus, overdue: boolean, title: string): string {
+  const fields = [
+    `id: ${task.id}`,
+    `"${title.replace(/"/g, "'")}"`,
+    `priority: ${task.priority}`,
+    `due: ${getDueDayKey(task)}`,
+    `status: ${status}`,
+    `category: ${task.category}`,
+  ]
+  if (overdue) fields.push('OVERDUE')
+  const progress = getSubtaskProgress(task)
+  if (progress.total > 0) {
+    fields.push(`subtasks: ${progress.completed}/${progress.total} done`)
+  }
+  return `- ${fields.join(' | ')}`
+}
+
+// =============================================================================
+// Main API
+// =============================================================================
+
+/**
+ * Build the task context block within the size budget
+ */
+export function buildTaskContext(tasks: Task[], options: TaskContextOptions = {}): TaskContext {
+  const now = options.now || new Date()
+  const maxChars = (options.maxTokens ?? DEFAULT_CONTEXT_TOKENS) * CHARS_PER_TOKEN
+  const excluded = options.excludedIds || new Set<string>()
+  const index = indexTasks(tasks)
+
+  const shareable = tasks.filter(t => !excluded.has(t.id))
+  const ranked = rankTasksForContext(shareable, now)
+
+  const header = [
+    '[Task context]',
+    `Today: ${getDayKeyInZone(now)}`,
+    'Refer to tasks by id when proposing actions.',
+  ]
+  const footer = '[/Task context]'
+  // Reserve room for the "shown" line and a possible omission note
+  let used = header.join('\n').length + footer.length + 120
+
+  const included: TaskContextEntry[] = []
+  for (const task of ranked) {
+    const status = getEffectiveStatus(task, index)
+    const overdue = isOverdue(task, now)
+    const title = options.hideTitles ? `Task ${included.length + 1}` : task.title
+    const line = formatLine(task, status, overdue, title)
+    if (used + line.length + 1 > maxChars) break
+    included.push({ task, status, overdue, line })
+    used += line.length + 1
+  }
+
+  const omittedCount = ranked.length - included.length
+  const excludedCount = tasks.length - shareable.length
+
+  if (included.length === 0) {
+    return { text: '', included, omittedCount, excludedCount, estimatedTokens: 0 }
+  }
+
+  const lines = [
+    ...header,
+    `Tasks (${included.length} of ${ranked.length} shown, most urgent first):`,
+    ...included.map(e => e.line),
+  ]
+  if (omittedCount > 0) {
+    lines.push(`(${omittedCount} lower-priority ${omittedCount === 1 ? 'task' : 'tasks'} omitted to fit the size limit)`)
+  }
+  lines.push(footer)
+
+  const text = lines.join('\n')
+  return { text, included, omittedCount, excludedCount, estimatedTokens: estimateTokens(text) }
+}
+
+/**
+ * Combine the context block with the user's question into the agent message
+ */
+export function composeAgentMessage(userText: string, context: TaskContext | null): string {
+  if (!context?.text) return userText
+  return `${context.text}\n\nUser message: ${userText}`
+}
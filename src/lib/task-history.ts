@@ -0,0 +1,200 @@
+/**
+ * Task History
+ *
+ * Undo/redo for task mutations. Each command records, per affected task,
+ * the version before and after the change (null when the task did not
+ * exist), so undoing or redoing only touches those tasks and leaves
+ * unrelated edits made since in place.
+ *
+ * History is bounded and persisted in localStorage so it survives reloads.
+ */
+
+import { generateId } from '@/lib/utils'
+import { renameCategoryInTasks } from '@/lib/categories'
+import { reviveTask } from '@/lib/task-repository'
+import type { Task } from '@/types'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface TaskChange {
+  id: string
+  /** The task before the command; null if the command created it */
+  before: Task | null
+  /** The task after the command; null if the command deleted it */
+  after: Task | null
+}
+
+export interface TaskCommand {
+  id: string
+  /** Shown in the toast, e.g. "Deleted task" */
+  label: string
+  changes: TaskChange[]
+  timestamp: Date
+}
+
+export interface TaskHistory {
+  /** Oldest first; the last command is undone next */
+  past: TaskCommand[]
+  /** Next command to redo first */
+  future: TaskCommand[]
+}
+
+export type HistoryDirection = 'undo' | 'redo'
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+const HISTORY_STORAGE_KEY = 'taskflow_task_history'
+
+/** Oldest commands are dropped past this */
+export const MAX_HISTORY_LENGTH = 50
+
+export const EMPTY_HISTORY: TaskHistory = { past: [], future: [] }
+
+// =============================================================================
+// Commands
+// =============================================================================
+
+const sameTask = (a: Task, b: Task) => a === b || JSON.stringify(a) === JSON.stringify(b)
+
+/**
+ * Changes between two task lists, matched by ID. Tasks that are equal in
+ * content are not reported, so no-op updates don't create history.
+ */
+export function diffTasks(before: Task[], after: Task[]): TaskChange[] {
+  const beforeById = new Map(before.map(t => [t.id, t]))
+  const afterById = new Map(after.map(t => [t.id, t]))
+  const changes: TaskChange[] = []
+
+  for (const task of before) {
+    const next = afterById.get(task.id)
+    if (!next) changes.push({ id: task.id, before: task, after: null })
+    else if (!sameTask(task, next)) changes.push({ id: task.id, before: task, after: next })
+  }
+  for (const task of after) {
+    if (!beforeById.has(task.id)) changes.push({ id: task.id, before: null, after: task })
+  }
+
+  return changes
+}
+
+export function createTaskCommand(label: string, changes: TaskChange[], id: string = generateId()): TaskCommand {
+  return { id, label, changes, timestamp: new Date() }
+}
+
+/**
+ * Apply a command's changes to the current tasks, backwards for undo
+ */
+export function applyTaskCommand(tasks: Task[], command: TaskCommand, direction: HistoryDirection): Task[] {
+  const targets = new Map(command.changes.map(c => [c.id, direction === 'undo' ? c.before : c.after]))
+
+  const kept = tasks.flatMap(t => {
+    if (!targets.has(t.id)) return [t]
+    const target = targets.get(t.id)
+    return target ? [target] : []
+  })
+  const restored = [...targets.values()].filter(
+    (t): t is Task => Boolean(t) && !tasks.some(existing => existing.id === t.id)
+  )
+
+  return [...kept, ...restored]
+}
+
+/**
+ * A recorded command by ID, whether it is currently done or undone
+ */
+export function findCommand(history: TaskHistory, id: string): TaskCommand | undefined {
+  return history.past.find(c => c.id === id) || history.future.find(c => c.id === id)
+}
+
+/**
+ * Add a command; anything that could be redone is discarded
+ */
+export function pushCommand(history: TaskHistory, command: TaskCommand): TaskHistory {
+  return {
+    past: [...history.past, command].slice(-MAX_HISTORY_LENGTH),
+    future: [],
+  }
+}
+
+/**
+ * Move the next command across (past -> future for undo), or null if there
+ * is nothing to move
+ */
+export function stepHistory(
+  history: TaskHistory,
+  direction: HistoryDirection
+): { history: TaskHistory; command: TaskCommand } | null {
+  if (direction === 'undo') {
+    const command = history.past[history.past.length - 1]
+    if (!command) return null
+    return { command, history: { past: history.past.slice(0, -1), future: [command, ...history.future] } }
+  }
+
+  const command = history.future[0]
+  if (!command) return null
+  return { command, history: { past: [...history.past, command], future: history.future.slice(1) } }
+}
+
+/**
+ * Follow a category rename in every stored task version, so undoing or
+ * redoing a command recorded before the rename doesn't bring back the old
+ * name
+ */
+export function renameCategoryInHistory(history: TaskHistory, from: string, to: string): TaskHistory {
+  const rename = (task: Task | null) => task && renameCategoryInTasks([task], from, to)[0]
+  const renameCommand = (command: TaskCommand): TaskCommand => ({
+    ...command,
+    changes: command.changes.map(c => ({ ...c, before: rename(c.before), after: rename(c.after) })),
+  })
+  return { past: history.past.map(renameCommand), future: history.future.map(renameCommand) }
+}
+
+// =============================================================================
+// Persistence
+// =============================================================================
+
+function reviveCommand(raw: any): TaskCommand | null {
+  if (!raw || typeof raw !== 'object' || !raw.id || !Array.isArray(raw.changes)) return null
+
+  const changes = raw.changes
+    .filter((c: any) => c && typeof c.id === 'string')
+    .map((c: any): TaskChange => ({
+      id: c.id,
+      before: c.before ? reviveTask(c.before) : null,
+      after: c.after ? reviveTask(c.after) : null,
+    }))
+
+  return {
+    id: String(raw.id),
+    label: typeof raw.label === 'string' ? raw.label : 'Change',
+    changes,
+    timestamp: new Date(raw.timestamp),
+  }
+}
+
+export function loadTaskHistory(): TaskHistory {
+  try {
+    const saved = localStorage.getItem(HISTORY_STORAGE_KEY)
+    if (!saved) return EMPTY_HISTORY
+    const parsed = JSON.parse(saved)
+    const revive = (list: unknown) => (Array.isArray(list) ? list.map(reviveCommand).filter(Boolean) : [])
+    return {
+      past: revive(parsed?.past).slice(-MAX_HISTORY_LENGTH),
+      future: revive(parsed?.future).slice(0, MAX_HISTORY_LENGTH),
+    }
+  } catch {
+    return EMPTY_HISTORY
+  }
+}
+
+export function saveTaskHistory(history: TaskHistory): void {
+  try {
+    localStorage.setItem(HISTORY_STORAGE_KEY, JSON.stringify(history))
+  } catch (error) {
+    console.error('Failed to save task history:', error)
+  }
+}
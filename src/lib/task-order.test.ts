@@ -0,0 +1,112 @@
+import { describe, expect, it } from 'vitest'
+import { getAppendRank, moveTask, rankAfter, rankBetween, sortTasks, withRanks } from '@/lib/task-order'
+import type { Task } from '@/types'
+
+function makeTask(id: string, fields: Partial<Task> = {}): Task {
+  return {
+    id,
+    title: id,
+    completed: false,
+    priority: 'medium',
+    category: 'Work',
+    status: 'not-started',
+    dueDate: new Date(2026, 9, 18),
+    createdAt: new Date(2026, 9, 1),
+    ...fields,
+  }
+}
+
+const ids = (tasks: Task[]) => tasks.map(t => t.id)
+
+describe('ranks', () => {
+  it('always fits a rank between two others', () => {
+    let low = rankBetween()
+    let high = rankAfter(low)
+    for (let i = 0; i < 50; i++) {
+      const middle = rankBetween(low, high)
+      expect(middle > low && middle < high).toBe(true)
+      expect(middle.endsWith('0')).toBe(false)
+      if (i % 2) low = middle
+      else high = middle
+    }
+  })
+
+  it('places ranks before the first and after the last', () => {
+    expect(rankBetween(undefined, 'V') < 'V').toBe(true)
+    expect(rankBetween('V') > 'V').toBe(true)
+  })
+
+  it('keeps appended ranks short', () => {
+    let rank: string | undefined
+    const ranks: string[] = []
+    for (let i = 0; i < 100; i++) {
+      rank = rankAfter(rank)
+      ranks.push(rank)
+    }
+    expect([...ranks].sort()).toEqual(ranks)
+    // One more digit each time the last one runs out, not one per append
+    expect(ranks[30]).toHaveLength(1)
+    expect(ranks[99]).toHaveLength(4)
+  })
+})
+
+describe('withRanks', () => {
+  it('ranks legacy tasks after ranked ones, oldest first', () => {
+    const tasks = withRanks([
+      makeTask('new', { createdAt: new Date(2026, 9, 3) }),
+      makeTask('ranked', { rank: 'V' }),
+      makeTask('old', { createdAt: new Date(2026, 9, 2) }),
+    ])
+    expect(ids(sortTasks(tasks))).toEqual(['ranked', 'old', 'new'])
+    expect(getAppendRank(tasks) > tasks[0].rank!).toBe(true)
+  })
+
+  it('returns the same array when every task is ranked', () => {
+    const tasks = [makeTask('a', { rank: 'a' })]
+    expect(withRanks(tasks)).toBe(tasks)
+  })
+})
+
+describe('moveTask', () => {
+  const tasks = ['a', 'b', 'c', 'd'].map((id, i) => makeTask(id, { rank: rankAfter(String(i)) }))
+  const order = ids(tasks)
+
+  it('re-ranks only the moved task', () => {
+    const moved = moveTask(tasks, order, 'd', 1)
+    expect(ids(sortTasks(moved))).toEqual(['a', 'd', 'b', 'c'])
+    expect(moved.filter((t, i) => t.rank !== tasks[i].rank).map(t => t.id)).toEqual(['d'])
+  })
+
+  it('moves to either end', () => {
+    expect(ids(sortTasks(moveTask(tasks, order, 'a', 3)))).toEqual(['b', 'c', 'd', 'a'])
+    expect(ids(sortTasks(moveTask(tasks, order, 'c', 0)))).toEqual(['c', 'a', 'b', 'd'])
+  })
+
+  it('splits tied ranks so a task can go between them', () => {
+    const tied = [makeTask('x', { rank: 'V' }), makeTask('y', { rank: 'V' }), makeTask('z', { rank: 'W' })]
+    const moved = moveTask(tied, ['x', 'y', 'z'], 'z', 1)
+    expect(ids(sortTasks(moved))).toEqual(['x', 'z', 'y'])
+  })
+})
+
+describe('sortTasks', () => {
+  const tasks = [
+    makeTask('late-low', { priority: 'low', dueDate: new Date(2026, 9, 20), rank: 'a', title: 'banana' }),
+    makeTask('early', { dueDate: new Date(2026, 9, 19), rank: 'b', title: 'Apple', createdAt: new Date(2026, 9, 5) }),
+    makeTask('late-high', { priority: 'high', dueDate: new Date(2026, 9, 20), rank: 'c', title: 'cherry' }),
+  ]
+
+  it('orders by each sort mode with manual order as the tie-break', () => {
+    expect(ids(sortTasks(tasks))).toEqual(['late-low', 'early', 'late-high'])
+    expect(ids(sortTasks(tasks, 'due'))).toEqual(['early', 'late-high', 'late-low'])
+    expect(ids(sortTasks(tasks, 'priority'))).toEqual(['late-high', 'early', 'late-low'])
+    expect(ids(sortTasks(tasks, 'created'))).toEqual(['early', 'late-low', 'late-high'])
+    expect(ids(sortTasks(tasks, 'title'))).toEqual(['early', 'late-low', 'late-high'])
+  })
+
+  it('does not mutate its input', () => {
+    const copy = [...tasks]
+    sortTasks(tasks, 'title')
+    expect(tasks).toEqual(copy)
+  })
+})
@@ -0,0 +1,217 @@
+/**
+ * Task Order
+ * Per-view sort modes and the manual order set by drag-to-reorder
+ *
+ * ## Manual ranks
+ * Manual order is stored as a fractional rank on each task: a base-62
+ * string compared character by character. Moving a task gives it a rank
+ * between its new neighbours, so only the moved task changes and its order
+ * survives saving, reloads and undo.
+ *
+ * Two tasks appended at the same moment (e.g. from two tabs) can get the
+ * same rank; ties fall back to the task ID so every client shows the same
+ * order, and they are split apart the next time a task is dropped between
+ * them. Tasks saved before ranks existed are ranked by creation time.
+ */
+
+import type { Task } from '@/types'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export type SortMode = 'manual' | 'due' | 'priority' | 'created' | 'title'
+
+/** Sort mode per view key, e.g. "today" or "smart:<id>" */
+export type SortModes = Partial<Record<string, SortMode>>
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+const SORT_MODES_STORAGE_KEY = 'taskflow_sort_modes'
+
+export const SORT_MODES: { mode: SortMode; label: string }[] = [
+  { mode: 'manual', label: 'Manual' },
+  { mode: 'due', label: 'Due date' },
+  { mode: 'priority', label: 'Priority' },
+  { mode: 'created', label: 'Newest first' },
+  { mode: 'title', label: 'Title' },
+]
+
+export const DEFAULT_SORT_MODE: SortMode = 'manual'
+
+const DIGITS = '0123456789ABCDEFGHIJKLMNOPQRSTUVWXYZabcdefghijklmnopqrstuvwxyz'
+
+const PRIORITY_ORDER: Record<Task['priority'], number> = { high: 0, medium: 1, low: 2 }
+
+// =============================================================================
+// Ranks
+// =============================================================================
+
+/**
+ * A key strictly between `a` and `b` (b = null means no upper bound).
+ * Keys never end in "0", which guarantees a key always fits between two
+ * others.
+ */
+function midpoint(a: string, b: string | null): string {
+  if (b !== null) {
+    let shared = 0
+    while ((a[shared] || '0') === b[shared]) shared++
+    if (shared > 0) return b.slice(0, shared) + midpoint(a.slice(shared), b.slice(shared))
+  }
+
+  const low = a ? DIGITS.indexOf(a[0]) : 0
+  const high = b !== null ? DIGITS.indexOf(b[0]) : DIGITS.length
+  if (high - low > 1) return DIGITS[Math.round((low + high) / 2)]
+
+  // Adjacent digits: shorten to b's first digit or extend a
+  if (b !== null && b.length > 1) return b.slice(0, 1)
+  return DIGITS[low] + midpoint(a.slice(1), null)
+}
+
+/**
+ * Rank between two ranks; either side may be missing for the start or
+ * end of the list. `before` must sort before `after`.
+ */
+export function rankBetween(before?: string, after?: string): string {
+  return midpoint(before || '', after ?? null)
+}
+
+/**
+ * Rank after `rank` that stays short when appending many tasks in a row
+ */
+export function rankAfter(rank?: string): string {
+  if (!rank) return midpoint('', null)
+  const digit = DIGITS.indexOf(rank[0])
+  if (digit < DIGITS.length - 1) return DIGITS[digit + 1]
+  return rank[0] + rankAfter(rank.slice(1))
+}
+
+function maxRank(tasks: Task[]): string | undefined {
+  let max: string | undefined
+  for (const task of tasks) {
+    if (task.rank && (max === undefined || task.rank > max)) max = task.rank
+  }
+  return max
+}
+
+/** Rank for a new task, placing it at the end of the manual order */
+export function getAppendRank(tasks: Task[]): string {
+  return rankAfter(maxRank(tasks))
+}
+
+const compareRanks = (a: Task, b: Task) =>
+  a.rank === b.rank ? 0 : a.rank === undefined ? 1 : b.rank === undefined ? -1 : a.rank < b.rank ? -1 : 1
+
+const byCreatedAt = (a: Task, b: Task) => a.createdAt.getTime() - b.createdAt.getTime()
+
+const byId = (a: Task, b: Task) => (a.id < b.id ? -1 : a.id > b.id ? 1 : 0)
+
+/**
+ * Give unranked tasks ranks after the ranked ones, oldest first. Returns
+ * the same array when every task has a rank.
+ */
+export function withRanks(tasks: Task[]): Task[] {
+  const unranked = tasks.filter(t => !t.rank).sort((a, b) => byCreatedAt(a, b) || byId(a, b))
+  if (unranked.length === 0) return tasks
+
+  const ranks = new Map<string, string>()
+  let rank = maxRank(tasks)
+  for (const task of unranked) {
+    rank = rankAfter(rank)
+    ranks.set(task.id, rank)
+  }
+  return tasks.map(t => (ranks.has(t.id) ? { ...t, rank: ranks.get(t.id) } : t))
+}
+
+/**
+ * Give tasks sharing `rank` distinct ranks in ID order, all below the next
+ * higher rank, so a task can be dropped between them
+ */
+function separateTies(tasks: Task[], rank: string): Task[] {
+  const tied = tasks.filter(t => t.rank === rank).sort(byId)
+  const next = tasks.reduce<string | undefined>(
+    (lowest, t) => (t.rank && t.rank > rank && (lowest === undefined || t.rank < lowest) ? t.rank : lowest),
+    undefined
+  )
+
+  const ranks = new Map<string, string>()
+  let previous = rank
+  for (const task of tied.slice(1)) {
+    previous = rankBetween(previous, next)
+    ranks.set(task.id, previous)
+  }
+  return tasks.map(t => (ranks.has(t.id) ? { ...t, rank: ranks.get(t.id) } : t))
+}
+
+/**
+ * Move a task to `toIndex` within a view's manual order (`orderedIds`, with
+ * the index counted after removing the task). Only the moved task gets a
+ * new rank, apart from one-time ranking of legacy tasks and splitting ties.
+ */
+export function moveTask(tasks: Task[], orderedIds: string[], id: string, toIndex: number): Task[] {
+  const rest = orderedIds.filter(taskId => taskId !== id)
+  const index = Math.max(0, Math.min(toIndex, rest.length))
+  let ranked = withRanks(tasks)
+
+  for (let attempt = 0; attempt < 2; attempt++) {
+    const rankOf = (taskId?: string) => (taskId ? ranked.find(t => t.id === taskId)?.rank : undefined)
+    const before = rankOf(rest[index - 1])
+    const after = rankOf(rest[index])
+
+    if (before === undefined || after === undefined || before < after) {
+      const rank = rankBetween(before, after)
+      return ranked.map(t => (t.id === id ? { ...t, rank } : t))
+    }
+    ranked = separateTies(ranked, before)
+  }
+
+  return tasks
+}
+
+// =============================================================================
+// Sorting
+// =============================================================================
+
+const byManualOrder = (a: Task, b: Task) => compareRanks(a, b) || byCreatedAt(a, b) || byId(a, b)
+
+const COMPARATORS: Record<SortMode, (a: Task, b: Task) => number> = {
+  manual: byManualOrder,
+  due: (a, b) =>
+    a.dueDate.getTime() - b.dueDate.getTime() || PRIORITY_ORDER[a.priority] - PRIORITY_ORDER[b.priority] || byManualOrder(a, b),
+  priority: (a, b) =>
+    PRIORITY_ORDER[a.priority] - PRIORITY_ORDER[b.priority] || a.dueDate.getTime() - b.dueDate.getTime() || byManualOrder(a, b),
+  created: (a, b) => b.createdAt.getTime() - a.createdAt.getTime() || byManualOrder(a, b),
+  title: (a, b) => a.title.localeCompare(b.title, undefined, { sensitivity: 'base' }) || byManualOrder(a, b),
+}
+
+export function sortTasks(tasks: Task[], mode: SortMode = DEFAULT_SORT_MODE): Task[] {
+  return [...tasks].sort(COMPARATORS[mode] || byManualOrder)
+}
+
+// =============================================================================
+// Persistence
+// =============================================================================
+
+export function loadSortModes(): SortModes {
+  try {
+    const saved = localStorage.getItem(SORT_MODES_STORAGE_KEY)
+    if (!saved) return {}
+    const parsed = JSON.parse(saved)
+    if (!parsed || typeof parsed !== 'object') return {}
+    return Object.fromEntries(
+      Object.entries(parsed).filter(([, mode]) => SORT_MODES.some(m => m.mode === mode))
+    ) as SortModes
+  } catch {
+    return {}
+  }
+}
+
+export function saveSortModes(modes: SortModes): void {
+  try {
+    localStorage.setItem(SORT_MODES_STORAGE_KEY, JSON.stringify(modes))
+  } catch (error) {
+    console.error('Failed to save sort modes:', error)
+  }
+}
@@ -0,0 +1,88 @@
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest'
+import { createTaskSaver, getTaskRepository, type TaskRepository } from '@/lib/task-repository'
+import type { Task } from '@/types'
+
+function makeTask(id: string, fields: Partial<Task> = {}): Task {
+  return {
+    id,
+    title: id,
+    completed: false,
+    priority: 'medium',
+    category: 'Work',
+    status: 'not-started',
+    dueDate: new Date(2026, 9, 18),
+    createdAt: new Date(2026, 9, 1),
+    ...fields,
+  }
+}
+
+beforeAll(() => {
+  const storage = new Map<string, string>()
+  vi.stubGlobal('localStorage', {
+    getItem: (key: string) => storage.get(key) ?? null,
+    setItem: (key: string, value: string) => storage.set(key, value),
+    removeItem: (key: string) => storage.delete(key),
+  })
+})
+
+afterAll(() => {
+  vi.unstubAllGlobals()
+})
+
+describe('getTaskRepository', () => {
+  it('falls back to localStorage when IndexedDB cannot be opened', async () => {
+    vi.stubGlobal('indexedDB', {
+      open: () => {
+        const request: Record<string, any> = { error: new Error('The operation is insecure') }
+        setTimeout(() => request.onerror())
+        return request
+      },
+    })
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined)
+    vi.resetModules()
+    const { getTaskRepository: getFreshRepository } = await import('@/lib/task-repository')
+
+    const repository = getFreshRepository()
+    await repository.put(makeTask('a'))
+    expect((await repository.getAll()).map(t => t.id)).toEqual(['a'])
+    expect(repository.backend).toBe('localstorage')
+    expect(JSON.parse(localStorage.getItem('taskflow_tasks')!)).toHaveLength(1)
+
+    vi.stubGlobal('indexedDB', undefined)
+    vi.restoreAllMocks()
+  })
+})
+
+describe('createTaskSaver', () => {
+  let repository: TaskRepository
+
+  beforeAll(() => {
+    repository = getTaskRepository()
+  })
+
+  it('lets a query made right after an edit see the edit', async () => {
+    const loaded = [makeTask('a'), makeTask('b')]
+    const saver = createTaskSaver(loaded, repository)
+    await saver.save(loaded)
+
+    const edited = [{ ...loaded[0], status: 'completed' as const, completed: true }, loaded[1]]
+    const saved = saver.save(edited)
+    const [completed] = await Promise.all([repository.query({ status: 'completed' }), saved])
+    expect(completed.map(t => t.id)).toEqual(['a'])
+
+    saver.save([edited[1]])
+    expect((await repository.getAll()).map(t => t.id)).toEqual(['b'])
+  })
+
+  it('retries a failed write as part of the next save', async () => {
+    const saveChanges = vi.fn().mockRejectedValueOnce(new Error('Quota exceeded')).mockResolvedValue(undefined)
+    const saver = createTaskSaver([], { saveChanges } as unknown as TaskRepository)
+    const first = [makeTask('a')]
+    const second = [...first, makeTask('b')]
+
+    await expect(saver.save(first)).rejects.toThrow('Quota exceeded')
+    expect(saver.pending).toEqual([])
+    await saver.save(second)
+    expect(saveChanges).toHaveBeenLastCalledWith([], second)
+  })
+})
@@ -0,0 +1,452 @@
+/**
+ * Task Repository
+ *
+ * Versioned persistence for TaskFlow tasks backed by IndexedDB.
+ *
+ * - Schema changes are expressed as ordered MIGRATIONS; each runs once,
+ *   inside the IndexedDB upgrade transaction, when the stored version is older.
+ * - Data saved by earlier releases under the `taskflow_tasks` localStorage key
+ *   is imported by a migration and the key is removed afterwards.
+ * - Views read through the typed query methods instead of filtering arrays.
+ *
+ * Falls back to a localStorage-backed repository when IndexedDB is missing or
+ * cannot be opened (e.g. some private browsing modes).
+ *
+ * @example
+ * ```tsx
+ * const repository = getTaskRepository()
+ * const tasks = await repository.getAll()
+ * await repository.saveChanges(previousTasks, nextTasks)
+ * const dueToday = await repository.findByDateRange(startOfToday, endOfToday)
+ * ```
+ */
+
+import { isValidTimeZone, parseTimeOfDay } from '@/lib/due-time'
+import type { Task, TaskStatus } from '@/types'
+
+// =============================================================================
+// Configuration
+// =============================================================================
+
+const DB_NAME = 'taskflow'
+const TASKS_STORE = 'tasks'
+const LEGACY_STORAGE_KEY = 'taskflow_tasks'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface TaskQuery {
+  /** Inclusive lower bound on dueDate */
+  dueFrom?: Date
+  /** Exclusive upper bound on dueDate */
+  dueBefore?: Date
+  category?: string
+  status?: TaskStatus | TaskStatus[]
+}
+
+export interface TaskRepository {
+  /** 'indexeddb' or 'localstorage' (fallback) */
+  readonly backend: string
+  /** True when no data existed before this install (no DB, no legacy data) */
+  isFirstRun(): Promise<boolean>
+  getAll(): Promise<Task[]>
+  get(id: string): Promise<Task | undefined>
+  put(task: Task): Promise<void>
+  delete(id: string): Promise<void>
+  /**
+   * Persist the difference between two snapshots of the task list. Tasks are
+   * updated immutably, so only changed object references are written.
+   */
+  saveChanges(previous: Task[], next: Task[]): Promise<void>
+  /** Tasks matching every given criterion, oldest first */
+  query(query: TaskQuery): Promise<Task[]>
+  findByDateRange(from?: Date, before?: Date): Promise<Task[]>
+  findByCategory(category: string): Promise<Task[]>
+  findByStatus(status: TaskStatus | TaskStatus[]): Promise<Task[]>
+}
+
+export interface TaskSaver {
+  /** Last task list handed to the repository */
+  readonly pending: Task[]
+  /** Queue the difference to `next`; resolves once it is written */
+  save(next: Task[]): Promise<void>
+}
+
+interface Migration {
+  version: number
+  description: string
+  up: (db: IDBDatabase, tx: IDBTransaction, context: MigrationContext) => void
+}
+
+interface MigrationContext {
+  /** Set by a migration when it brought over pre-existing data */
+  importedLegacyData: boolean
+}
+
+// =============================================================================
+// Record (de)serialization
+// =============================================================================
+
+function toDate(value: unknown, fallback: Date): Date {
+  if (value instanceof Date) return isNaN(value.getTime()) ? fallback : value
+  if (typeof value === 'string' || typeof value === 'number') {
+    const date = new Date(value)
+    return isNaN(date.getTime()) ? fallback : date
+  }
+  return fallback
+}
+
+/**
+ * Turn an untrusted stored record into a Task, or null if it is unusable
+ */
+export function reviveTask(raw: any): Task | null {
+  if (!raw || typeof raw !== 'object' || raw.id == null || typeof raw.title !== 'string') {
+    return null
+  }
+
+  const now = new Date()
+  const status: TaskStatus = ['not-started', 'in-progress', 'blocked', 'completed'].includes(raw.status)
+    ? raw.status
+    : raw.completed ? 'completed' : 'not-started'
+
+  return {
+    ...raw,
+    id: String(raw.id),
+    completed: Boolean(raw.completed),
+    priority: ['low', 'medium', 'high'].includes(raw.priority) ? raw.priority : 'medium',
+    category: typeof raw.category === 'string' ? raw.category : 'Personal',
+    status,
+    dueDate: toDate(raw.dueDate, now),
+    dueTime: parseTimeOfDay(raw.dueTime),
+    timeZone: isValidTimeZone(raw.timeZone) ? raw.timeZone : undefined,
+    durationMinutes: Number(raw.durationMinutes) > 0 ? Math.round(Number(raw.durationMinutes)) : undefined,
+    createdAt: toDate(raw.createdAt, now),
+    subtasks: Array.isArray(raw.subtasks) ? raw.subtasks : [],
+    dependsOn: Array.isArray(raw.dependsOn) ? raw.dependsOn.map(String) : undefined,
+    rank: typeof raw.rank === 'string' && raw.rank ? raw.rank : undefined,
+  }
+}
+
+function reviveAll(records: any[]): Task[] {
+  return records.map(reviveTask).filter((t): t is Task => t !== null)
+}
+
+/**
+ * Read the pre-IndexedDB localStorage blob without throwing on bad JSON
+ */
+function readLegacyTasks(): any[] | null {
+  try {
+    const saved = localStorage.getItem(LEGACY_STORAGE_KEY)
+    if (!saved) return null
+    const parsed = JSON.parse(saved)
+    return Array.isArray(parsed) ? parsed : null
+  } catch (error) {
+    console.warn('Ignoring unreadable legacy task data:', error)
+    return null
+  }
+}
+
+// =============================================================================
+// Query helpers
+// =============================================================================
+
+export function matchesQuery(task: Task, query: TaskQuery): boolean {
+  const due = task.dueDate.getTime()
+  if (query.dueFrom && due < query.dueFrom.getTime()) return false
+  if (query.dueBefore && due >= query.dueBefore.getTime()) return false
+  if (query.category && task.category !== query.category) return false
+  if (query.status) {
+    const statuses = Array.isArray(query.status) ? query.status : [query.status]
+    if (!statuses.includes(task.status)) return false
+  }
+  return true
+}
+
+function byCreatedAt(a: Task, b: Task): number {
+  return a.createdAt.getTime() - b.createdAt.getTime()
+}
+
+function diffTasks(previous: Task[], next: Task[]): { changed: Task[]; deletedIds: string[] } {
+  const before = new Map(previous.map(t => [t.id, t]))
+  const nextIds = new Set(next.map(t => t.id))
+  return {
+    changed: next.filter(t => before.get(t.id) !== t),
+    deletedIds: previous.filter(t => !nextIds.has(t.id)).map(t => t.id),
+  }
+}
+
+// =============================================================================
+// Migrations
+// =============================================================================
+
+/**
+ * Ordered schema migrations. Append new entries; never edit released ones.
+ */
+const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    description: 'Create tasks store with dueDate/category/status indexes',
+    up: (db) => {
+      const store = db.createObjectStore(TASKS_STORE, { keyPath: 'id' })
+      store.createIndex('dueDate', 'dueDate')
+      store.createIndex('category', 'category')
+      store.createIndex('status', 'status')
+    },
+  },
+  {
+    version: 2,
+    description: 'Import tasks from the legacy localStorage blob',
+    up: (_db, tx, context) => {
+      const legacy = readLegacyTasks()
+      if (!legacy) return
+
+      const store = tx.objectStore(TASKS_STORE)
+      for (const task of reviveAll(legacy)) {
+        store.put(task)
+      }
+      context.importedLegacyData = true
+      tx.addEventListener('complete', () => localStorage.removeItem(LEGACY_STORAGE_KEY))
+    },
+  },
+]
+
+export const SCHEMA_VERSION = MIGRATIONS[MIGRATIONS.length - 1].version
+
+// =============================================================================
+// IndexedDB implementation
+// =============================================================================
+
+function requestToPromise<T>(request: IDBRequest<T>): Promise<T> {
+  return new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result)
+    request.onerror = () => reject(request.error)
+  })
+}
+
+function transactionDone(tx: IDBTransaction): Promise<void> {
+  return new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve()
+    tx.onerror = () => reject(tx.error)
+    tx.onabort = () => reject(tx.error || new Error('Transaction aborted'))
+  })
+}
+
+function openDatabase(): Promise<{ db: IDBDatabase; firstRun: boolean }> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, SCHEMA_VERSION)
+    let firstRun = false
+
+    request.onupgradeneeded = (event) => {
+      const db = request.result
+      const tx = request.transaction!
+      const context: MigrationContext = { importedLegacyData: false }
+
+      for (const migration of MIGRATIONS) {
+        if (migration.version > event.oldVersion) {
+          migration.up(db, tx, context)
+        }
+      }
+
+      firstRun = event.oldVersion === 0 && !context.importedLegacyData
+    }
+
+    request.onsuccess = () => resolve({ db: request.result, firstRun })
+    request.onerror = () => reject(request.error)
+    request.onblocked = () => console.warn('TaskFlow database upgrade is blocked by another open tab')
+  })
+}
+
+function createIndexedDBRepository({ db, firstRun }: { db: IDBDatabase; firstRun: boolean }): TaskRepository {
+  // Serialize operations so a query always observes earlier writes
+  let queue: Promise<unknown> = Promise.resolve()
+
+  const enqueue = <T>(operation: (db: IDBDatabase) => Promise<T>): Promise<T> => {
+    const result = queue.then(() => operation(db))
+    queue = result.catch(() => undefined)
+    return result
+  }
+
+  const readAll = (db: IDBDatabase, range?: IDBKeyRange, indexName?: string) => {
+    const store = db.transaction(TASKS_STORE, 'readonly').objectStore(TASKS_STORE)
+    const source = indexName ? store.index(indexName) : store
+    return requestToPromise(source.getAll(range)).then(reviveAll)
+  }
+
+  const query = (q: TaskQuery) => enqueue(async (db) => {
+    // Use the most selective index available, then filter the rest in memory
+    let candidates: Task[]
+    if (q.dueFrom || q.dueBefore) {
+      const range = q.dueFrom && q.dueBefore
+        ? IDBKeyRange.bound(q.dueFrom, q.dueBefore, false, true)
+        : q.dueFrom
+          ? IDBKeyRange.lowerBound(q.dueFrom)
+          : IDBKeyRange.upperBound(q.dueBefore, true)
+      candidates = await readAll(db, range, 'dueDate')
+    } else if (q.category) {
+      candidates = await readAll(db, IDBKeyRange.only(q.category), 'category')
+    } else if (q.status && !Array.isArray(q.status)) {
+      candidates = await readAll(db, IDBKeyRange.only(q.status), 'status')
+    } else {
+      candidates = await readAll(db)
+    }
+    return candidates.filter(t => matchesQuery(t, q)).sort(byCreatedAt)
+  })
+
+  return {
+    backend: 'indexeddb',
+    isFirstRun: async () => firstRun,
+    getAll: () => enqueue(db => readAll(db)),
+    get: (id) => enqueue(async (db) => {
+      const store = db.transaction(TASKS_STORE, 'readonly').objectStore(TASKS_STORE)
+      return reviveTask(await requestToPromise(store.get(id))) || undefined
+    }),
+    put: (task) => enqueue(async (db) => {
+      const tx = db.transaction(TASKS_STORE, 'readwrite')
+      tx.objectStore(TASKS_STORE).put(task)
+      await transactionDone(tx)
+    }),
+    delete: (id) => enqueue(async (db) => {
+      const tx = db.transaction(TASKS_STORE, 'readwrite')
+      tx.objectStore(TASKS_STORE).delete(id)
+      await transactionDone(tx)
+    }),
+    saveChanges: (previous, next) => enqueue(async (db) => {
+      const { changed, deletedIds } = diffTasks(previous, next)
+      if (changed.length === 0 && deletedIds.length === 0) return
+
+      const tx = db.transaction(TASKS_STORE, 'readwrite')
+      const store = tx.objectStore(TASKS_STORE)
+      changed.forEach(t => store.put(t))
+      deletedIds.forEach(id => store.delete(id))
+      await transactionDone(tx)
+    }),
+    query,
+    findByDateRange: (from, before) => query({ dueFrom: from, dueBefore: before }),
+    findByCategory: (category) => query({ category }),
+    findByStatus: (status) => query({ status }),
+  }
+}
+
+// =============================================================================
+// localStorage fallback
+// =============================================================================
+
+function createLocalStorageRepository(): TaskRepository {
+  const legacy = readLegacyTasks()
+  const firstRun = legacy === null
+  let tasks: Task[] = legacy ? reviveAll(legacy) : []
+
+  const persist = () => {
+    try {
+      localStorage.setItem(LEGACY_STORAGE_KEY, JSON.stringify(tasks))
+    } catch (error) {
+      console.error('Failed to save tasks:', error)
+    }
+  }
+
+  const query = async (q: TaskQuery) => tasks.filter(t => matchesQuery(t, q)).sort(byCreatedAt)
+
+  return {
+    backend: 'localstorage',
+    isFirstRun: async () => firstRun,
+    getAll: async () => [...tasks],
+    get: async (id) => tasks.find(t => t.id === id),
+    put: async (task) => {
+      tasks = tasks.some(t => t.id === task.id)
+        ? tasks.map(t => (t.id === task.id ? task : t))
+        : [...tasks, task]
+      persist()
+    },
+    delete: async (id) => {
+      tasks = tasks.filter(t => t.id !== id)
+      persist()
+    },
+    saveChanges: async (_previous, next) => {
+      tasks = [...next]
+      persist()
+    },
+    query,
+    findByDateRange: (from, before) => query({ dueFrom: from, dueBefore: before }),
+    findByCategory: (category) => query({ category }),
+    findByStatus: (status) => query({ status }),
+  }
+}
+
+/**
+ * The IndexedDB repository once the database opens, or the localStorage one
+ * when it cannot be opened. Calls made in the meantime wait, in order.
+ */
+function createOpeningRepository(): TaskRepository {
+  let backend = 'indexeddb'
+  const ready: Promise<TaskRepository> = openDatabase().then(createIndexedDBRepository, (error) => {
+    console.warn('IndexedDB is unavailable, storing tasks in localStorage instead:', error)
+    backend = 'localstorage'
+    return createLocalStorageRepository()
+  })
+
+  const query = (q: TaskQuery) => ready.then(r => r.query(q))
+
+  return {
+    get backend() {
+      return backend
+    },
+    isFirstRun: () => ready.then(r => r.isFirstRun()),
+    getAll: () => ready.then(r => r.getAll()),
+    get: (id) => ready.then(r => r.get(id)),
+    put: (task) => ready.then(r => r.put(task)),
+    delete: (id) => ready.then(r => r.delete(id)),
+    saveChanges: (previous, next) => ready.then(r => r.saveChanges(previous, next)),
+    query,
+    findByDateRange: (from, before) => query({ dueFrom: from, dueBefore: before }),
+    findByCategory: (category) => query({ category }),
+    findByStatus: (status) => query({ status }),
+  }
+}
+
+// =============================================================================
+// Singleton access
+// =============================================================================
+
+let repository: TaskRepository | null = null
+
+/**
+ * Shared repository instance for the app
+ */
+export function getTaskRepository(): TaskRepository {
+  if (!repository) {
+    repository = typeof indexedDB !== 'undefined'
+      ? createOpeningRepository()
+      : createLocalStorageRepository()
+  }
+  return repository
+}
+
+/**
+ * Persist successive snapshots of the task list as diffs. Each save is
+ * queued on the repository right away, so a query issued after `save`
+ * observes it. A failed write is retried as part of the next save's diff.
+ */
+export function createTaskSaver(loaded: Task[], repository: TaskRepository = getTaskRepository()): TaskSaver {
+  let saved = loaded
+  let pending = loaded
+
+  return {
+    get pending() {
+      return pending
+    },
+    save: (next) => {
+      const previous = pending
+      pending = next
+      return repository.saveChanges(previous, next).then(
+        () => {
+          saved = next
+        },
+        (error) => {
+          if (pending === next) pending = saved
+          throw error
+        }
+      )
+    },
+  }
+}
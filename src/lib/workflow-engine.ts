@@ -0,0 +1,397 @@
+/**
+ * Workflow Engine
+ *
+ * Runs the agent graph described in `workflow.json`. Nodes execute in
+ * topological order, one level at a time, so fan-out branches run in
+ * parallel and fan-in nodes wait for every upstream branch. Each agent node
+ * receives the user's message plus the normalized `result` of its upstream
+ * agents, and its own result is validated against its response schema.
+ *
+ * Edges may carry a condition to branch on the source node's result:
+ *
+ * ```json
+ * { "source": "triage", "target": "planner", "condition": { "path": "needs_plan", "equals": true } }
+ * ```
+ *
+ * A node runs when at least one incoming edge fires; nodes with no firing
+ * edge are skipped, as are nodes downstream of a failure. Progress is
+ * reported as `workflow_update` events and the run ends with a single
+ * `workflow_completed` event.
+ */
+
+import workflowJson from '../../workflow.json'
+import { generateId } from '@/lib/utils'
+import { validateAgentResult } from '@/lib/response-schemas'
+import { callAIAgent, type AIAgentResponse, type CallAIAgentOptions } from '@/utils/aiAgent'
+import type {
+  ValidationErrorEvent,
+  WorkflowCompletedEvent,
+  WorkflowNodeStatus,
+  WorkflowUpdateEvent,
+} from '@/types'
+
+// =============================================================================
+// Types
+// =============================================================================
+
+export interface WorkflowNode {
+  id: string
+  /** "Input", "Agent" or "Output" */
+  type: string
+  label: string
+  nodeCategory?: string
+  agent_id?: string
+  agent_name?: string
+  position?: { x: number; y: number }
+}
+
+export interface WorkflowEdgeCondition {
+  /** Dotted path into the source node's result, e.g. "actions" or "metadata.route" */
+  path: string
+  /** Fire only when the value equals this; otherwise fire when it is truthy and non-empty */
+  equals?: string | number | boolean
+}
+
+export interface WorkflowEdge {
+  source: string
+  target: string
+  condition?: WorkflowEdgeCondition
+}
+
+export interface WorkflowAgent {
+  agent_id: string
+  name: string
+  type?: string
+  description?: string
+  provider?: string
+  model?: string
+  temperature?: number
+  top_p?: number
+  response_schema?: string
+  /** Roles this agent serves by default (see agent-registry.ts) */
+  roles?: string[]
+}
+
+export interface WorkflowDefinition {
+  workflow_name: string
+  workflow_type?: string
+  nodes: WorkflowNode[]
+  edges: WorkflowEdge[]
+  agents?: WorkflowAgent[]
+}
+
+export interface WorkflowNodeState {
+  status: WorkflowNodeStatus
+  /** Normalized result: the agent's `result`, or the message for input nodes */
+  result?: Record<string, any>
+  error?: string
+  startedAt?: Date
+  finishedAt?: Date
+}
+
+export interface WorkflowRunResult {
+  success: boolean
+  /** Result of each output node, keyed by node ID */
+  outputs: Record<string, Record<string, any>>
+  nodes: Record<string, WorkflowNodeState>
+  error?: string
+  aborted?: boolean
+}
+
+export type WorkflowAgentRunner = (
+  message: string,
+  agentId: string,
+  options: CallAIAgentOptions
+) => Promise<AIAgentResponse>
+
+export interface WorkflowUpstreamResult {
+  node: WorkflowNode
+  result: Record<string, any>
+}
+
+export interface RunWorkflowOptions extends CallAIAgentOptions {
+  /** Calls an agent node (default callAIAgent); swap in streamAIAgent to stream */
+  runAgent?: WorkflowAgentRunner
+  /** Agent to call for a node (default its agent_id); results are still validated against the node's schema */
+  resolveAgentId?: (node: WorkflowNode) => string
+  /** Builds an agent node's message from the input and its upstream agents' results */
+  composeMessage?: (input: string, upstream: WorkflowUpstreamResult[], node: WorkflowNode) => string
+  onEvent?: (event: WorkflowUpdateEvent | WorkflowCompletedEvent) => void
+  onValidationError?: (event: ValidationErrorEvent) => void
+}
+
+// =============================================================================
+// Definition
+// =============================================================================
+
+/** The app's workflow, bundled from workflow.json */
+export const TASKFLOW_WORKFLOW: WorkflowDefinition = workflowJson as WorkflowDefinition
+
+const isInputNode = (node: WorkflowNode) => node.type === 'Input' || node.nodeCategory === 'input'
+const isOutputNode = (node: WorkflowNode) => node.type === 'Output' || node.nodeCategory === 'end'
+const isAgentNode = (node: WorkflowNode) => node.type === 'Agent' || node.nodeCategory === 'agent'
+
+/**
+ * Agent IDs of the workflow's agent nodes, in topological order
+ */
+export function getWorkflowAgentIds(workflow: WorkflowDefinition): string[] {
+  const { levels } = getExecutionLevels(workflow)
+  return levels
+    .flat()
+    .filter(node => isAgentNode(node) && node.agent_id)
+    .map(node => node.agent_id as string)
+}
+
+/**
+ * Structural problems that would stop the workflow from running: unknown
+ * edge endpoints, agent nodes without an agent, missing input node, cycles
+ */
+export function validateWorkflow(workflow: WorkflowDefinition): string[] {
+  const errors: string[] = []
+  const ids = new Set<string>()
+
+  for (const node of workflow.nodes) {
+    if (ids.has(node.id)) errors.push(`Duplicate node "${node.id}"`)
+    ids.add(node.id)
+    if (isAgentNode(node) && !node.agent_id) errors.push(`Agent node "${node.id}" has no agent_id`)
+  }
+
+  for (const edge of workflow.edges) {
+    if (!ids.has(edge.source)) errors.push(`Edge source "${edge.source}" is not a node`)
+    if (!ids.has(edge.target)) errors.push(`Edge target "${edge.target}" is not a node`)
+  }
+
+  if (!workflow.nodes.some(isInputNode)) errors.push('Workflow has no input node')
+
+  const { cycle } = getExecutionLevels(workflow)
+  if (cycle.length > 0) errors.push(`Workflow has a cycle through ${cycle.join(', ')}`)
+
+  return errors
+}
+
+/**
+ * Group nodes into levels (Kahn's algorithm). Every node's upstream nodes
+ * are in earlier levels, so each level can run in parallel. Nodes left over
+ * are part of a cycle.
+ */
+export function getExecutionLevels(workflow: WorkflowDefinition): { levels: WorkflowNode[][]; cycle: string[] } {
+  const nodesById = new Map(workflow.nodes.map(node => [node.id, node]))
+  const inDegree = new Map(workflow.nodes.map(node => [node.id, 0]))
+  const edges = workflow.edges.filter(e => nodesById.has(e.source) && nodesById.has(e.target))
+
+  for (const edge of edges) inDegree.set(edge.target, (inDegree.get(edge.target) || 0) + 1)
+
+  const levels: WorkflowNode[][] = []
+  let current = workflow.nodes.filter(node => inDegree.get(node.id) === 0)
+  const placed = new Set<string>()
+
+  while (current.length > 0) {
+    levels.push(current)
+    current.forEach(node => placed.add(node.id))
+    const next: WorkflowNode[] = []
+    for (const node of current) {
+      for (const edge of edges.filter(e => e.source === node.id)) {
+        const remaining = (inDegree.get(edge.target) || 0) - 1
+        inDegree.set(edge.target, remaining)
+        if (remaining === 0) next.push(nodesById.get(edge.target) as WorkflowNode)
+      }
+    }
+    current = next
+  }
+
+  return { levels, cycle: workflow.nodes.filter(node => !placed.has(node.id)).map(node => node.id) }
+}
+
+// =============================================================================
+// Execution
+// =============================================================================
+
+function getPath(value: unknown, path: string): unknown {
+  return path.split('.').filter(Boolean).reduce<any>((current, key) => current?.[key], value)
+}
+
+/**
+ * Whether an edge fires for its source node's result
+ */
+export function edgeFires(edge: WorkflowEdge, sourceResult: Record<string, any> | undefined): boolean {
+  if (!edge.condition) return true
+  const value = getPath(sourceResult, edge.condition.path)
+  if (edge.condition.equals !== undefined) return value === edge.condition.equals
+  return Array.isArray(value) ? value.length > 0 : Boolean(value)
+}
+
+/**
+ * Default agent message: the user's input, followed by the results of the
+ * upstream agents when there are any
+ */
+export function composeWorkflowMessage(input: string, upstream: WorkflowUpstreamResult[]): string {
+  const agentResults = upstream.filter(({ node }) => !isInputNode(node))
+  if (agentResults.length === 0) return input
+
+  const sections = agentResults.map(({ node, result }) => `[${node.label}]\n${JSON.stringify(result, null, 2)}`)
+  return `${input}\n\nResults from previous steps:\n${sections.join('\n\n')}`
+}
+
+/** Fan-in output nodes merge their inputs; a single input passes through */
+function mergeResults(upstream: WorkflowUpstreamResult[]): Record<string, any> {
+  if (upstream.length === 1) return upstream[0].result
+  return Object.fromEntries(upstream.map(({ node, result }) => [node.id, result]))
+}
+
+/**
+ * Run a workflow for one user input
+ *
+ * Never throws: agent failures mark their node as failed and skip the nodes
+ * downstream of it, and the run reports `success: false`.
+ *
+ * @example
+ * ```ts
+ * const run = await runWorkflow(TASKFLOW_WORKFLOW, 'Plan my week', {
+ *   onEvent: (event) => console.log(getEventMessage(event)),
+ * })
+ * if (run.success) console.log(run.outputs.response_output)
+ * ```
+ */
+export async function runWorkflow(
+  workflow: WorkflowDefinition,
+  input: string,
+  options: RunWorkflowOptions = {}
+): Promise<WorkflowRunResult> {
+  const {
+    runAgent = callAIAgent,
+    resolveAgentId = (node: WorkflowNode) => node.agent_id as string,
+    composeMessage = composeWorkflowMessage,
+    onEvent,
+    onValidationError,
+    ...agentOptions
+  } = options
+  const requestId = generateId()
+  const nodes: Record<string, WorkflowNodeState> = Object.fromEntries(
+    workflow.nodes.map(node => [node.id, { status: 'pending' as WorkflowNodeStatus }])
+  )
+
+  const emitUpdate = (nodeId: string) => {
+    onEvent?.({
+      type: 'workflow_update',
+      request_id: requestId,
+      session_id: agentOptions.session_id,
+      timestamp: new Date().toISOString(),
+      workflow_state: {
+        agents: workflow.agents || [],
+        knowledge_bases: [],
+        workflow: {
+          nodes: workflow.nodes.map(node => ({ ...node, status: nodes[node.id].status })),
+          edges: workflow.edges,
+        },
+        last_updated: new Date().toISOString(),
+      },
+      node_id: nodeId,
+      node_status: nodes[nodeId].status,
+      node_error: nodes[nodeId].error,
+    })
+  }
+
+  const setState = (nodeId: string, state: Partial<WorkflowNodeState>) => {
+    nodes[nodeId] = { ...nodes[nodeId], ...state }
+    emitUpdate(nodeId)
+  }
+
+  const finish = (result: Omit<WorkflowRunResult, 'nodes'>): WorkflowRunResult => {
+    onEvent?.({
+      type: 'workflow_completed',
+      request_id: requestId,
+      session_id: agentOptions.session_id,
+      timestamp: new Date().toISOString(),
+      workflow_name: workflow.workflow_name,
+      success: result.success,
+      aborted: result.aborted,
+      outputs: result.outputs,
+      error: result.error,
+    })
+    return { ...result, nodes }
+  }
+
+  const problems = validateWorkflow(workflow)
+  if (problems.length > 0) {
+    return finish({ success: false, outputs: {}, error: problems.join('; ') })
+  }
+
+  const nodesById = new Map(workflow.nodes.map(node => [node.id, node]))
+
+  const runNode = async (node: WorkflowNode) => {
+    const incoming = workflow.edges.filter(e => e.target === node.id)
+    const failedUpstream = incoming.find(e => nodes[e.source].status === 'failed')
+
+    if (agentOptions.signal?.aborted) {
+      setState(node.id, { status: 'skipped', error: 'Cancelled' })
+      return
+    }
+    if (failedUpstream) {
+      setState(node.id, { status: 'skipped', error: `Upstream node "${failedUpstream.source}" failed` })
+      return
+    }
+
+    const fired = incoming.filter(e => nodes[e.source].status === 'completed' && edgeFires(e, nodes[e.source].result))
+    if (incoming.length > 0 && fired.length === 0) {
+      setState(node.id, { status: 'skipped' })
+      return
+    }
+
+    const upstream = fired.map(e => ({ node: nodesById.get(e.source) as WorkflowNode, result: nodes[e.source].result || {} }))
+    setState(node.id, { status: 'running', startedAt: new Date() })
+
+    if (isInputNode(node)) {
+      setState(node.id, { status: 'completed', result: { message: input }, finishedAt: new Date() })
+      return
+    }
+
+    if (!isAgentNode(node)) {
+      setState(node.id, { status: 'completed', result: mergeResults(upstream), finishedAt: new Date() })
+      return
+    }
+
+    const response = await runAgent(composeMessage(input, upstream, node), resolveAgentId(node), agentOptions)
+    if (response.aborted) {
+      setState(node.id, { status: 'skipped', error: 'Cancelled', finishedAt: new Date() })
+      return
+    }
+    if (!response.success || response.response.status === 'error') {
+      setState(node.id, {
+        status: 'failed',
+        error: response.response.message || response.error || `Agent ${node.label} failed`,
+        finishedAt: new Date(),
+      })
+      return
+    }
+
+    const { data } = validateAgentResult(node.agent_id as string, response.response.result, {
+      path: `${node.id}.result`,
+      requestId,
+      onValidationError,
+    })
+    setState(node.id, { status: 'completed', result: data, finishedAt: new Date() })
+  }
+
+  for (const level of getExecutionLevels(workflow).levels) {
+    await Promise.all(level.map(runNode))
+  }
+
+  const outputs = Object.fromEntries(
+    workflow.nodes
+      .filter(node => isOutputNode(node) && nodes[node.id].status === 'completed')
+      .map(node => [node.id, nodes[node.id].result as Record<string, any>])
+  )
+  const failed = workflow.nodes.filter(node => nodes[node.id].status === 'failed')
+  const aborted = Boolean(agentOptions.signal?.aborted)
+
+  return finish({
+    success: failed.length === 0 && !aborted && Object.keys(outputs).length > 0,
+    outputs,
+    error: failed.length > 0
+      ? failed.map(node => nodes[node.id].error).join('; ')
+      : aborted
+        ? 'Cancelled'
+        : Object.keys(outputs).length === 0 ? 'No output node was reached' : undefined,
+    aborted,
+  })
+}
@@ -1,4 +1,5 @@
-import { useState, useEffect } from 'react'
+import { useState, useEffect, useRef, useCallback, useMemo } from 'react'
+import { toast } from 'sonner'
 import { Button } from '@/components/ui/button'
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card'
 import { Input } from '@/components/ui/input'
@@ -12,6 +13,17 @@ import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@
 import { Calendar } from '@/components/ui/calendar'
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog'
 import { Tabs, TabsContent, TabsList, TabsTrigger } from '@/components/ui/tabs'
+import { Popover, PopoverContent, PopoverTrigger } from '@/components/ui/popover'
+import { Switch } from '@/components/ui/switch'
+import {
+  CommandDialog,
+  CommandEmpty,
+  CommandGroup,
+  CommandInput,
+  CommandItem,
+  CommandList,
+  CommandShortcut
+} from '@/components/ui/command'
 import {
   Plus,
   Check,
@@ -28,42 +40,208 @@ import {
   Sparkles,
   PlayCircle,
   PauseCircle,
-  Circle
+  Circle,
+  ListChecks,
+  Repeat,
+  Link2,
+  SquareKanban,
+  AlertTriangle,
+  CalendarDays,
+  ChevronLeft,
+  Eye,
+  EyeOff,
+  Undo2,
+  Redo2,
+  Search,
+  MessagesSquare,
+  Tag,
+  History,
+  Pencil,
+  Square,
+  Settings,
+  ChevronUp,
+  ChevronDown,
+  Archive,
+  ArchiveRestore,
+  FolderOpen,
+  CheckSquare,
+  Filter,
+  GripVertical,
+  ArrowUpDown,
+  CalendarClock,
+  Timer,
+  Globe
 } from 'lucide-react'
-import { callAIAgent } from '@/utils/aiAgent'
+import { callAIAgent, streamAIAgent } from '@/utils/aiAgent'
+import { extractPartialStringField } from '@/lib/json-parser'
+import { getEventMessage } from '@/lib/event-parser'
+import { validateAgentResult } from '@/lib/response-schemas'
+import { runWorkflow, TASKFLOW_WORKFLOW } from '@/lib/workflow-engine'
+import {
+  AGENT_ROLES,
+  getDefaultAgentId,
+  getRegisteredAgent,
+  isValidAgentId,
+  type AgentAssignments,
+  type AgentRole
+} from '@/lib/agent-registry'
 import type { NormalizedAgentResponse } from '@/utils/aiAgent'
-import { cn } from '@/lib/utils'
-
-// TypeScript interfaces based on actual agent response
-interface TaskAssistantResult {
-  answer: string
-  tips: string[]
-  priority_suggestions: string[]
-  related_topics: string[]
-}
+import { cn, generateId } from '@/lib/utils'
+import {
+  MAX_SUBTASK_DEPTH,
+  getSubtaskProgress,
+  addSubtask,
+  toggleSubtask,
+  removeSubtask,
+  setTaskStatus
+} from '@/lib/subtasks'
+import {
+  WEEKDAYS,
+  advanceRecurringTask,
+  anchorRecurrence,
+  describeRecurrence,
+  expandOccurrences,
+  getWeekdayPosition,
+  getSeriesDay,
+  toRRuleString,
+  type TaskOccurrence
+} from '@/lib/recurrence'
+import {
+  addDependency,
+  getDependencies,
+  getEffectiveStatus,
+  indexTasks,
+  pruneDependencies,
+  removeDependency,
+  type TaskIndex
+} from '@/lib/dependencies'
+import { createTaskSaver, getTaskRepository, type TaskQuery, type TaskSaver } from '@/lib/task-repository'
+import { buildTaskContext, composeAgentMessage } from '@/lib/task-context'
+import {
+  describeAgentAction,
+  normalizeAgentActions,
+  parseActionDate,
+  resolveActionTarget,
+  validateAgentAction,
+  type ActionProposal,
+  type AgentTaskAction,
+  type AppliedAgentAction
+} from '@/lib/agent-actions'
+import {
+  getCalendarRange,
+  getCalendarTitle,
+  shiftCalendar,
+  type CalendarMode
+} from '@/lib/calendar'
+import {
+  BOARD_COLUMNS,
+  getAdjacentColumn,
+  getWipState,
+  loadWipLimits,
+  saveWipLimits,
+  type WipLimits
+} from '@/lib/board'
+import { parseQuickAdd } from '@/lib/quick-add-parser'
+import {
+  CATEGORY_COLORS,
+  CATEGORY_SWATCH_CLASSES,
+  belongsToCategory,
+  findCategory,
+  findProject,
+  getActiveCategories,
+  getActiveProjects,
+  getCategoryColor,
+  getDefaultCategoryName,
+  type Category,
+  type CategoryColor,
+  type CategoryResult
+} from '@/lib/categories'
+import { deriveThreadTitle, getInstallUserId, loadChatThreads, type ChatMessage } from '@/lib/chat-history'
+import { fuzzyScore, searchIndex, type SearchDocument } from '@/lib/search-index'
+import { useTaskQuery } from '@/hooks/useTaskQuery'
+import { useRollover } from '@/hooks/useRollover'
+import { useTimeZone } from '@/hooks/useTimeZone'
+import { useChatThreads } from '@/hooks/useChatThreads'
+import { useAgentAssignments } from '@/hooks/useAgentAssignments'
+import { useTaskHistory } from '@/hooks/useTaskHistory'
+import { useSearchIndex } from '@/hooks/useSearchIndex'
+import {
+  applyBatchAction,
+  describeBatchAction,
+  selectRange,
+  toggleSelection,
+  type BatchAction
+} from '@/lib/batch-actions'
+import { useCategories } from '@/hooks/useCategories'
+import { useSmartLists } from '@/hooks/useSmartLists'
+import {
+  applyQuerySuggestion,
+  filterTasksByQuery,
+  getQuerySuggestions,
+  parseFilterQuery,
+  type QuerySuggestion
+} from '@/lib/filter-query'
+import type { SmartList, SmartListResult } from '@/lib/smart-lists'
+import {
+  SORT_MODES,
+  getAppendRank,
+  loadSortModes,
+  moveTask,
+  saveSortModes,
+  sortTasks,
+  type SortMode,
+  type SortModes
+} from '@/lib/task-order'
+import {
+  OPEN_STATUSES,
+  formatOverdue,
+  getDaysOverdue,
+  getOverdueTasks,
+  isOverdue,
+  type RolloverEntry
+} from '@/lib/overdue'
+import {
+  DURATION_OPTIONS,
+  addDaysToKey,
+  alignDueDate,
+  alignDueDates,
+  buildDue,
+  differenceInZonedDays,
+  formatDueTime,
+  formatDuration,
+  getActiveTimeZone,
+  getAvailableTimeZones,
+  getDayBounds,
+  getDayKeyInZone,
+  getLocalDayKey,
+  getLocalTimeOfDay,
+  moveDueToDay,
+  zonedTimeToDate
+} from '@/lib/due-time'
+import { diffTasks, type HistoryDirection } from '@/lib/task-history'
+import type { RecurrenceRule, Subtask, Task, TaskAssistantAgentResult, TaskStatus, ValidationErrorEvent } from '@/types'
 
-interface Task {
-  id: string
-  title: string
-  completed: boolean
-  priority: 'low' | 'medium' | 'high'
-  category: string
-  status: 'not-started' | 'in-progress' | 'blocked' | 'completed'
-  dueDate: Date
-  createdAt: Date
-}
+// Replies are validated against the default assistant's schema, even when Settings points
+// the role at another agent
+const TASK_ASSISTANT_AGENT_ID = getDefaultAgentId('task_assistant')
 
-interface ChatMessage {
-  id: string
-  type: 'user' | 'assistant'
-  content: string
-  tips?: string[]
-  prioritySuggestions?: string[]
-  relatedTopics?: string[]
-  timestamp: Date
+// Agent results are checked against response_schemas; deviations are logged, not shown.
+// Optional fields left out of individual actions are expected and not logged.
+const logValidationError = (event: ValidationErrorEvent) => {
+  if (event.data?.code === 'missing' && event.context.includes('[')) return
+  console.warn(getEventMessage(event))
 }
 
-const AGENT_ID = "697176e5d6d0dcaec1119067"
+const validateAssistantResult = (result: unknown) =>
+  validateAgentResult<TaskAssistantAgentResult>(TASK_ASSISTANT_AGENT_ID, result, { onValidationError: logValidationError }).data
+
+type HomeView = 'today' | 'upcoming' | 'board' | 'calendar' | 'lists' | 'stats' | 'smart'
+
+// Undo/redo toasts replace each other instead of stacking
+const HISTORY_TOAST_ID = 'task-history'
+
+// How far ahead the Upcoming view previews recurring occurrences
+const UPCOMING_OCCURRENCE_DAYS = 30
 
 // Priority color mapping
 const getPriorityColor = (priority: string) => {
@@ -79,20 +257,6 @@ const getPriorityColor = (priority: string) => {
   }
 }
 
-// Category color mapping
-const getCategoryColor = (category: string) => {
-  switch (category) {
-    case 'Work':
-      return 'bg-blue-500/10 text-blue-500 border-blue-500/20'
-    case 'Personal':
-      return 'bg-purple-500/10 text-purple-500 border-purple-500/20'
-    case 'Shopping':
-      return 'bg-green-500/10 text-green-500 border-green-500/20'
-    default:
-      return 'bg-gray-500/10 text-gray-500 border-gray-500/20'
-  }
-}
-
 // Status configuration
 const getStatusConfig = (status: string) => {
   switch (status) {
@@ -134,41 +298,198 @@ const getStatusConfig = (status: string) => {
   }
 }
 
-// Format date helper
-const formatDate = (date: Date) => {
-  const today = new Date()
-  const tomorrow = new Date(today)
-  tomorrow.setDate(tomorrow.getDate() + 1)
+// Format date helper; with showOverdue, past dates read as "2 days overdue"
+const formatDate = (date: Date, showOverdue = false) => {
+  const daysOverdue = showOverdue ? getDaysOverdue(date) : 0
+  if (daysOverdue > 0) return formatOverdue(daysOverdue)
 
-  if (date.toDateString() === today.toDateString()) return 'Today'
-  if (date.toDateString() === tomorrow.toDateString()) return 'Tomorrow'
-  return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })
+  // Days are counted in the user's chosen zone, not the browser's
+  const timeZone = getActiveTimeZone()
+  const days = differenceInZonedDays(date, new Date(), timeZone)
+  if (days === 0) return 'Today'
+  if (days === 1) return 'Tomorrow'
+  return date.toLocaleDateString('en-US', { month: 'short', day: 'numeric', timeZone })
 }
 
 // Task Card Component
 function TaskCard({
   task,
+  taskIndex,
+  categories,
+  highlighted,
+  selected,
+  selectionMode,
+  onSelect,
+  reorderable,
+  onReorderStart,
+  onReorderEnd,
+  onMove,
   onToggle,
   onDelete,
-  onStatusChange
+  onStatusChange,
+  onAddSubtask,
+  onToggleSubtask,
+  onDeleteSubtask,
+  onAddDependency,
+  onRemoveDependency,
+  onJumpToTask
 }: {
   task: Task
+  taskIndex: TaskIndex
+  categories: Category[]
+  highlighted?: boolean
+  selected?: boolean
+  selectionMode?: boolean
+  /** Selection mode click; extend is true for shift-click */
+  onSelect?: (extend: boolean) => void
+  /** Show the drag handle for manual ordering */
+  reorderable?: boolean
+  onReorderStart?: () => void
+  onReorderEnd?: () => void
+  /** Keyboard reorder from the drag handle: -1 moves up, 1 down */
+  onMove?: (direction: -1 | 1) => void
   onToggle: () => void
   onDelete: () => void
   onStatusChange: (status: Task['status']) => void
+  /** Adds a top-level step, or one nested under `parentId` */
+  onAddSubtask: (title: string, parentId?: string) => void
+  onToggleSubtask: (subtaskId: string) => void
+  onDeleteSubtask: (subtaskId: string) => void
+  onAddDependency: (dependencyId: string) => string | undefined
+  onRemoveDependency: (dependencyId: string) => void
+  onJumpToTask: (id: string) => void
 }) {
-  const statusConfig = getStatusConfig(task.status)
+  const [showSubtasks, setShowSubtasks] = useState(false)
+  const [subtaskTitle, setSubtaskTitle] = useState('')
+  // Subtask the next step is added under, or null for a top-level step
+  const [subtaskParent, setSubtaskParent] = useState<Subtask | null>(null)
+  const [dependencyError, setDependencyError] = useState<string | null>(null)
+  const status = getEffectiveStatus(task, taskIndex)
+  const statusConfig = getStatusConfig(status)
   const StatusIcon = statusConfig.icon
+  const subtasks = task.subtasks || []
+  const progress = getSubtaskProgress(task)
+  const dependencies = getDependencies(task, taskIndex)
+  const project = findProject(categories, task.projectId)
+  const blockingCount = task.completed ? 0 : dependencies.filter(d => !d.completed).length
+  const overdue = !task.completed && getDaysOverdue(task.dueDate) > 0
+  const dueTime = formatDueTime(task)
+  const dependencyOptions = Array.from(taskIndex.values()).filter(t =>
+    t.id !== task.id && !task.dependsOn?.includes(t.id)
+  )
+
+  const handleAddDependency = (dependencyId: string) => {
+    setDependencyError(onAddDependency(dependencyId) || null)
+  }
+
+  const handleAddSubtask = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (!subtaskTitle.trim()) return
+    onAddSubtask(subtaskTitle, subtaskParent?.id)
+    setSubtaskTitle('')
+  }
+
+  const renderSubtasks = (items: Subtask[], depth: number): React.ReactNode => items.map(subtask => (
+    <div key={subtask.id} className="space-y-1.5">
+      <div className="group flex items-center gap-2">
+        <Checkbox
+          checked={subtask.completed}
+          onCheckedChange={() => onToggleSubtask(subtask.id)}
+          className="h-3.5 w-3.5"
+        />
+        <span className={cn(
+          "flex-1 text-sm text-gray-700 dark:text-gray-300",
+          subtask.completed && "line-through text-gray-400"
+        )}>
+          {subtask.title}
+        </span>
+        {depth < MAX_SUBTASK_DEPTH && (
+          <Button
+            variant="ghost"
+            size="icon"
+            className="h-6 w-6 text-gray-400 hover:text-[#6B4EE6] opacity-0 group-hover:opacity-100"
+            onClick={() => setSubtaskParent(subtask)}
+            aria-label={`Add a step under ${subtask.title}`}
+          >
+            <Plus className="w-3 h-3" />
+          </Button>
+        )}
+        <Button
+          variant="ghost"
+          size="icon"
+          className="h-6 w-6 text-gray-400 hover:text-red-500 opacity-0 group-hover:opacity-100"
+          onClick={() => {
+            if (subtaskParent?.id === subtask.id) setSubtaskParent(null)
+            onDeleteSubtask(subtask.id)
+          }}
+        >
+          <X className="w-3 h-3" />
+        </Button>
+      </div>
+      {subtask.subtasks && subtask.subtasks.length > 0 && (
+        <div className="ml-5 space-y-1.5">{renderSubtasks(subtask.subtasks, depth + 1)}</div>
+      )}
+    </div>
+  ))
+
+  // In selection mode a click anywhere but the card's own controls selects it
+  const handleCardClick = (e: React.MouseEvent) => {
+    if (!selectionMode || !onSelect) return
+    if ((e.target as HTMLElement).closest('button, input, a, [role="combobox"], [role="option"]')) return
+    onSelect(e.shiftKey)
+  }
 
   return (
-    <Card className="bg-white dark:bg-gray-800 border-gray-200 dark:border-gray-700 mb-3">
+    <Card
+      id={`task-${task.id}`}
+      className={cn(
+        "bg-white dark:bg-gray-800 border-gray-200 dark:border-gray-700 mb-3 transition-shadow",
+        highlighted && "ring-2 ring-[#6B4EE6]",
+        selected && !highlighted && "ring-2 ring-[#6B4EE6]/40 bg-[#6B4EE6]/5",
+        selectionMode && "cursor-pointer select-none"
+      )}
+      onClick={handleCardClick}
+    >
       <CardContent className="p-4">
         <div className="flex items-start gap-3">
-          <Checkbox
-            checked={task.completed}
-            onCheckedChange={onToggle}
-            className="mt-1"
-          />
+          {reorderable && (
+            <button
+              type="button"
+              draggable
+              data-reorder-handle
+              onDragStart={(e) => {
+                e.dataTransfer.effectAllowed = 'move'
+                e.dataTransfer.setData('text/plain', task.id)
+                const card = e.currentTarget.closest(`#task-${CSS.escape(task.id)}`)
+                if (card) e.dataTransfer.setDragImage(card, 16, 16)
+                onReorderStart?.()
+              }}
+              onDragEnd={onReorderEnd}
+              onKeyDown={(e) => {
+                if (e.key !== 'ArrowUp' && e.key !== 'ArrowDown') return
+                e.preventDefault()
+                onMove?.(e.key === 'ArrowUp' ? -1 : 1)
+              }}
+              className="mt-1 -ml-2 -mr-1 rounded text-gray-300 hover:text-gray-500 cursor-grab active:cursor-grabbing focus:outline-none focus-visible:ring-2 focus-visible:ring-[#6B4EE6]"
+              aria-label={`Reorder ${task.title}. Use up and down arrow keys to move.`}
+            >
+              <GripVertical className="w-4 h-4" />
+            </button>
+          )}
+          {selectionMode ? (
+            <Checkbox
+              checked={Boolean(selected)}
+              onClick={(e) => onSelect?.(e.shiftKey)}
+              className="mt-1 border-[#6B4EE6] data-[state=checked]:bg-[#6B4EE6]"
+              aria-label={`Select ${task.title}`}
+            />
+          ) : (
+            <Checkbox
+              checked={task.completed}
+              onCheckedChange={onToggle}
+              className="mt-1"
+            />
+          )}
           <div className="flex-1 min-w-0">
             <h3 className={cn(
               "text-base font-medium text-gray-900 dark:text-white",
@@ -177,17 +498,71 @@ function TaskCard({
               {task.title}
             </h3>
             <div className="flex items-center gap-2 mt-2 flex-wrap">
-              <div className="flex items-center gap-1 text-sm text-gray-500">
+              <div className={cn("flex items-center gap-1 text-sm", overdue ? "text-red-600 font-medium" : "text-gray-500")}>
                 <Clock className="w-3 h-3" />
-                <span>{formatDate(task.dueDate)}</span>
+                <span>{formatDate(task.dueDate, !task.completed)}{dueTime && ` · ${dueTime}`}</span>
               </div>
+              {!!task.durationMinutes && (
+                <div className="flex items-center gap-1 text-xs text-gray-500" title="Estimated duration">
+                  <Timer className="w-3 h-3" />
+                  <span>{formatDuration(task.durationMinutes)}</span>
+                </div>
+              )}
               <div className={cn("w-2 h-2 rounded-full", getPriorityColor(task.priority))} />
-              <Badge variant="outline" className={cn("text-xs", getCategoryColor(task.category))}>
+              <Badge variant="outline" className={cn("text-xs", getCategoryColor(categories, task.category))}>
                 {task.category}
+                {project && ` / ${project.name}`}
               </Badge>
+              {task.recurrence && (
+                <div
+                  className="flex items-center gap-1 text-xs text-gray-500"
+                  title={toRRuleString(task.recurrence)}
+                >
+                  <Repeat className="w-3 h-3" />
+                  <span>{describeRecurrence(task.recurrence, getSeriesDay(task))}</span>
+                </div>
+              )}
             </div>
-            <div className="mt-2">
-              <Select value={task.status} onValueChange={(value) => onStatusChange(value as Task['status'])}>
+            {dependencies.length > 0 && (
+              <div className="flex items-center gap-1.5 mt-2 flex-wrap">
+                <span className="text-xs text-gray-500">Depends on</span>
+                {dependencies.map(dependency => (
+                  <Badge
+                    key={dependency.id}
+                    variant="outline"
+                    className={cn(
+                      "text-xs gap-1 cursor-pointer max-w-[200px]",
+                      dependency.completed
+                        ? "text-gray-400 line-through"
+                        : "bg-orange-50 text-orange-600 border-orange-200 dark:bg-orange-950/30"
+                    )}
+                    onClick={() => onJumpToTask(dependency.id)}
+                  >
+                    <Link2 className="w-3 h-3 flex-shrink-0" />
+                    <span className="truncate">{dependency.title}</span>
+                    {showSubtasks && (
+                      <X
+                        className="w-3 h-3 flex-shrink-0 hover:text-red-500"
+                        onClick={(e) => {
+                          e.stopPropagation()
+                          onRemoveDependency(dependency.id)
+                        }}
+                      />
+                    )}
+                  </Badge>
+                ))}
+              </div>
+            )}
+            {progress.total > 0 && (
+              <div className="flex items-center gap-2 mt-2">
+                <Progress value={progress.percent} className="h-1.5 flex-1" />
+                <span className="text-xs text-gray-500 tabular-nums">
+                  {progress.completed}/{progress.total}
+                </span>
+              </div>
+            )}
+            <div className="mt-2 flex items-center gap-2">
+              <Select value={status} onValueChange={(value) => onStatusChange(value as Task['status'])}>
                 <SelectTrigger className={cn("h-7 text-xs w-auto min-w-[130px]", statusConfig.bgColor)}>
                   <div className="flex items-center gap-1.5">
                     <StatusIcon className={cn("w-3 h-3", statusConfig.color)} />
@@ -221,55 +596,527 @@ function TaskCard({
                   </SelectItem>
                 </SelectContent>
               </Select>
+              {blockingCount > 0 && (
+                <span className="text-xs text-orange-500">
+                  Waiting on {blockingCount} {blockingCount === 1 ? 'task' : 'tasks'}
+                </span>
+              )}
+            </div>
+            {showSubtasks && (
+              <div className="mt-3 space-y-1.5">
+                {renderSubtasks(subtasks, 1)}
+                {subtaskParent && (
+                  <div className="flex items-center gap-1 pt-1 text-xs text-gray-500">
+                    <span className="truncate">Adding under "{subtaskParent.title}"</span>
+                    <button
+                      type="button"
+                      className="text-[#6B4EE6] hover:underline flex-shrink-0"
+                      onClick={() => setSubtaskParent(null)}
+                    >
+                      Cancel
+                    </button>
+                  </div>
+                )}
+                <form onSubmit={handleAddSubtask} className="flex gap-2 pt-1">
+                  <Input
+                    value={subtaskTitle}
+                    onChange={(e) => setSubtaskTitle(e.target.value)}
+                    placeholder={subtaskParent ? 'Add a nested step...' : 'Add a step...'}
+                    className="h-7 text-sm"
+                  />
+                  <Button
+                    type="submit"
+                    size="sm"
+                    variant="outline"
+                    className="h-7"
+                    disabled={!subtaskTitle.trim()}
+                  >
+                    <Plus className="w-3 h-3" />
+                  </Button>
+                </form>
+                {dependencyOptions.length > 0 && (
+                  <div className="pt-1">
+                    <Select value="" onValueChange={handleAddDependency}>
+                      <SelectTrigger className="h-7 text-xs">
+                        <div className="flex items-center gap-1.5">
+                          <Link2 className="w-3 h-3 text-gray-400" />
+                          <SelectValue placeholder="Add dependency..." />
+                        </div>
+                      </SelectTrigger>
+                      <SelectContent>
+                        {dependencyOptions.map(option => (
+                          <SelectItem key={option.id} value={option.id}>
+                            {option.title}
+                          </SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                    {dependencyError && (
+                      <p className="text-xs text-red-500 mt-1">{dependencyError}</p>
+                    )}
+                  </div>
+                )}
+              </div>
+            )}
+          </div>
+          <div className="flex flex-col items-center">
+            <Button
+              variant="ghost"
+              size="icon"
+              className="h-8 w-8 text-gray-400 hover:text-red-500"
+              onClick={onDelete}
+            >
+              <Trash2 className="w-4 h-4" />
+            </Button>
+            <Button
+              variant="ghost"
+              size="icon"
+              className={cn("h-8 w-8 text-gray-400", showSubtasks && "text-[#6B4EE6]")}
+              onClick={() => setShowSubtasks(prev => !prev)}
+              aria-label={showSubtasks ? 'Hide subtasks' : 'Show subtasks'}
+            >
+              <ListChecks className="w-4 h-4" />
+            </Button>
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  )
+}
+
+// Occurrence Card Component - read-only preview of a future recurring occurrence
+function OccurrenceCard({ occurrence, categories }: { occurrence: TaskOccurrence; categories: Category[] }) {
+  const { task, date } = occurrence
+
+  return (
+    <Card className="bg-white/60 dark:bg-gray-800/60 border-dashed border-gray-200 dark:border-gray-700 mb-3">
+      <CardContent className="p-4">
+        <div className="flex items-start gap-3">
+          <Repeat className="w-4 h-4 mt-1 text-gray-400" />
+          <div className="flex-1 min-w-0">
+            <h3 className="text-base font-medium text-gray-500 dark:text-gray-400">
+              {task.title}
+            </h3>
+            <div className="flex items-center gap-2 mt-2 flex-wrap">
+              <div className="flex items-center gap-1 text-sm text-gray-500">
+                <Clock className="w-3 h-3" />
+                <span>{formatDate(date)}</span>
+              </div>
+              <div className={cn("w-2 h-2 rounded-full", getPriorityColor(task.priority))} />
+              <Badge variant="outline" className={cn("text-xs", getCategoryColor(categories, task.category))}>
+                {task.category}
+              </Badge>
+              <span className="text-xs text-gray-400">
+                {describeRecurrence(task.recurrence, getSeriesDay(task))}
+              </span>
             </div>
           </div>
-          <Button
-            variant="ghost"
-            size="icon"
-            className="h-8 w-8 text-gray-400 hover:text-red-500"
-            onClick={onDelete}
-          >
-            <Trash2 className="w-4 h-4" />
-          </Button>
         </div>
       </CardContent>
     </Card>
   )
 }
 
+// Batch Action Bar Component - edits every selected task at once in selection mode
+const SHIFT_OPTIONS = [
+  { days: -7, label: '1 week earlier' },
+  { days: -1, label: '1 day earlier' },
+  { days: 1, label: '1 day later' },
+  { days: 7, label: '1 week later' }
+]
+
+function BatchActionBar({
+  selectedCount,
+  visibleCount,
+  allVisibleSelected,
+  categories,
+  onSelectAll,
+  onClear,
+  onAction,
+  onDone
+}: {
+  selectedCount: number
+  visibleCount: number
+  allVisibleSelected: boolean
+  categories: Category[]
+  onSelectAll: () => void
+  onClear: () => void
+  onAction: (action: BatchAction) => void
+  onDone: () => void
+}) {
+  const disabled = selectedCount === 0
+  const categoryOptions = getActiveCategories(categories).flatMap(category => [
+    { key: category.id, label: category.name, category: category.name, projectId: undefined as string | undefined },
+    ...getActiveProjects(category).map(project => ({
+      key: `${category.id}/${project.id}`,
+      label: `${category.name} / ${project.name}`,
+      category: category.name,
+      projectId: project.id
+    }))
+  ])
+
+  const handleCategoryChange = (key: string) => {
+    const option = categoryOptions.find(o => o.key === key)
+    if (option) onAction({ type: 'set_category', category: option.category, projectId: option.projectId })
+  }
+
+  return (
+    <div className="fixed bottom-20 left-0 right-0 px-6 z-10">
+      <div
+        className="max-w-4xl mx-auto rounded-lg border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 shadow-lg p-3 flex flex-wrap items-center gap-2"
+        role="toolbar"
+        aria-label="Batch actions"
+      >
+        <span className="text-sm font-medium text-gray-900 dark:text-white" aria-live="polite">
+          {selectedCount} selected
+        </span>
+        <Button
+          variant="ghost"
+          size="sm"
+          className="h-8 text-xs"
+          onClick={allVisibleSelected ? onClear : onSelectAll}
+          disabled={visibleCount === 0}
+        >
+          {allVisibleSelected ? 'Clear' : `Select all (${visibleCount})`}
+        </Button>
+        <div className="flex-1" />
+        <Select value="" onValueChange={(value) => onAction({ type: 'set_status', status: value as TaskStatus })} disabled={disabled}>
+          <SelectTrigger className="h-8 w-auto text-xs">
+            <SelectValue placeholder="Status" />
+          </SelectTrigger>
+          <SelectContent>
+            {BOARD_COLUMNS.map(status => (
+              <SelectItem key={status} value={status}>{getStatusConfig(status).label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value="" onValueChange={(value) => onAction({ type: 'set_priority', priority: value as Task['priority'] })} disabled={disabled}>
+          <SelectTrigger className="h-8 w-auto text-xs">
+            <SelectValue placeholder="Priority" />
+          </SelectTrigger>
+          <SelectContent>
+            {(['high', 'medium', 'low'] as const).map(priority => (
+              <SelectItem key={priority} value={priority}>
+                <div className="flex items-center gap-2 capitalize">
+                  <div className={cn("w-2 h-2 rounded-full", getPriorityColor(priority))} />
+                  {priority}
+                </div>
+              </SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value="" onValueChange={handleCategoryChange} disabled={disabled}>
+          <SelectTrigger className="h-8 w-auto text-xs">
+            <SelectValue placeholder="Category" />
+          </SelectTrigger>
+          <SelectContent>
+            {categoryOptions.map(option => (
+              <SelectItem key={option.key} value={option.key}>{option.label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Select value="" onValueChange={(value) => onAction({ type: 'shift_due', days: Number(value) })} disabled={disabled}>
+          <SelectTrigger className="h-8 w-auto text-xs">
+            <SelectValue placeholder="Due date" />
+          </SelectTrigger>
+          <SelectContent>
+            {SHIFT_OPTIONS.map(({ days, label }) => (
+              <SelectItem key={days} value={String(days)}>{label}</SelectItem>
+            ))}
+          </SelectContent>
+        </Select>
+        <Button
+          variant="outline"
+          size="sm"
+          className="h-8 gap-1 text-xs text-red-600 hover:text-red-700"
+          onClick={() => onAction({ type: 'delete' })}
+          disabled={disabled}
+        >
+          <Trash2 className="w-3.5 h-3.5" />
+          Delete
+        </Button>
+        <Button size="sm" className="h-8 text-xs bg-[#6B4EE6] hover:bg-[#5a3ec5]" onClick={onDone}>
+          Done
+        </Button>
+      </div>
+    </div>
+  )
+}
+
+type RepeatPreset = 'none' | 'daily' | 'weekdays' | 'weekly' | 'monthly' | 'yearly'
+
+const getRepeatPreset = (rule?: RecurrenceRule): RepeatPreset => {
+  if (!rule) return 'none'
+  if (rule.freq === 'weekly' && rule.interval === 1 && rule.byWeekday?.join() === WEEKDAYS.join()) {
+    return 'weekdays'
+  }
+  return rule.freq
+}
+
+// Recurrence Editor Component
+function RecurrenceEditor({
+  value,
+  anchor,
+  onChange
+}: {
+  value?: RecurrenceRule
+  anchor: Date
+  onChange: (rule?: RecurrenceRule) => void
+}) {
+  const preset = getRepeatPreset(value)
+  const weekdayLabels = ['S', 'M', 'T', 'W', 'T', 'F', 'S']
+  const unitLabels: Record<RecurrenceRule['freq'], string> = {
+    daily: 'day(s)',
+    weekly: 'week(s)',
+    monthly: 'month(s)',
+    yearly: 'year(s)'
+  }
+  const weekdayName = anchor.toLocaleDateString('en-US', { weekday: 'long' })
+  const position = getWeekdayPosition(anchor)
+  const positionLabel = position === -1 ? 'last' : ['1st', '2nd', '3rd', '4th'][position - 1]
+
+  const handlePresetChange = (next: RepeatPreset) => {
+    switch (next) {
+      case 'none':
+        onChange(undefined)
+        break
+      case 'weekdays':
+        onChange({ freq: 'weekly', interval: 1, byWeekday: WEEKDAYS })
+        break
+      case 'weekly':
+        onChange({ freq: 'weekly', interval: 1, byWeekday: [anchor.getDay()] })
+        break
+      case 'monthly':
+        onChange({ freq: 'monthly', interval: 1, byMonthDay: anchor.getDate() })
+        break
+      default:
+        onChange({ freq: next, interval: 1 })
+    }
+  }
+
+  const handleWeekdayToggle = (day: number) => {
+    if (!value) return
+    const current = value.byWeekday || []
+    const byWeekday = current.includes(day)
+      ? current.filter(d => d !== day)
+      : [...current, day].sort((a, b) => a - b)
+    if (byWeekday.length === 0) return
+    onChange({ ...value, byWeekday })
+  }
+
+  return (
+    <div className="space-y-2">
+      <Select value={preset} onValueChange={(v) => handlePresetChange(v as RepeatPreset)}>
+        <SelectTrigger className="mt-1.5">
+          <SelectValue />
+        </SelectTrigger>
+        <SelectContent>
+          <SelectItem value="none">Does not repeat</SelectItem>
+          <SelectItem value="daily">Daily</SelectItem>
+          <SelectItem value="weekdays">Every weekday (Mon-Fri)</SelectItem>
+          <SelectItem value="weekly">Weekly</SelectItem>
+          <SelectItem value="monthly">Monthly</SelectItem>
+          <SelectItem value="yearly">Yearly</SelectItem>
+        </SelectContent>
+      </Select>
+
+      {value && preset !== 'weekdays' && (
+        <div className="flex items-center gap-2 text-sm text-gray-600 dark:text-gray-400">
+          <span>Every</span>
+          <Input
+            type="number"
+            min={1}
+            value={value.interval}
+            onChange={(e) => onChange({ ...value, interval: Math.max(1, parseInt(e.target.value, 10) || 1) })}
+            className="h-8 w-16"
+          />
+          <span>{unitLabels[value.freq]}</span>
+        </div>
+      )}
+
+      {value?.freq === 'weekly' && preset !== 'weekdays' && (
+        <div className="flex gap-1">
+          {weekdayLabels.map((label, day) => (
+            <Button
+              key={day}
+              type="button"
+              size="sm"
+              variant={value.byWeekday?.includes(day) ? 'default' : 'outline'}
+              className={cn(
+                "h-8 w-8 p-0",
+                value.byWeekday?.includes(day) && "bg-[#6B4EE6] hover:bg-[#5a3ec5]"
+              )}
+              onClick={() => handleWeekdayToggle(day)}
+            >
+              {label}
+            </Button>
+          ))}
+        </div>
+      )}
+
+      {value?.freq === 'monthly' && (
+        <Select
+          value={value.bySetPos ? 'weekday' : 'day'}
+          onValueChange={(mode) => onChange(mode === 'weekday'
+            ? { freq: 'monthly', interval: value.interval, byWeekday: [anchor.getDay()], bySetPos: position }
+            : { freq: 'monthly', interval: value.interval, byMonthDay: anchor.getDate() }
+          )}
+        >
+          <SelectTrigger>
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="day">On day {anchor.getDate()}</SelectItem>
+            <SelectItem value="weekday">On the {positionLabel} {weekdayName}</SelectItem>
+          </SelectContent>
+        </Select>
+      )}
+    </div>
+  )
+}
+
 // Quick Add Modal Component
 function QuickAddModal({
   open,
+  initialDueDate,
+  agentId,
+  categories,
   onClose,
   onAdd
 }: {
   open: boolean
+  initialDueDate?: Date | null
+  agentId: string
+  categories: Category[]
   onClose: () => void
   onAdd: (task: Omit<Task, 'id' | 'completed' | 'createdAt'>) => void
 }) {
   const [title, setTitle] = useState('')
   const [priority, setPriority] = useState<'low' | 'medium' | 'high'>('medium')
-  const [category, setCategory] = useState('Personal')
+  // Null until picked, so new tasks default to the first category in the user's order
+  const [category, setCategory] = useState<string | null>(null)
+  const [projectId, setProjectId] = useState<string | null>(null)
   const [status, setStatus] = useState<Task['status']>('not-started')
   const [dueDate, setDueDate] = useState<Date>(new Date())
+  // "HH:mm", or empty for an all-day task
+  const [dueTime, setDueTime] = useState('')
+  // Set once the time or All-day control is used, which then wins over a typed time
+  const [dueTimeEdited, setDueTimeEdited] = useState(false)
+  const [duration, setDuration] = useState<number | null>(null)
+  const [calendarMonth, setCalendarMonth] = useState<Date>(new Date())
+  const [recurrence, setRecurrence] = useState<RecurrenceRule | undefined>(undefined)
+  const [interpreting, setInterpreting] = useState(false)
+  const [interpretError, setInterpretError] = useState<string | null>(null)
+  const interpretRef = useRef<AbortController | null>(null)
+  const categoryOptions = getActiveCategories(categories).map(c => c.name)
+
+  // Fields typed into the title ("tomorrow 3pm !high #Work") take precedence over the form controls
+  const parsed = parseQuickAdd(title, { categories: categoryOptions })
+  const effectivePriority = parsed.priority || priority
+  const effectiveCategory = parsed.category || category || getDefaultCategoryName(categories)
+  const projectOptions = getActiveProjects(findCategory(categories, effectiveCategory))
+  const effectiveProjectId = projectOptions.some(p => p.id === projectId) ? projectId : null
+  const effectiveDueDate = parsed.dueDate || dueDate
+  const useParsedTime = Boolean(parsed.dueDate && parsed.hasTime) && !dueTimeEdited
+  const effectiveDueTime = useParsedTime ? getLocalTimeOfDay(parsed.dueDate!) : dueTime
+  const effectiveRecurrence = parsed.recurrence || recurrence
+  const hasParsedFields = parsed.tokens.length > 0
+
+  // Follow a typed due date in the calendar
+  const parsedDueTime = parsed.dueDate?.getTime()
+  useEffect(() => {
+    if (parsedDueTime !== undefined) setCalendarMonth(new Date(parsedDueTime))
+  }, [parsedDueTime])
+
+  // Prefill the due date when opened from a specific day (e.g. the calendar view)
+  useEffect(() => {
+    if (!open) return
+    const date = initialDueDate || new Date()
+    setDueDate(date)
+    setCalendarMonth(date)
+  }, [open, initialDueDate])
+
+  // Drop a pending interpretation when the modal closes or unmounts
+  const cancelInterpret = () => {
+    interpretRef.current?.abort()
+    interpretRef.current = null
+  }
+
+  useEffect(() => {
+    if (open) return
+    cancelInterpret()
+    setInterpreting(false)
+  }, [open])
+
+  useEffect(() => cancelInterpret, [])
+
+  // Optional fallback: let the agent resolve phrasing the local grammar doesn't cover
+  const handleInterpret = async () => {
+    cancelInterpret()
+    const controller = new AbortController()
+    interpretRef.current = controller
+    setInterpreting(true)
+    setInterpretError(null)
+    try {
+      const today = new Date().toLocaleDateString('en-CA')
+      const result = await callAIAgent(
+        `Today is ${today}. Convert this quick-add text into exactly one create_task action ` +
+        `with title, priority, category (${categoryOptions.join(', ')}) and due_date. Text: "${title}"`,
+        agentId,
+        { signal: controller.signal }
+      )
+      if (controller.signal.aborted) return
+      const data = validateAssistantResult(result.response.result)
+      const action = normalizeAgentActions(data.actions).find(a => a.type === 'create_task' && a.title)
+      if (!result.success || !action) {
+        setInterpretError("The assistant couldn't interpret that. Set the fields below instead.")
+        return
+      }
+      const date = parseActionDate(action.due_date)
+      setTitle(action.title)
+      if (action.priority) setPriority(action.priority)
+      if (action.category) setCategory(action.category)
+      if (date) {
+        setDueDate(date)
+        setCalendarMonth(date)
+      }
+    } catch {
+      if (!controller.signal.aborted) setInterpretError('Network error. Set the fields below instead.')
+    } finally {
+      if (interpretRef.current === controller) {
+        interpretRef.current = null
+        setInterpreting(false)
+      }
+    }
+  }
 
   const handleSubmit = (e: React.FormEvent) => {
     e.preventDefault()
-    if (!title.trim()) return
+    if (!parsed.title) return
 
     onAdd({
-      title,
-      priority,
-      category,
+      title: parsed.title,
+      priority: effectivePriority,
+      category: effectiveCategory,
+      projectId: effectiveProjectId || undefined,
       status,
-      dueDate
+      ...buildDue(getLocalDayKey(effectiveDueDate), effectiveDueTime || undefined),
+      durationMinutes: duration || undefined,
+      recurrence: effectiveRecurrence && anchorRecurrence(effectiveRecurrence, effectiveDueDate)
     })
 
     setTitle('')
+    setInterpretError(null)
     setPriority('medium')
-    setCategory('Personal')
+    setCategory(null)
+    setProjectId(null)
     setStatus('not-started')
     setDueDate(new Date())
+    setDueTime('')
+    setDueTimeEdited(false)
+    setDuration(null)
+    setCalendarMonth(new Date())
+    setRecurrence(undefined)
     onClose()
   }
 
@@ -286,11 +1133,64 @@ function QuickAddModal({
             <Input
               id="task-title"
               value={title}
-              onChange={(e) => setTitle(e.target.value)}
-              placeholder="Enter task title..."
+              onChange={(e) => {
+                setTitle(e.target.value)
+                setInterpretError(null)
+              }}
+              placeholder="e.g. Call dentist tomorrow 3pm !high #Personal"
               className="mt-1.5"
               autoFocus
             />
+            {hasParsedFields && (
+              <div className="mt-2 rounded-md border bg-gray-50 dark:bg-gray-900/50 p-2 space-y-1" aria-live="polite">
+                <p className="text-xs text-gray-500">
+                  Title: <span className="font-medium text-gray-900 dark:text-white">{parsed.title || '(none)'}</span>
+                </p>
+                <div className="flex flex-wrap gap-1">
+                  {parsed.dueDate && (
+                    <Badge variant="outline" className="text-xs gap-1">
+                      <CalendarDays className="w-3 h-3" />
+                      {formatDate(parsed.dueDate)}
+                      {useParsedTime && ` ${parsed.dueDate.toLocaleTimeString('en-US', { hour: 'numeric', minute: '2-digit' })}`}
+                    </Badge>
+                  )}
+                  {parsed.priority && (
+                    <Badge variant="outline" className="text-xs gap-1 capitalize">
+                      <div className={cn("w-2 h-2 rounded-full", getPriorityColor(parsed.priority))} />
+                      {parsed.priority}
+                    </Badge>
+                  )}
+                  {parsed.category && (
+                    <Badge variant="outline" className={cn("text-xs", getCategoryColor(categories, parsed.category))}>
+                      {parsed.category}
+                    </Badge>
+                  )}
+                  {parsed.recurrence && (
+                    <Badge variant="outline" className="text-xs gap-1">
+                      <Repeat className="w-3 h-3" />
+                      {describeRecurrence(anchorRecurrence(parsed.recurrence, effectiveDueDate), effectiveDueDate)}
+                    </Badge>
+                  )}
+                </div>
+              </div>
+            )}
+            {parsed.unresolved.length > 0 && (
+              <div className="mt-2 flex items-center justify-between gap-2 text-xs text-gray-500">
+                <span>Couldn't read "{parsed.unresolved[0]}"</span>
+                <Button
+                  type="button"
+                  variant="ghost"
+                  size="sm"
+                  className="h-7 text-xs gap-1 text-[#6B4EE6]"
+                  onClick={handleInterpret}
+                  disabled={interpreting}
+                >
+                  <Sparkles className="w-3 h-3" />
+                  {interpreting ? 'Interpreting...' : 'Ask assistant'}
+                </Button>
+              </div>
+            )}
+            {interpretError && <p className="mt-1 text-xs text-red-500">{interpretError}</p>}
           </div>
 
           <div>
@@ -300,12 +1200,12 @@ function QuickAddModal({
                 <Button
                   key={p}
                   type="button"
-                  variant={priority === p ? 'default' : 'outline'}
+                  variant={effectivePriority === p ? 'default' : 'outline'}
                   className={cn(
                     "flex-1 capitalize",
-                    priority === p && p === 'high' && "bg-red-500 hover:bg-red-600",
-                    priority === p && p === 'medium' && "bg-yellow-500 hover:bg-yellow-600",
-                    priority === p && p === 'low' && "bg-green-500 hover:bg-green-600"
+                    effectivePriority === p && p === 'high' && "bg-red-500 hover:bg-red-600",
+                    effectivePriority === p && p === 'medium' && "bg-yellow-500 hover:bg-yellow-600",
+                    effectivePriority === p && p === 'low' && "bg-green-500 hover:bg-green-600"
                   )}
                   onClick={() => setPriority(p)}
                 >
@@ -317,18 +1217,41 @@ function QuickAddModal({
 
           <div>
             <Label>Category</Label>
-            <Select value={category} onValueChange={setCategory}>
+            <Select value={effectiveCategory} onValueChange={setCategory}>
               <SelectTrigger className="mt-1.5">
                 <SelectValue />
               </SelectTrigger>
               <SelectContent>
-                <SelectItem value="Work">Work</SelectItem>
-                <SelectItem value="Personal">Personal</SelectItem>
-                <SelectItem value="Shopping">Shopping</SelectItem>
+                {(categoryOptions.includes(effectiveCategory)
+                  ? categoryOptions
+                  : [...categoryOptions, effectiveCategory]
+                ).map(c => (
+                  <SelectItem key={c} value={c}>{c}</SelectItem>
+                ))}
               </SelectContent>
             </Select>
           </div>
 
+          {projectOptions.length > 0 && (
+            <div>
+              <Label>Project</Label>
+              <Select
+                value={effectiveProjectId || 'none'}
+                onValueChange={(value) => setProjectId(value === 'none' ? null : value)}
+              >
+                <SelectTrigger className="mt-1.5">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">No project</SelectItem>
+                  {projectOptions.map(p => (
+                    <SelectItem key={p.id} value={p.id}>{p.name}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+
           <div>
             <Label>Status</Label>
             <Select value={status} onValueChange={(value) => setStatus(value as Task['status'])}>
@@ -368,12 +1291,69 @@ function QuickAddModal({
             <Label>Due Date</Label>
             <Calendar
               mode="single"
-              selected={dueDate}
+              selected={effectiveDueDate}
+              month={calendarMonth}
+              onMonthChange={setCalendarMonth}
               onSelect={(date) => date && setDueDate(date)}
               className="rounded-md border mt-1.5"
             />
           </div>
 
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <div className="flex items-center justify-between gap-2">
+                <Label htmlFor="task-time">Time</Label>
+                <div className="flex items-center gap-1.5">
+                  <Switch
+                    id="task-all-day"
+                    checked={!effectiveDueTime}
+                    onCheckedChange={(allDay) => {
+                      setDueTime(allDay ? '' : '09:00')
+                      setDueTimeEdited(true)
+                    }}
+                  />
+                  <Label htmlFor="task-all-day" className="text-xs font-normal text-gray-500">All day</Label>
+                </div>
+              </div>
+              <Input
+                id="task-time"
+                type="time"
+                value={effectiveDueTime}
+                onChange={(e) => {
+                  setDueTime(e.target.value)
+                  setDueTimeEdited(true)
+                }}
+                disabled={!effectiveDueTime}
+                className="mt-1.5"
+              />
+              {effectiveDueTime && (
+                <p className="mt-1 text-[11px] text-gray-500">{getActiveTimeZone().replace(/_/g, ' ')}</p>
+              )}
+            </div>
+            <div>
+              <Label>Duration</Label>
+              <Select
+                value={duration ? String(duration) : 'none'}
+                onValueChange={(value) => setDuration(value === 'none' ? null : Number(value))}
+              >
+                <SelectTrigger className="mt-1.5">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  <SelectItem value="none">No estimate</SelectItem>
+                  {DURATION_OPTIONS.map(minutes => (
+                    <SelectItem key={minutes} value={String(minutes)}>{formatDuration(minutes)}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+
+          <div>
+            <Label>Repeat</Label>
+            <RecurrenceEditor value={effectiveRecurrence} anchor={effectiveDueDate} onChange={setRecurrence} />
+          </div>
+
           <div className="flex gap-2 pt-2">
             <Button type="button" variant="outline" onClick={onClose} className="flex-1">
               Cancel
@@ -381,7 +1361,7 @@ function QuickAddModal({
             <Button
               type="submit"
               className="flex-1 bg-[#6B4EE6] hover:bg-[#5a3ec5]"
-              disabled={!title.trim()}
+              disabled={!parsed.title}
             >
               Add Task
             </Button>
@@ -393,35 +1373,167 @@ function QuickAddModal({
 }
 
 // AI Chat Component
-function AIChat({ open, onClose }: { open: boolean; onClose: () => void }) {
-  const [messages, setMessages] = useState<ChatMessage[]>([])
+interface ChatRequest {
+  threadId?: string
+  draft?: string
+}
+
+function AIChat({
+  open,
+  agentId,
+  request,
+  onClose,
+  tasks,
+  onApplyAction,
+  onUndoAction
+}: {
+  open: boolean
+  agentId: string
+  /** Thread to show or draft to start a new chat with, e.g. from the command palette */
+  request?: ChatRequest | null
+  onClose: () => void
+  tasks: Task[]
+  onApplyAction: (action: AgentTaskAction) => AppliedAgentAction | string
+  /** False when the change is no longer in the undo history */
+  onUndoAction: (applied: AppliedAgentAction) => boolean
+}) {
+  const {
+    threads,
+    activeThread,
+    selectThread,
+    startNewThread,
+    ensureThread,
+    updateMessages,
+    renameThread,
+    deleteThread
+  } = useChatThreads(agentId)
+  const messages = activeThread?.messages || []
+  const [showThreads, setShowThreads] = useState(false)
+  const [renamingThreadId, setRenamingThreadId] = useState<string | null>(null)
+  const [renameValue, setRenameValue] = useState('')
   const [input, setInput] = useState('')
   const [loading, setLoading] = useState(false)
+  // Answer text of the reply being streamed; kept out of the thread until complete
+  const [streaming, setStreaming] = useState<{ threadId: string; content: string } | null>(null)
+  const requestRef = useRef<AbortController | null>(null)
 
-  const suggestions = [
-    "Prioritize my tasks",
-    "What should I focus on?",
-    "Help me manage my time",
-    "Tips for productivity"
-  ]
+  // Don't leave a reply streaming into an unmounted chat
+  useEffect(() => () => requestRef.current?.abort(), [])
 
-  const handleSendMessage = async (text: string) => {
-    const userMessage: ChatMessage = {
-      id: Date.now().toString(),
-      type: 'user',
+  const [shareTasks, setShareTasks] = useState(true)
+  const [hideTitles, setHideTitles] = useState(false)
+  const [excludedIds, setExcludedIds] = useState<Set<string>>(() => new Set())
+  const [showContext, setShowContext] = useState(false)
+
+  useEffect(() => {
+    if (!open || !request) return
+    if (request.threadId) {
+      selectThread(request.threadId)
+    } else {
+      startNewThread()
+      setInput(request.draft || '')
+    }
+  }, [open, request, selectThread, startNewThread])
+
+  // Exactly what will be prepended to the next message
+  const taskContext = shareTasks ? buildTaskContext(tasks, { excludedIds, hideTitles }) : null
+
+  const updateProposal = (messageId: string, proposalId: string, patch: Partial<ActionProposal>) => {
+    if (!activeThread) return
+    updateMessages(activeThread.id, prev => prev.map(m => m.id !== messageId ? m : {
+      ...m,
+      proposals: m.proposals?.map(p => (p.id === proposalId ? { ...p, ...patch } : p))
+    }))
+  }
+
+  const handleAcceptProposal = (messageId: string, proposal: ActionProposal) => {
+    const error = validateAgentAction(proposal.action, tasks)
+    if (error) {
+      updateProposal(messageId, proposal.id, { state: 'failed', error })
+      return
+    }
+    const result = onApplyAction(proposal.action)
+    if (typeof result === 'string') {
+      updateProposal(messageId, proposal.id, { state: 'failed', error: result })
+    } else {
+      updateProposal(messageId, proposal.id, { state: 'accepted', applied: result, error: undefined })
+    }
+  }
+
+  const handleUndoProposal = (messageId: string, proposal: ActionProposal) => {
+    if (!proposal.applied) return
+    if (!onUndoAction(proposal.applied)) {
+      updateProposal(messageId, proposal.id, { error: 'This change is no longer in the undo history' })
+      return
+    }
+    updateProposal(messageId, proposal.id, { state: 'pending', applied: undefined, error: undefined })
+  }
+
+  const toggleExcluded = (id: string) => {
+    setExcludedIds(prev => {
+      const next = new Set(prev)
+      if (next.has(id)) next.delete(id)
+      else next.add(id)
+      return next
+    })
+  }
+
+  const suggestions = [
+    "Prioritize my tasks",
+    "What should I focus on?",
+    "Help me manage my time",
+    "Tips for productivity"
+  ]
+
+  const handleStartRename = (threadId: string, title: string) => {
+    setRenamingThreadId(threadId)
+    setRenameValue(title)
+  }
+
+  const handleFinishRename = () => {
+    if (renamingThreadId) renameThread(renamingThreadId, renameValue)
+    setRenamingThreadId(null)
+  }
+
+  const handleSendMessage = async (text: string) => {
+    // Replies go to the thread the message was sent from
+    const thread = ensureThread(deriveThreadTitle(text))
+    const appendMessage = (message: ChatMessage) => {
+      updateMessages(thread.id, prev => [...prev, message])
+    }
+
+    const userMessage: ChatMessage = {
+      id: Date.now().toString(),
+      type: 'user',
       content: text,
       timestamp: new Date()
     }
 
-    setMessages(prev => [...prev, userMessage])
+    appendMessage(userMessage)
     setInput('')
     setLoading(true)
+    setStreaming({ threadId: thread.id, content: '' })
+    const controller = new AbortController()
+    requestRef.current = controller
 
     try {
-      const result = await callAIAgent(text, AGENT_ID)
+      const run = await runWorkflow(TASKFLOW_WORKFLOW, composeAgentMessage(text, taskContext), {
+        user_id: getInstallUserId(),
+        session_id: thread.sessionId,
+        signal: controller.signal,
+        onValidationError: logValidationError,
+        resolveAgentId: (node) => (node.agent_id === TASK_ASSISTANT_AGENT_ID ? agentId : node.agent_id),
+        runAgent: (message, agentId, options) => streamAIAgent(message, agentId, {
+          ...options,
+          onText: (raw) => {
+            const answer = extractPartialStringField(raw, 'answer')
+            if (answer !== null) setStreaming({ threadId: thread.id, content: answer })
+          }
+        })
+      })
 
-      if (result.success && result.response.status === 'success') {
-        const data = result.response.result as TaskAssistantResult
+      if (run.success) {
+        const data = Object.values(run.outputs)[0] as TaskAssistantAgentResult
 
         const assistantMessage: ChatMessage = {
           id: (Date.now() + 1).toString(),
@@ -430,18 +1542,23 @@ function AIChat({ open, onClose }: { open: boolean; onClose: () => void }) {
           tips: data.tips,
           prioritySuggestions: data.priority_suggestions,
           relatedTopics: data.related_topics,
+          proposals: normalizeAgentActions(data.actions).map(action => ({
+            id: generateId(),
+            action,
+            state: 'pending'
+          })),
           timestamp: new Date()
         }
 
-        setMessages(prev => [...prev, assistantMessage])
-      } else {
+        appendMessage(assistantMessage)
+      } else if (!run.aborted) {
         const errorMessage: ChatMessage = {
           id: (Date.now() + 1).toString(),
           type: 'assistant',
-          content: result.response.message || 'Sorry, I encountered an error. Please try again.',
+          content: run.error || 'Sorry, I encountered an error. Please try again.',
           timestamp: new Date()
         }
-        setMessages(prev => [...prev, errorMessage])
+        appendMessage(errorMessage)
       }
     } catch (error) {
       const errorMessage: ChatMessage = {
@@ -450,9 +1567,11 @@ function AIChat({ open, onClose }: { open: boolean; onClose: () => void }) {
         content: 'Network error. Please check your connection and try again.',
         timestamp: new Date()
       }
-      setMessages(prev => [...prev, errorMessage])
+      appendMessage(errorMessage)
     } finally {
+      requestRef.current = null
       setLoading(false)
+      setStreaming(null)
     }
   }
 
@@ -477,12 +1596,161 @@ function AIChat({ open, onClose }: { open: boolean; onClose: () => void }) {
               </div>
               <DialogTitle>Task Assistant</DialogTitle>
             </div>
-            <Button variant="ghost" size="icon" onClick={onClose}>
-              <X className="w-4 h-4" />
-            </Button>
+            <div className="flex items-center gap-1">
+              <Popover open={showThreads} onOpenChange={setShowThreads}>
+                <PopoverTrigger asChild>
+                  <Button variant="ghost" size="sm" className="h-8 gap-1 text-xs max-w-[200px]">
+                    <History className="w-4 h-4 flex-shrink-0" />
+                    <span className="truncate">{activeThread?.title || 'New chat'}</span>
+                  </Button>
+                </PopoverTrigger>
+                <PopoverContent align="end" className="w-72 p-2">
+                  <Button
+                    variant="outline"
+                    size="sm"
+                    className="w-full h-8 text-xs gap-1 mb-2"
+                    onClick={() => {
+                      startNewThread()
+                      setShowThreads(false)
+                    }}
+                  >
+                    <Plus className="w-3 h-3" />
+                    New chat
+                  </Button>
+                  {threads.length === 0 ? (
+                    <p className="text-xs text-gray-500 text-center py-2">No saved conversations yet</p>
+                  ) : (
+                    <div className="max-h-64 overflow-y-auto">
+                      <div className="space-y-1">
+                        {[...threads]
+                          .sort((a, b) => b.updatedAt.getTime() - a.updatedAt.getTime())
+                          .map(thread => (
+                            <div
+                              key={thread.id}
+                              className={cn(
+                                "flex items-center gap-1 rounded-md px-2 py-1 hover:bg-gray-100 dark:hover:bg-gray-800",
+                                thread.id === activeThread?.id && "bg-purple-50 dark:bg-purple-950/30"
+                              )}
+                            >
+                              {renamingThreadId === thread.id ? (
+                                <Input
+                                  autoFocus
+                                  value={renameValue}
+                                  onChange={(e) => setRenameValue(e.target.value)}
+                                  onBlur={handleFinishRename}
+                                  onKeyDown={(e) => {
+                                    if (e.key === 'Enter') handleFinishRename()
+                                    if (e.key === 'Escape') setRenamingThreadId(null)
+                                  }}
+                                  className="h-7 text-xs"
+                                  aria-label="Conversation name"
+                                />
+                              ) : (
+                                <button
+                                  type="button"
+                                  className="flex-1 min-w-0 text-left"
+                                  onClick={() => {
+                                    selectThread(thread.id)
+                                    setShowThreads(false)
+                                  }}
+                                >
+                                  <p className="text-xs font-medium truncate text-gray-900 dark:text-white">{thread.title}</p>
+                                  <p className="text-[10px] text-gray-500">
+                                    {thread.messages.length} messages · {thread.updatedAt.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })}
+                                  </p>
+                                </button>
+                              )}
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                className="h-6 w-6 flex-shrink-0"
+                                onClick={() => handleStartRename(thread.id, thread.title)}
+                                aria-label={`Rename ${thread.title}`}
+                              >
+                                <Pencil className="w-3 h-3" />
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="icon"
+                                className="h-6 w-6 flex-shrink-0 text-red-500 hover:text-red-600"
+                                onClick={() => deleteThread(thread.id)}
+                                aria-label={`Delete ${thread.title}`}
+                              >
+                                <Trash2 className="w-3 h-3" />
+                              </Button>
+                            </div>
+                          ))}
+                      </div>
+                    </div>
+                  )}
+                </PopoverContent>
+              </Popover>
+              <Button variant="ghost" size="icon" onClick={onClose}>
+                <X className="w-4 h-4" />
+              </Button>
+            </div>
+          </div>
+          <div className="flex items-center justify-between gap-2 pt-2">
+            <div className="flex items-center gap-2">
+              <Switch
+                id="share-tasks"
+                checked={shareTasks}
+                onCheckedChange={setShareTasks}
+              />
+              <Label htmlFor="share-tasks" className="text-xs text-gray-600 dark:text-gray-400 font-normal">
+                {shareTasks && taskContext
+                  ? `Sharing ${taskContext.included.length} of ${tasks.length} tasks (~${taskContext.estimatedTokens} tokens)`
+                  : 'Not sharing tasks'}
+              </Label>
+            </div>
+            {shareTasks && (
+              <Button
+                variant="ghost"
+                size="sm"
+                className="h-7 text-xs gap-1"
+                onClick={() => setShowContext(prev => !prev)}
+              >
+                {showContext ? <EyeOff className="w-3 h-3" /> : <Eye className="w-3 h-3" />}
+                {showContext ? 'Hide' : 'Review'}
+              </Button>
+            )}
           </div>
         </DialogHeader>
 
+        {shareTasks && showContext && taskContext && (
+          <div className="px-6 py-3 border-b bg-gray-50 dark:bg-gray-900/50 space-y-3">
+            <div className="flex items-center gap-2">
+              <Switch id="hide-titles" checked={hideTitles} onCheckedChange={setHideTitles} />
+              <Label htmlFor="hide-titles" className="text-xs font-normal">Hide task titles</Label>
+            </div>
+            <ScrollArea className="h-24">
+              <div className="space-y-1 pr-3">
+                {tasks.map(task => (
+                  <label key={task.id} className="flex items-center gap-2 text-xs cursor-pointer">
+                    <Checkbox
+                      checked={!excludedIds.has(task.id)}
+                      onCheckedChange={() => toggleExcluded(task.id)}
+                      className="h-3.5 w-3.5"
+                    />
+                    <span className={cn("truncate", excludedIds.has(task.id) && "line-through text-gray-400")}>
+                      {task.title}
+                    </span>
+                  </label>
+                ))}
+              </div>
+            </ScrollArea>
+            <div>
+              <p className="text-xs font-medium text-gray-500 mb-1">
+                Sent with your next message
+                {taskContext.omittedCount > 0 && ` (${taskContext.omittedCount} omitted to fit the size limit)`}
+              </p>
+              <pre className="max-h-32 overflow-auto rounded-md border bg-white dark:bg-gray-800 p-2 text-[11px] leading-relaxed whitespace-pre-wrap">
+                {taskContext.text || 'Nothing - every task is excluded.'}
+              </pre>
+            </div>
+          </div>
+        )}
+
         <ScrollArea className="flex-1 px-6 py-4">
           {messages.length === 0 ? (
             <div className="text-center py-8">
@@ -584,6 +1852,76 @@ function AIChat({ open, onClose }: { open: boolean; onClose: () => void }) {
                           </Card>
                         )}
 
+                        {message.proposals && message.proposals.length > 0 && (
+                          <Card className="max-w-[80%] bg-white dark:bg-gray-900 border-[#6B4EE6]/30">
+                            <CardHeader className="pb-2">
+                              <CardTitle className="text-sm font-semibold text-gray-900 dark:text-white">
+                                Suggested Changes
+                              </CardTitle>
+                            </CardHeader>
+                            <CardContent className="pb-3 space-y-2">
+                              {message.proposals.map(proposal => (
+                                <div key={proposal.id} className="rounded-md border border-gray-200 dark:border-gray-700 p-2">
+                                  <p className={cn(
+                                    "text-xs font-medium text-gray-900 dark:text-white",
+                                    proposal.state === 'rejected' && "line-through text-gray-400"
+                                  )}>
+                                    {describeAgentAction(proposal.action, tasks)}
+                                  </p>
+                                  {proposal.action.reason && (
+                                    <p className="text-xs text-gray-500 mt-0.5">{proposal.action.reason}</p>
+                                  )}
+                                  {proposal.error && (
+                                    <p className="text-xs text-red-500 mt-0.5">{proposal.error}</p>
+                                  )}
+                                  <div className="flex items-center gap-2 mt-2">
+                                    {(proposal.state === 'pending' || proposal.state === 'failed') && (
+                                      <>
+                                        <Button
+                                          size="sm"
+                                          className="h-6 text-xs bg-[#6B4EE6] hover:bg-[#5a3ec5]"
+                                          onClick={() => handleAcceptProposal(message.id, proposal)}
+                                        >
+                                          <Check className="w-3 h-3 mr-1" />
+                                          Accept
+                                        </Button>
+                                        <Button
+                                          size="sm"
+                                          variant="outline"
+                                          className="h-6 text-xs"
+                                          onClick={() => updateProposal(message.id, proposal.id, { state: 'rejected', error: undefined })}
+                                        >
+                                          Reject
+                                        </Button>
+                                      </>
+                                    )}
+                                    {proposal.state === 'accepted' && (
+                                      <>
+                                        <span className="text-xs text-green-600 flex items-center gap-1">
+                                          <Check className="w-3 h-3" />
+                                          Applied
+                                        </span>
+                                        <Button
+                                          size="sm"
+                                          variant="ghost"
+                                          className="h-6 text-xs"
+                                          onClick={() => handleUndoProposal(message.id, proposal)}
+                                        >
+                                          <Undo2 className="w-3 h-3 mr-1" />
+                                          Undo
+                                        </Button>
+                                      </>
+                                    )}
+                                    {proposal.state === 'rejected' && (
+                                      <span className="text-xs text-gray-400">Dismissed</span>
+                                    )}
+                                  </div>
+                                </div>
+                              ))}
+                            </CardContent>
+                          </Card>
+                        )}
+
                         {message.relatedTopics && message.relatedTopics.length > 0 && (
                           <div className="flex gap-1 flex-wrap max-w-[80%]">
                             {message.relatedTopics.map((topic, i) => (
@@ -602,6 +1940,23 @@ function AIChat({ open, onClose }: { open: boolean; onClose: () => void }) {
                   </div>
                 </div>
               ))}
+
+              {streaming && streaming.threadId === activeThread?.id && (
+                <div className="flex gap-3">
+                  <div className="w-8 h-8 rounded-full flex items-center justify-center flex-shrink-0 bg-gradient-to-br from-[#6B4EE6] to-[#9b87f5]">
+                    <Sparkles className="w-4 h-4 text-white" />
+                  </div>
+                  <div className="flex-1">
+                    <div className="rounded-2xl px-4 py-2 max-w-[80%] bg-gray-100 dark:bg-gray-800 text-gray-900 dark:text-white" aria-live="polite">
+                      {streaming.content ? (
+                        <p className="text-sm whitespace-pre-wrap">{streaming.content}</p>
+                      ) : (
+                        <p className="text-sm text-gray-500">Thinking...</p>
+                      )}
+                    </div>
+                  </div>
+                </div>
+              )}
             </div>
           )}
         </ScrollArea>
@@ -615,12 +1970,1131 @@ function AIChat({ open, onClose }: { open: boolean; onClose: () => void }) {
               disabled={loading}
               className="flex-1"
             />
+            {loading ? (
+              <Button
+                type="button"
+                variant="outline"
+                onClick={() => requestRef.current?.abort()}
+                aria-label="Stop response"
+              >
+                <Square className="w-4 h-4" />
+              </Button>
+            ) : (
+              <Button
+                type="submit"
+                disabled={!input.trim()}
+                className="bg-[#6B4EE6] hover:bg-[#5a3ec5]"
+              >
+                <Send className="w-4 h-4" />
+              </Button>
+            )}
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+// Command Palette Component - Ctrl+K search across tasks, categories and chats
+const VIEW_COMMANDS: { view: HomeView; label: string; icon: typeof CalendarIcon }[] = [
+  { view: 'today', label: 'Go to Today', icon: CalendarIcon },
+  { view: 'upcoming', label: 'Go to Upcoming', icon: Clock },
+  { view: 'board', label: 'Go to Board', icon: SquareKanban },
+  { view: 'calendar', label: 'Go to Calendar', icon: CalendarDays },
+  { view: 'lists', label: 'Go to Lists', icon: ListTodo },
+  { view: 'stats', label: 'Go to Stats', icon: TrendingUp },
+]
+
+function CommandPalette({
+  open,
+  onOpenChange,
+  tasks,
+  smartLists,
+  selectedCount,
+  onNewTask,
+  onNavigate,
+  onOpenSmartList,
+  onOpenTask,
+  onOpenCategory,
+  onOpenChat,
+  onCompleteSelected,
+  onAskAssistant,
+  onOpenSettings,
+  onManageCategories,
+  onOpenRollover,
+  onOpenTimeZone
+}: {
+  open: boolean
+  onOpenChange: (open: boolean) => void
+  tasks: Task[]
+  smartLists: SmartList[]
+  selectedCount: number
+  onNewTask: () => void
+  onNavigate: (view: HomeView) => void
+  onOpenSmartList: (id: string) => void
+  onOpenTask: (id: string) => void
+  onOpenCategory: (category: string) => void
+  onOpenChat: (threadId: string) => void
+  onCompleteSelected: () => void
+  onAskAssistant: (draft: string) => void
+  onOpenSettings: () => void
+  onManageCategories: () => void
+  onOpenRollover: () => void
+  onOpenTimeZone: () => void
+}) {
+  const [query, setQuery] = useState('')
+  // Chat threads are saved by the chat as they change; re-read them each time the palette opens
+  const threads = useMemo(() => (open ? loadChatThreads() : []), [open])
+  const index = useSearchIndex(tasks, threads)
+  const now = new Date()
+
+  useEffect(() => {
+    if (open) setQuery('')
+  }, [open])
+
+  const run = (action: () => void) => {
+    onOpenChange(false)
+    action()
+  }
+
+  const commands = [
+    { id: 'new-task', label: 'New task', icon: Plus, shortcut: undefined, action: onNewTask },
+    ...VIEW_COMMANDS.map(({ view, label, icon }) => ({ id: `view-${view}`, label, icon, shortcut: undefined, action: () => onNavigate(view) })),
+    ...smartLists.map(list => ({ id: `smart-${list.id}`, label: `Open ${list.name}`, icon: Filter, shortcut: undefined, action: () => onOpenSmartList(list.id) })),
+    ...(selectedCount > 0
+      ? [{ id: 'complete-selected', label: `Mark selected complete (${selectedCount})`, icon: Check, shortcut: undefined, action: onCompleteSelected }]
+      : []),
+    { id: 'ask', label: 'Ask assistant…', icon: Sparkles, shortcut: undefined, action: () => onAskAssistant(query) },
+    { id: 'agent-settings', label: 'Agent settings', icon: Settings, shortcut: undefined, action: onOpenSettings },
+    { id: 'manage-categories', label: 'Manage categories', icon: Tag, shortcut: undefined, action: onManageCategories },
+    { id: 'overdue-rollover', label: 'Overdue rollover settings', icon: CalendarClock, shortcut: undefined, action: onOpenRollover },
+    { id: 'time-zone', label: 'Change time zone', icon: Globe, shortcut: undefined, action: onOpenTimeZone },
+  ]
+  const normalizedQuery = query.toLowerCase().trim()
+  const matchingCommands = normalizedQuery
+    ? commands
+        .map(command => ({ command, score: fuzzyScore(normalizedQuery, command.label.toLowerCase()) }))
+        .filter(({ command, score }) => score !== null || command.id === 'ask')
+        .sort((a, b) => (b.score ?? -1) - (a.score ?? -1))
+        .map(({ command }) => command)
+    : commands
+
+  const results = searchIndex(index, query, { now, limit: normalizedQuery ? 20 : 8 })
+  const byKind = (kind: SearchDocument['kind']) => results.filter(r => r.document.kind === kind).map(r => r.document)
+
+  return (
+    <CommandDialog open={open} onOpenChange={onOpenChange} shouldFilter={false}>
+      <CommandInput value={query} onValueChange={setQuery} placeholder="Search tasks, categories and chats, or type a command…" />
+      <CommandList>
+        <CommandEmpty>No results found.</CommandEmpty>
+
+        {byKind('task').length > 0 && (
+          <CommandGroup heading={normalizedQuery ? 'Tasks' : 'Overdue & recent'}>
+            {byKind('task').map(document => (
+              <CommandItem key={document.key} value={document.key} onSelect={() => run(() => onOpenTask(document.refId))}>
+                <Circle className={cn("mr-2", document.task?.completed ? "text-green-500" : "text-gray-400")} />
+                <span className={cn("flex-1 truncate", document.task?.completed && "line-through text-gray-400")}>{document.title}</span>
+                {document.task && isOverdue(document.task, now) ? (
+                  <Badge variant="outline" className="ml-2 text-xs text-red-600 border-red-200">Overdue</Badge>
+                ) : document.task && (
+                  <span className="ml-2 text-xs text-gray-500">{formatDate(document.task.dueDate)}</span>
+                )}
+              </CommandItem>
+            ))}
+          </CommandGroup>
+        )}
+
+        {byKind('category').length > 0 && (
+          <CommandGroup heading="Categories">
+            {byKind('category').map(document => (
+              <CommandItem key={document.key} value={document.key} onSelect={() => run(() => onOpenCategory(document.refId))}>
+                <Tag className="mr-2" />
+                <span className="flex-1">{document.title}</span>
+                <span className="text-xs text-gray-500">{document.subtitle}</span>
+              </CommandItem>
+            ))}
+          </CommandGroup>
+        )}
+
+        {byKind('chat').length > 0 && (
+          <CommandGroup heading="Chats">
+            {byKind('chat').map(document => (
+              <CommandItem key={document.key} value={document.key} onSelect={() => run(() => onOpenChat(document.refId))}>
+                <MessagesSquare className="mr-2" />
+                <span className="flex-1 truncate">{document.title}</span>
+                <span className="text-xs text-gray-500">{document.subtitle}</span>
+              </CommandItem>
+            ))}
+          </CommandGroup>
+        )}
+
+        {matchingCommands.length > 0 && (
+          <CommandGroup heading="Commands">
+            {matchingCommands.map(command => (
+              <CommandItem key={command.id} value={command.id} onSelect={() => run(command.action)}>
+                <command.icon className="mr-2" />
+                <span className="flex-1">
+                  {command.id === 'ask' && normalizedQuery ? `Ask assistant: "${query.trim()}"` : command.label}
+                </span>
+                {command.shortcut && <CommandShortcut>{command.shortcut}</CommandShortcut>}
+              </CommandItem>
+            ))}
+          </CommandGroup>
+        )}
+      </CommandList>
+    </CommandDialog>
+  )
+}
+
+// Agent Settings Component - point each agent role at a different agent ID
+function AgentSettingsDialog({
+  open,
+  assignments,
+  onClose,
+  onAssign,
+  onReset
+}: {
+  open: boolean
+  assignments: AgentAssignments
+  onClose: () => void
+  onAssign: (role: AgentRole, agentId: string) => void
+  onReset: (role: AgentRole) => void
+}) {
+  const [drafts, setDrafts] = useState<AgentAssignments>({})
+
+  useEffect(() => {
+    if (open) setDrafts(assignments)
+  }, [open, assignments])
+
+  const invalidRoles = AGENT_ROLES.filter(({ role }) => drafts[role]?.trim() && !isValidAgentId(drafts[role]))
+
+  const handleSave = (e: React.FormEvent) => {
+    e.preventDefault()
+    if (invalidRoles.length > 0) return
+    for (const { role } of AGENT_ROLES) {
+      const draft = drafts[role]?.trim()
+      if (!draft || draft === getDefaultAgentId(role)) onReset(role)
+      else if (draft !== assignments[role]) onAssign(role, draft)
+    }
+    onClose()
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Agent Settings</DialogTitle>
+          <DialogDescription>Choose which agent handles each feature. Leave a field empty to use the default.</DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSave} className="space-y-4">
+          {AGENT_ROLES.map(({ role, label, description }) => {
+            const defaultId = getDefaultAgentId(role)
+            const draft = drafts[role] || ''
+            const agentId = draft.trim() || defaultId
+            const agent = getRegisteredAgent(agentId)
+            const defaultAgent = getRegisteredAgent(defaultId)
+            const invalid = invalidRoles.some(r => r.role === role)
+
+            return (
+              <div key={role} className="space-y-1.5">
+                <div className="flex items-center justify-between">
+                  <Label htmlFor={`agent-${role}`}>{label}</Label>
+                  {draft && (
+                    <Button
+                      type="button"
+                      variant="ghost"
+                      size="sm"
+                      className="h-6 px-2 text-xs"
+                      onClick={() => setDrafts(prev => ({ ...prev, [role]: '' }))}
+                    >
+                      Use default
+                    </Button>
+                  )}
+                </div>
+                <p className="text-xs text-gray-500">{description}</p>
+                <Input
+                  id={`agent-${role}`}
+                  value={draft}
+                  onChange={(e) => setDrafts(prev => ({ ...prev, [role]: e.target.value }))}
+                  placeholder={defaultId}
+                  className={cn("font-mono text-xs", invalid && "border-red-500")}
+                  aria-invalid={invalid}
+                />
+                {invalid ? (
+                  <p className="text-xs text-red-500">Agent IDs are 24 hexadecimal characters</p>
+                ) : agent ? (
+                  <p className="text-xs text-gray-500">
+                    {agent.name}
+                    {agent.model && ` · ${agent.provider ? `${agent.provider} ` : ''}${agent.model}`}
+                    {agent.temperature !== undefined && ` · temperature ${agent.temperature}`}
+                    {agent.schemaPath && ` · ${agent.schemaPath}`}
+                  </p>
+                ) : (
+                  <p className="text-xs text-gray-500">
+                    Custom agent; it must reply in the same format as {defaultAgent?.name || 'the default agent'}
+                  </p>
+                )}
+              </div>
+            )
+          })}
+
+          <div className="flex gap-2 pt-2">
+            <Button type="button" variant="outline" onClick={onClose} className="flex-1">
+              Cancel
+            </Button>
             <Button
               type="submit"
-              disabled={!input.trim() || loading}
-              className="bg-[#6B4EE6] hover:bg-[#5a3ec5]"
+              className="flex-1 bg-[#6B4EE6] hover:bg-[#5a3ec5]"
+              disabled={invalidRoles.length > 0}
             >
-              <Send className="w-4 h-4" />
+              Save
+            </Button>
+          </div>
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+// Category Manager Component - create, rename, color, archive and reorder categories and their projects
+function ColorSwatches({ value, onChange }: { value: CategoryColor; onChange: (color: CategoryColor) => void }) {
+  return (
+    <div className="flex gap-1.5">
+      {CATEGORY_COLORS.map(color => (
+        <button
+          key={color}
+          type="button"
+          onClick={() => onChange(color)}
+          className={cn(
+            "w-5 h-5 rounded-full",
+            CATEGORY_SWATCH_CLASSES[color],
+            value === color && "ring-2 ring-offset-2 ring-[#6B4EE6] dark:ring-offset-gray-800"
+          )}
+          aria-label={color}
+          aria-pressed={value === color}
+        />
+      ))}
+    </div>
+  )
+}
+
+// Saves on Enter or blur and keeps the draft with the reason when a name is rejected
+function NameInput({
+  value,
+  label,
+  onCommit
+}: {
+  value: string
+  label: string
+  onCommit: (name: string) => CategoryResult
+}) {
+  const [draft, setDraft] = useState(value)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    setDraft(value)
+    setError(null)
+  }, [value])
+
+  const commit = () => {
+    if (draft.trim() === value) {
+      setDraft(value)
+      setError(null)
+      return
+    }
+    const result = onCommit(draft)
+    setError(result.success ? null : result.error || 'Could not rename')
+  }
+
+  return (
+    <div className="flex-1 min-w-0">
+      <Input
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        onBlur={commit}
+        onKeyDown={(e) => {
+          if (e.key === 'Enter') {
+            e.preventDefault()
+            commit()
+          }
+        }}
+        aria-label={label}
+        aria-invalid={Boolean(error)}
+        className={cn("h-9", error && "border-red-500")}
+      />
+      {error && <p className="mt-1 text-xs text-red-500">{error}</p>}
+    </div>
+  )
+}
+
+function CategoryManagerDialog({
+  open,
+  categories,
+  onClose,
+  onAdd,
+  onRename,
+  onColorChange,
+  onArchive,
+  onMove,
+  onAddProject,
+  onRenameProject,
+  onArchiveProject
+}: {
+  open: boolean
+  categories: Category[]
+  onClose: () => void
+  onAdd: (name: string, color: CategoryColor) => CategoryResult
+  onRename: (id: string, name: string) => CategoryResult
+  onColorChange: (id: string, color: CategoryColor) => void
+  onArchive: (id: string, archived: boolean) => void
+  onMove: (id: string, direction: -1 | 1) => void
+  onAddProject: (categoryId: string, name: string) => CategoryResult
+  onRenameProject: (categoryId: string, projectId: string, name: string) => CategoryResult
+  onArchiveProject: (categoryId: string, projectId: string, archived: boolean) => void
+}) {
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+  const [newName, setNewName] = useState('')
+  const [newColor, setNewColor] = useState<CategoryColor>('orange')
+  const [newProjectName, setNewProjectName] = useState('')
+  const [error, setError] = useState<string | null>(null)
+  const [projectError, setProjectError] = useState<string | null>(null)
+
+  useEffect(() => {
+    if (!open) return
+    setNewName('')
+    setError(null)
+    setExpandedId(null)
+  }, [open])
+
+  useEffect(() => {
+    setNewProjectName('')
+    setProjectError(null)
+  }, [expandedId])
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault()
+    const result = onAdd(newName, newColor)
+    if (!result.success) {
+      setError(result.error || 'Could not add category')
+      return
+    }
+    setNewName('')
+    setError(null)
+  }
+
+  const handleAddProject = (e: React.FormEvent, categoryId: string) => {
+    e.preventDefault()
+    const result = onAddProject(categoryId, newProjectName)
+    if (!result.success) {
+      setProjectError(result.error || 'Could not add project')
+      return
+    }
+    setNewProjectName('')
+    setProjectError(null)
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>Categories</DialogTitle>
+          <DialogDescription>
+            Renaming a category updates its tasks. Archived categories are hidden from lists and stats; their tasks are kept.
+          </DialogDescription>
+        </DialogHeader>
+
+        <ScrollArea className="max-h-[55vh] pr-3">
+          <div className="space-y-2">
+            {categories.map((category, index) => {
+              const expanded = expandedId === category.id
+              const activeProjects = getActiveProjects(category).length
+
+              return (
+                <div
+                  key={category.id}
+                  className={cn(
+                    "rounded-lg border border-gray-200 dark:border-gray-700 p-2 space-y-2",
+                    category.archived && "opacity-60"
+                  )}
+                >
+                  <div className="flex items-start gap-2">
+                    <Popover>
+                      <PopoverTrigger asChild>
+                        <button
+                          type="button"
+                          className={cn("mt-2.5 w-4 h-4 rounded-full flex-shrink-0", CATEGORY_SWATCH_CLASSES[category.color])}
+                          aria-label={`Color for ${category.name}`}
+                        />
+                      </PopoverTrigger>
+                      <PopoverContent className="w-auto p-2" align="start">
+                        <ColorSwatches value={category.color} onChange={(color) => onColorChange(category.id, color)} />
+                      </PopoverContent>
+                    </Popover>
+                    <NameInput
+                      value={category.name}
+                      label="Category name"
+                      onCommit={(name) => onRename(category.id, name)}
+                    />
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className={cn("h-9 gap-1 text-xs", expanded && "text-[#6B4EE6]")}
+                      onClick={() => setExpandedId(expanded ? null : category.id)}
+                      aria-expanded={expanded}
+                      title="Projects"
+                    >
+                      <FolderOpen className="w-4 h-4" />
+                      {activeProjects > 0 && activeProjects}
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-9 w-9"
+                      onClick={() => onMove(category.id, -1)}
+                      disabled={index === 0}
+                      aria-label={`Move ${category.name} up`}
+                    >
+                      <ChevronUp className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-9 w-9"
+                      onClick={() => onMove(category.id, 1)}
+                      disabled={index === categories.length - 1}
+                      aria-label={`Move ${category.name} down`}
+                    >
+                      <ChevronDown className="w-4 h-4" />
+                    </Button>
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-9 w-9"
+                      onClick={() => onArchive(category.id, !category.archived)}
+                      aria-label={category.archived ? `Restore ${category.name}` : `Archive ${category.name}`}
+                      title={category.archived ? 'Restore' : 'Archive'}
+                    >
+                      {category.archived ? <ArchiveRestore className="w-4 h-4" /> : <Archive className="w-4 h-4" />}
+                    </Button>
+                  </div>
+
+                  {expanded && (
+                    <div className="ml-6 space-y-2">
+                      {category.projects.map(project => (
+                        <div key={project.id} className={cn("flex items-start gap-2", project.archived && "opacity-60")}>
+                          <FolderOpen className="w-4 h-4 mt-2.5 text-gray-400 flex-shrink-0" />
+                          <NameInput
+                            value={project.name}
+                            label="Project name"
+                            onCommit={(name) => onRenameProject(category.id, project.id, name)}
+                          />
+                          <Button
+                            variant="ghost"
+                            size="icon"
+                            className="h-9 w-9"
+                            onClick={() => onArchiveProject(category.id, project.id, !project.archived)}
+                            aria-label={project.archived ? `Restore ${project.name}` : `Archive ${project.name}`}
+                            title={project.archived ? 'Restore' : 'Archive'}
+                          >
+                            {project.archived ? <ArchiveRestore className="w-4 h-4" /> : <Archive className="w-4 h-4" />}
+                          </Button>
+                        </div>
+                      ))}
+                      <form onSubmit={(e) => handleAddProject(e, category.id)} className="flex gap-2">
+                        <Input
+                          value={newProjectName}
+                          onChange={(e) => {
+                            setNewProjectName(e.target.value)
+                            setProjectError(null)
+                          }}
+                          placeholder={`New project in ${category.name}`}
+                          className="h-8 text-sm"
+                        />
+                        <Button type="submit" variant="outline" size="sm" className="h-8" disabled={!newProjectName.trim()}>
+                          Add
+                        </Button>
+                      </form>
+                      {projectError && <p className="text-xs text-red-500">{projectError}</p>}
+                    </div>
+                  )}
+                </div>
+              )
+            })}
+          </div>
+        </ScrollArea>
+
+        <form onSubmit={handleAdd} className="space-y-2 border-t border-gray-200 dark:border-gray-700 pt-4">
+          <Label htmlFor="new-category">New category</Label>
+          <div className="flex gap-2">
+            <Input
+              id="new-category"
+              value={newName}
+              onChange={(e) => {
+                setNewName(e.target.value)
+                setError(null)
+              }}
+              placeholder="e.g. Health"
+            />
+            <Button type="submit" className="bg-[#6B4EE6] hover:bg-[#5a3ec5]" disabled={!newName.trim()}>
+              <Plus className="w-4 h-4" />
+              Add
+            </Button>
+          </div>
+          <ColorSwatches value={newColor} onChange={setNewColor} />
+          {error && <p className="text-xs text-red-500">{error}</p>}
+        </form>
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+// Board View Component
+function BoardView({
+  tasks,
+  taskIndex,
+  categories,
+  onStatusChange
+}: {
+  tasks: Task[]
+  taskIndex: TaskIndex
+  categories: Category[]
+  onStatusChange: (id: string, status: Task['status']) => void
+}) {
+  const [wipLimits, setWipLimits] = useState<WipLimits>(loadWipLimits)
+  const [dragOverColumn, setDragOverColumn] = useState<Task['status'] | null>(null)
+  const [focusTaskId, setFocusTaskId] = useState<string | null>(null)
+  const [announcement, setAnnouncement] = useState('')
+
+  const columns = BOARD_COLUMNS.map(status => ({
+    status,
+    config: getStatusConfig(status),
+    tasks: tasks.filter(t => getEffectiveStatus(t, taskIndex) === status),
+    limit: wipLimits[status]
+  }))
+
+  // Keep keyboard focus on a card after it moves to another column
+  useEffect(() => {
+    if (!focusTaskId) return
+    document.getElementById(`board-card-${focusTaskId}`)?.focus()
+    setFocusTaskId(null)
+  }, [focusTaskId, tasks])
+
+  const handleLimitChange = (status: Task['status'], value: string) => {
+    const limit = parseInt(value, 10)
+    const next = { ...wipLimits, [status]: limit > 0 ? limit : null }
+    setWipLimits(next)
+    saveWipLimits(next)
+  }
+
+  const moveTask = (task: Task, status: Task['status']) => {
+    if (getEffectiveStatus(task, taskIndex) === status) return
+
+    onStatusChange(task.id, status)
+    const column = columns.find(c => c.status === status)
+    const wipState = getWipState((column?.tasks.length || 0) + 1, column?.limit)
+    let message = `Moved "${task.title}" to ${getStatusConfig(status).label}.`
+    if (status !== 'blocked' && status !== 'completed' && getDependencies(task, taskIndex).some(d => !d.completed)) {
+      message += ' It stays blocked until its dependencies are completed.'
+    } else if (wipState === 'over-limit') {
+      message += ` ${getStatusConfig(status).label} is over its WIP limit.`
+    }
+    setAnnouncement(message)
+  }
+
+  const handleCardKeyDown = (e: React.KeyboardEvent, task: Task) => {
+    if (e.key !== 'ArrowLeft' && e.key !== 'ArrowRight') return
+    e.preventDefault()
+    const target = getAdjacentColumn(getEffectiveStatus(task, taskIndex), e.key === 'ArrowLeft' ? -1 : 1)
+    if (!target) return
+    moveTask(task, target)
+    setFocusTaskId(task.id)
+  }
+
+  const handleDrop = (e: React.DragEvent, status: Task['status']) => {
+    e.preventDefault()
+    setDragOverColumn(null)
+    const task = taskIndex.get(e.dataTransfer.getData('text/plain'))
+    if (task) moveTask(task, status)
+  }
+
+  return (
+    <div className="space-y-3">
+      <p className="text-xs text-gray-500">
+        Drag cards between columns, or focus a card and use the left/right arrow keys.
+      </p>
+      <p className="sr-only" aria-live="polite">{announcement}</p>
+      {announcement && (
+        <p className="text-xs text-gray-600 dark:text-gray-400" aria-hidden>{announcement}</p>
+      )}
+
+      <div className="grid grid-cols-4 gap-3 overflow-x-auto pb-2">
+        {columns.map(({ status, config, tasks: columnTasks, limit }) => {
+          const ColumnIcon = config.icon
+          const wipState = getWipState(columnTasks.length, limit)
+
+          return (
+            <div
+              key={status}
+              role="list"
+              aria-label={`${config.label} column`}
+              onDragOver={(e) => {
+                e.preventDefault()
+                setDragOverColumn(status)
+              }}
+              onDragLeave={() => setDragOverColumn(prev => (prev === status ? null : prev))}
+              onDrop={(e) => handleDrop(e, status)}
+              className={cn(
+                "min-w-[200px] rounded-lg border p-2 space-y-2 transition-colors",
+                config.bgColor,
+                dragOverColumn === status && "ring-2 ring-[#6B4EE6]",
+                wipState === 'at-limit' && "border-yellow-400",
+                wipState === 'over-limit' && "border-red-500"
+              )}
+            >
+              <div className="flex items-center justify-between px-1">
+                <div className="flex items-center gap-1.5">
+                  <ColumnIcon className={cn("w-4 h-4", config.color)} />
+                  <span className="text-sm font-semibold text-gray-900 dark:text-white">{config.label}</span>
+                </div>
+                <Popover>
+                  <PopoverTrigger asChild>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      className={cn(
+                        "h-6 px-1.5 text-xs tabular-nums",
+                        wipState === 'at-limit' && "text-yellow-600",
+                        wipState === 'over-limit' && "text-red-500"
+                      )}
+                      aria-label={`Set WIP limit for ${config.label}`}
+                    >
+                      {columnTasks.length}{limit ? ` / ${limit}` : ''}
+                    </Button>
+                  </PopoverTrigger>
+                  <PopoverContent className="w-48">
+                    <Label htmlFor={`wip-${status}`} className="text-xs">WIP limit</Label>
+                    <Input
+                      id={`wip-${status}`}
+                      type="number"
+                      min={0}
+                      value={limit || ''}
+                      onChange={(e) => handleLimitChange(status, e.target.value)}
+                      placeholder="No limit"
+                      className="h-8 mt-1.5"
+                    />
+                  </PopoverContent>
+                </Popover>
+              </div>
+
+              {wipState === 'over-limit' && (
+                <div className="flex items-center gap-1 px-1 text-xs text-red-500">
+                  <AlertTriangle className="w-3 h-3" />
+                  <span>Over WIP limit by {columnTasks.length - (limit || 0)}</span>
+                </div>
+              )}
+
+              {columnTasks.map(task => (
+                <div
+                  key={task.id}
+                  id={`board-card-${task.id}`}
+                  role="listitem"
+                  tabIndex={0}
+                  draggable
+                  onDragStart={(e) => {
+                    e.dataTransfer.setData('text/plain', task.id)
+                    e.dataTransfer.effectAllowed = 'move'
+                  }}
+                  onDragEnd={() => setDragOverColumn(null)}
+                  onKeyDown={(e) => handleCardKeyDown(e, task)}
+                  aria-label={`${task.title}, ${config.label}. Use left and right arrow keys to move.`}
+                  className="rounded-md bg-white dark:bg-gray-800 border border-gray-200 dark:border-gray-700 p-2.5 cursor-grab active:cursor-grabbing focus:outline-none focus-visible:ring-2 focus-visible:ring-[#6B4EE6]"
+                >
+                  <p className={cn(
+                    "text-sm font-medium text-gray-900 dark:text-white",
+                    task.completed && "line-through text-gray-400"
+                  )}>
+                    {task.title}
+                  </p>
+                  <div className="flex items-center gap-2 mt-1.5">
+                    <div className={cn("w-2 h-2 rounded-full", getPriorityColor(task.priority))} />
+                    <span className={cn(
+                      "text-xs",
+                      !task.completed && getDaysOverdue(task.dueDate) > 0 ? "text-red-600" : "text-gray-500"
+                    )}>
+                      {formatDate(task.dueDate, !task.completed)}
+                      {task.dueTime && ` · ${formatDueTime(task)}`}
+                    </span>
+                    <Badge variant="outline" className={cn("text-[10px] px-1.5 py-0", getCategoryColor(categories, task.category))}>
+                      {task.category}
+                    </Badge>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
+
+// Calendar View Component
+function CalendarView({
+  tasks,
+  onReschedule,
+  onAddOnDay
+}: {
+  tasks: Task[]
+  onReschedule: (id: string, day: Date) => void
+  onAddOnDay: (day: Date) => void
+}) {
+  const [mode, setMode] = useState<CalendarMode>('month')
+  const [cursor, setCursor] = useState(() => new Date())
+  const [dragOverDay, setDragOverDay] = useState<string | null>(null)
+
+  const range = getCalendarRange(cursor, mode)
+  const { tasks: rangeTasks } = useTaskQuery({ dueFrom: range.start, dueBefore: range.end }, tasks)
+  const occurrences = expandOccurrences(tasks, range.start, range.days[range.days.length - 1])
+  const todayKey = new Date().toDateString()
+  const maxVisible = mode === 'month' ? 3 : 12
+
+  const itemsForDay = (day: Date) => {
+    const key = day.toDateString()
+    return {
+      dayTasks: rangeTasks.filter(t => t.dueDate.toDateString() === key),
+      dayOccurrences: occurrences.filter(o => o.date.toDateString() === key)
+    }
+  }
+
+  const handleDrop = (e: React.DragEvent, day: Date) => {
+    e.preventDefault()
+    setDragOverDay(null)
+    const id = e.dataTransfer.getData('text/plain')
+    if (id) onReschedule(id, day)
+  }
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-center justify-between gap-2 flex-wrap">
+        <div className="flex items-center gap-1">
+          <Button variant="outline" size="icon" className="h-8 w-8" onClick={() => setCursor(shiftCalendar(cursor, mode, -1))}>
+            <ChevronLeft className="w-4 h-4" />
+          </Button>
+          <Button variant="outline" size="sm" className="h-8" onClick={() => setCursor(new Date())}>
+            Today
+          </Button>
+          <Button variant="outline" size="icon" className="h-8 w-8" onClick={() => setCursor(shiftCalendar(cursor, mode, 1))}>
+            <ChevronRight className="w-4 h-4" />
+          </Button>
+          <h2 className="text-lg font-semibold text-gray-900 dark:text-white ml-2">
+            {getCalendarTitle(cursor, mode)}
+          </h2>
+        </div>
+        <Tabs value={mode} onValueChange={(value) => setMode(value as CalendarMode)}>
+          <TabsList className="h-8">
+            <TabsTrigger value="week" className="text-xs">Week</TabsTrigger>
+            <TabsTrigger value="month" className="text-xs">Month</TabsTrigger>
+          </TabsList>
+        </Tabs>
+      </div>
+
+      <div className="grid grid-cols-7 gap-px rounded-lg overflow-hidden border border-gray-200 dark:border-gray-700 bg-gray-200 dark:bg-gray-700">
+        {['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'].map(label => (
+          <div key={label} className="bg-gray-50 dark:bg-gray-900 px-2 py-1 text-xs font-medium text-gray-500 text-center">
+            {label}
+          </div>
+        ))}
+
+        {range.days.map(day => {
+          const key = day.toDateString()
+          const { dayTasks, dayOccurrences } = itemsForDay(day)
+          const itemCount = dayTasks.length + dayOccurrences.length
+          const outsideMonth = mode === 'month' && day.getMonth() !== cursor.getMonth()
+
+          return (
+            <div
+              key={key}
+              onDragOver={(e) => {
+                e.preventDefault()
+                setDragOverDay(key)
+              }}
+              onDragLeave={() => setDragOverDay(prev => (prev === key ? null : prev))}
+              onDrop={(e) => handleDrop(e, day)}
+              onClick={() => itemCount === 0 && onAddOnDay(day)}
+              className={cn(
+                "group bg-white dark:bg-gray-800 p-1.5 flex flex-col gap-1",
+                mode === 'month' ? "min-h-[96px]" : "min-h-[320px]",
+                outsideMonth && "bg-gray-50 dark:bg-gray-900/60",
+                itemCount === 0 && "cursor-pointer hover:bg-gray-50 dark:hover:bg-gray-700/50",
+                dragOverDay === key && "ring-2 ring-inset ring-[#6B4EE6]"
+              )}
+            >
+              <div className="flex items-center justify-between">
+                <span className={cn(
+                  "text-xs w-6 h-6 flex items-center justify-center rounded-full",
+                  key === todayKey ? "bg-[#6B4EE6] text-white font-semibold" : "text-gray-600 dark:text-gray-400",
+                  outsideMonth && key !== todayKey && "text-gray-300 dark:text-gray-600"
+                )}>
+                  {day.getDate()}
+                </span>
+                {itemCount > 0 && (
+                  <button
+                    type="button"
+                    className="opacity-0 group-hover:opacity-100 focus:opacity-100 text-gray-400 hover:text-[#6B4EE6]"
+                    onClick={(e) => {
+                      e.stopPropagation()
+                      onAddOnDay(day)
+                    }}
+                    aria-label={`Add task on ${day.toLocaleDateString('en-US', { month: 'long', day: 'numeric' })}`}
+                  >
+                    <Plus className="w-3.5 h-3.5" />
+                  </button>
+                )}
+              </div>
+
+              {dayTasks.slice(0, maxVisible).map(task => (
+                <div
+                  key={task.id}
+                  draggable
+                  onDragStart={(e) => {
+                    e.dataTransfer.setData('text/plain', task.id)
+                    e.dataTransfer.effectAllowed = 'move'
+                  }}
+                  onClick={(e) => e.stopPropagation()}
+                  title={task.title}
+                  className="flex items-center gap-1 rounded px-1 py-0.5 text-xs bg-gray-50 dark:bg-gray-700/60 cursor-grab active:cursor-grabbing"
+                >
+                  <div className={cn("w-1.5 h-1.5 rounded-full flex-shrink-0", getPriorityColor(task.priority))} />
+                  <span className={cn(
+                    "truncate text-gray-800 dark:text-gray-200",
+                    task.completed && "line-through text-gray-400"
+                  )}>
+                    {task.title}
+                  </span>
+                </div>
+              ))}
+
+              {dayOccurrences.slice(0, Math.max(0, maxVisible - dayTasks.length)).map(({ task, date }) => (
+                <div
+                  key={`${task.id}-${date.getTime()}`}
+                  title={`${task.title} (${describeRecurrence(task.recurrence, getSeriesDay(task))})`}
+                  className="flex items-center gap-1 rounded px-1 py-0.5 text-xs border border-dashed border-gray-200 dark:border-gray-600 text-gray-400"
+                >
+                  <div className={cn("w-1.5 h-1.5 rounded-full flex-shrink-0 opacity-60", getPriorityColor(task.priority))} />
+                  <span className="truncate">{task.title}</span>
+                </div>
+              ))}
+
+              {itemCount > maxVisible && (
+                <span className="text-[10px] text-gray-500 px-1">+{itemCount - maxVisible} more</span>
+              )}
+            </div>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
+
+// Smart List Editor Component - name a filter query, with autocomplete and a live match count
+function SmartListEditor({
+  open,
+  list,
+  tasks,
+  categories,
+  onClose,
+  onSave,
+  onDelete
+}: {
+  open: boolean
+  /** The list being edited; null creates a new one */
+  list: SmartList | null
+  tasks: Task[]
+  categories: Category[]
+  onClose: () => void
+  onSave: (name: string, query: string) => SmartListResult
+  onDelete: (id: string) => void
+}) {
+  const [name, setName] = useState('')
+  const [query, setQuery] = useState('')
+  const [cursor, setCursor] = useState(0)
+  const [showSuggestions, setShowSuggestions] = useState(false)
+  const [activeSuggestion, setActiveSuggestion] = useState(0)
+  const [saveError, setSaveError] = useState<string | null>(null)
+  const queryInputRef = useRef<HTMLInputElement>(null)
+
+  useEffect(() => {
+    if (!open) return
+    setName(list?.name || '')
+    setQuery(list?.query || '')
+    setShowSuggestions(false)
+    setSaveError(null)
+  }, [open, list])
+
+  const parsed = parseFilterQuery(query)
+  const valid = parsed.errors.length === 0 && query.trim() !== ''
+  const matches = valid ? filterTasksByQuery(tasks, parsed, { categories }) : []
+  const suggestions = showSuggestions ? getQuerySuggestions(query, cursor, { categories }).slice(0, 8) : []
+
+  const handleQueryChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setQuery(e.target.value)
+    setCursor(e.target.selectionStart ?? e.target.value.length)
+    setShowSuggestions(true)
+    setActiveSuggestion(0)
+    setSaveError(null)
+  }
+
+  const acceptSuggestion = (suggestion: QuerySuggestion) => {
+    const next = applyQuerySuggestion(query, suggestion)
+    setQuery(next.value)
+    setCursor(next.cursor)
+    setActiveSuggestion(0)
+    // Put the caret after the inserted text once React has updated the input
+    requestAnimationFrame(() => {
+      queryInputRef.current?.focus()
+      queryInputRef.current?.setSelectionRange(next.cursor, next.cursor)
+    })
+  }
+
+  const handleQueryKeyDown = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (suggestions.length === 0) return
+    if (e.key === 'ArrowDown' || e.key === 'ArrowUp') {
+      e.preventDefault()
+      const step = e.key === 'ArrowDown' ? 1 : -1
+      setActiveSuggestion(prev => (prev + step + suggestions.length) % suggestions.length)
+    } else if (e.key === 'Tab' || e.key === 'Enter') {
+      const suggestion = suggestions[Math.min(activeSuggestion, suggestions.length - 1)]
+      // Between terms of a complete query, Enter saves instead of starting another term
+      if (e.key === 'Enter' && valid && suggestion.start === suggestion.end) return
+      e.preventDefault()
+      acceptSuggestion(suggestion)
+    }
+  }
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault()
+    const result = onSave(name, query)
+    if (!result.success) {
+      setSaveError(result.error || 'Could not save the smart list')
+      return
+    }
+    onClose()
+  }
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-lg">
+        <DialogHeader>
+          <DialogTitle>{list ? 'Edit Smart List' : 'New Smart List'}</DialogTitle>
+          <DialogDescription>
+            Combine filters like <code className="text-xs">priority:high status:!completed due:&lt;7d category:Work</code>.
+            Words without a filter match task titles.
+          </DialogDescription>
+        </DialogHeader>
+        <form onSubmit={handleSubmit} className="space-y-4">
+          <div>
+            <Label htmlFor="smart-list-name">Name</Label>
+            <Input
+              id="smart-list-name"
+              value={name}
+              onChange={(e) => {
+                setName(e.target.value)
+                setSaveError(null)
+              }}
+              placeholder="e.g. Urgent this week"
+              className="mt-1.5"
+            />
+          </div>
+
+          <div className="relative">
+            <Label htmlFor="smart-list-query">Filter</Label>
+            <Input
+              id="smart-list-query"
+              ref={queryInputRef}
+              value={query}
+              onChange={handleQueryChange}
+              onKeyDown={handleQueryKeyDown}
+              onSelect={(e) => setCursor(e.currentTarget.selectionStart ?? query.length)}
+              onFocus={() => setShowSuggestions(true)}
+              onBlur={() => setShowSuggestions(false)}
+              placeholder="priority:high due:<7d"
+              className={cn("mt-1.5 font-mono text-sm", parsed.errors.length > 0 && "border-red-500")}
+              autoComplete="off"
+              role="combobox"
+              aria-expanded={suggestions.length > 0}
+              aria-controls="smart-list-suggestions"
+              aria-invalid={parsed.errors.length > 0}
+            />
+            {suggestions.length > 0 && (
+              <div
+                id="smart-list-suggestions"
+                role="listbox"
+                className="absolute z-50 mt-1 w-full rounded-md border border-gray-200 dark:border-gray-700 bg-white dark:bg-gray-800 shadow-md py-1"
+              >
+                {suggestions.map((suggestion, index) => (
+                  <button
+                    key={`${suggestion.label}-${index}`}
+                    type="button"
+                    role="option"
+                    aria-selected={index === activeSuggestion}
+                    // Keep focus in the input so the caret position survives
+                    onMouseDown={(e) => e.preventDefault()}
+                    onClick={() => acceptSuggestion(suggestion)}
+                    className={cn(
+                      "w-full flex items-center justify-between gap-3 px-3 py-1.5 text-left text-sm",
+                      index === activeSuggestion && "bg-[#6B4EE6]/10"
+                    )}
+                  >
+                    <span className="font-mono">{suggestion.label}</span>
+                    {suggestion.detail && <span className="text-xs text-gray-500 truncate">{suggestion.detail}</span>}
+                  </button>
+                ))}
+              </div>
+            )}
+            {parsed.errors.map(error => (
+              <p key={`${error.start}-${error.message}`} className="mt-1 text-xs text-red-500">
+                <code>{query.slice(error.start, error.end)}</code>: {error.message}
+              </p>
+            ))}
+          </div>
+
+          {valid && (
+            <div className="rounded-md border bg-gray-50 dark:bg-gray-900/50 p-2 space-y-1" aria-live="polite">
+              <p className="text-xs font-medium text-gray-600 dark:text-gray-400">
+                {matches.length} matching {matches.length === 1 ? 'task' : 'tasks'}
+              </p>
+              {matches.slice(0, 3).map(task => (
+                <p key={task.id} className="text-xs text-gray-500 truncate">{task.title}</p>
+              ))}
+              {matches.length > 3 && <p className="text-xs text-gray-400">and {matches.length - 3} more</p>}
+            </div>
+          )}
+
+          {saveError && <p className="text-xs text-red-500">{saveError}</p>}
+
+          <div className="flex gap-2 pt-2">
+            {list && (
+              <Button
+                type="button"
+                variant="outline"
+                className="text-red-600 hover:text-red-700"
+                onClick={() => {
+                  onDelete(list.id)
+                  onClose()
+                }}
+              >
+                <Trash2 className="w-4 h-4" />
+              </Button>
+            )}
+            <Button type="button" variant="outline" onClick={onClose} className="flex-1">
+              Cancel
+            </Button>
+            <Button
+              type="submit"
+              className="flex-1 bg-[#6B4EE6] hover:bg-[#5a3ec5]"
+              disabled={!valid || !name.trim()}
+            >
+              Save
             </Button>
           </div>
         </form>
@@ -630,14 +3104,36 @@ function AIChat({ open, onClose }: { open: boolean; onClose: () => void }) {
 }
 
 // Lists View Component
-function ListsView({ tasks, onFilterChange }: { tasks: Task[]; onFilterChange: (category: string | null) => void }) {
+function ListsView({
+  tasks,
+  categories,
+  smartLists,
+  onFilterChange,
+  onManage,
+  onOpenSmartList,
+  onEditSmartList
+}: {
+  tasks: Task[]
+  categories: Category[]
+  smartLists: SmartList[]
+  onFilterChange: (category: string | null) => void
+  onManage: () => void
+  onOpenSmartList: (id: string) => void
+  onEditSmartList: (list: SmartList | null) => void
+}) {
   const [activeCategory, setActiveCategory] = useState<string | null>(null)
 
-  const categories = ['Work', 'Personal', 'Shopping']
-  const categoryCounts = categories.map(cat => ({
-    name: cat,
-    count: tasks.filter(t => t.category === cat && !t.completed).length
-  }))
+  const categoryCounts = getActiveCategories(categories).map(category => {
+    const openTasks = tasks.filter(t => belongsToCategory(t, category) && !t.completed)
+    return {
+      name: category.name,
+      count: openTasks.length,
+      projects: getActiveProjects(category).map(project => ({
+        project,
+        count: openTasks.filter(t => t.projectId === project.id).length
+      }))
+    }
+  })
 
   const handleCategoryClick = (category: string) => {
     const newCategory = activeCategory === category ? null : category
@@ -647,10 +3143,20 @@ function ListsView({ tasks, onFilterChange }: { tasks: Task[]; onFilterChange: (
 
   return (
     <div className="space-y-4">
-      <h2 className="text-2xl font-bold text-gray-900 dark:text-white">Lists</h2>
+      <div className="flex items-center justify-between">
+        <h2 className="text-2xl font-bold text-gray-900 dark:text-white">Lists</h2>
+        <Button variant="outline" size="sm" onClick={onManage} className="gap-1">
+          <Pencil className="w-3.5 h-3.5" />
+          Manage
+        </Button>
+      </div>
+
+      {categoryCounts.length === 0 && (
+        <p className="text-sm text-gray-500">All categories are archived. Use Manage to add or restore one.</p>
+      )}
 
       <div className="grid gap-3">
-        {categoryCounts.map(({ name, count }) => (
+        {categoryCounts.map(({ name, count, projects }) => (
           <Card
             key={name}
             className={cn(
@@ -659,30 +3165,101 @@ function ListsView({ tasks, onFilterChange }: { tasks: Task[]; onFilterChange: (
             )}
             onClick={() => handleCategoryClick(name)}
           >
-            <CardContent className="p-4 flex items-center justify-between">
-              <div className="flex items-center gap-3">
-                <div className={cn(
-                  "w-10 h-10 rounded-lg flex items-center justify-center",
-                  getCategoryColor(name)
-                )}>
-                  <ListTodo className="w-5 h-5" />
-                </div>
-                <div>
-                  <h3 className="font-semibold text-gray-900 dark:text-white">{name}</h3>
-                  <p className="text-sm text-gray-500">{count} tasks</p>
+            <CardContent className="p-4">
+              <div className="flex items-center justify-between">
+                <div className="flex items-center gap-3">
+                  <div className={cn(
+                    "w-10 h-10 rounded-lg flex items-center justify-center",
+                    getCategoryColor(categories, name)
+                  )}>
+                    <ListTodo className="w-5 h-5" />
+                  </div>
+                  <div>
+                    <h3 className="font-semibold text-gray-900 dark:text-white">{name}</h3>
+                    <p className="text-sm text-gray-500">{count} tasks</p>
+                  </div>
                 </div>
+                <ChevronRight className="w-5 h-5 text-gray-400" />
               </div>
-              <ChevronRight className="w-5 h-5 text-gray-400" />
+              {projects.length > 0 && (
+                <div className="mt-3 ml-[52px] space-y-1">
+                  {projects.map(({ project, count: projectCount }) => (
+                    <div key={project.id} className="flex items-center justify-between text-sm text-gray-600 dark:text-gray-400">
+                      <span className="flex items-center gap-1.5">
+                        <FolderOpen className="w-3.5 h-3.5" />
+                        {project.name}
+                      </span>
+                      <span className="text-xs text-gray-500">{projectCount}</span>
+                    </div>
+                  ))}
+                </div>
+              )}
             </CardContent>
           </Card>
         ))}
       </div>
+
+      <div className="flex items-center justify-between pt-2">
+        <h3 className="text-sm font-semibold text-gray-500">Smart lists</h3>
+        <Button variant="ghost" size="sm" onClick={() => onEditSmartList(null)} className="h-7 gap-1 text-xs">
+          <Plus className="w-3.5 h-3.5" />
+          New smart list
+        </Button>
+      </div>
+
+      {smartLists.length === 0 ? (
+        <p className="text-sm text-gray-500">
+          Save a filter such as <code className="text-xs">priority:high due:&lt;7d</code> to keep it one tap away.
+        </p>
+      ) : (
+        <div className="grid gap-3">
+          {smartLists.map(list => {
+            const count = filterTasksByQuery(tasks, parseFilterQuery(list.query), { categories }).length
+
+            return (
+              <Card
+                key={list.id}
+                className="cursor-pointer transition-all hover:shadow-md"
+                onClick={() => onOpenSmartList(list.id)}
+              >
+                <CardContent className="p-4 flex items-center justify-between gap-3">
+                  <div className="flex items-center gap-3 min-w-0">
+                    <div className="w-10 h-10 rounded-lg flex items-center justify-center flex-shrink-0 bg-[#6B4EE6]/10 text-[#6B4EE6]">
+                      <Filter className="w-5 h-5" />
+                    </div>
+                    <div className="min-w-0">
+                      <h3 className="font-semibold text-gray-900 dark:text-white">{list.name}</h3>
+                      <p className="text-sm text-gray-500">{count} tasks</p>
+                      <p className="text-xs text-gray-400 font-mono truncate">{list.query}</p>
+                    </div>
+                  </div>
+                  <div className="flex items-center gap-1">
+                    <Button
+                      variant="ghost"
+                      size="icon"
+                      className="h-8 w-8 text-gray-400"
+                      onClick={(e) => {
+                        e.stopPropagation()
+                        onEditSmartList(list)
+                      }}
+                      aria-label={`Edit ${list.name}`}
+                    >
+                      <Pencil className="w-4 h-4" />
+                    </Button>
+                    <ChevronRight className="w-5 h-5 text-gray-400" />
+                  </div>
+                </CardContent>
+              </Card>
+            )
+          })}
+        </div>
+      )}
     </div>
   )
 }
 
 // Stats View Component
-function StatsView({ tasks }: { tasks: Task[] }) {
+function StatsView({ tasks, categories }: { tasks: Task[]; categories: Category[] }) {
   const totalTasks = tasks.length
   const completedTasks = tasks.filter(t => t.completed).length
   const completionRate = totalTasks > 0 ? (completedTasks / totalTasks) * 100 : 0
@@ -739,51 +3316,263 @@ function StatsView({ tasks }: { tasks: Task[] }) {
         </Card>
       </div>
 
-      <Card>
-        <CardHeader>
-          <CardTitle className="text-base">Task Breakdown</CardTitle>
-        </CardHeader>
-        <CardContent className="space-y-3">
-          {['Work', 'Personal', 'Shopping'].map(category => {
-            const categoryTasks = tasks.filter(t => t.category === category)
-            const categoryCompleted = categoryTasks.filter(t => t.completed).length
-            const categoryRate = categoryTasks.length > 0 ? (categoryCompleted / categoryTasks.length) * 100 : 0
+      <Card>
+        <CardHeader>
+          <CardTitle className="text-base">Task Breakdown</CardTitle>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          {getActiveCategories(categories).map(category => {
+            const categoryTasks = tasks.filter(t => belongsToCategory(t, category))
+            const categoryCompleted = categoryTasks.filter(t => t.completed).length
+            const categoryRate = categoryTasks.length > 0 ? (categoryCompleted / categoryTasks.length) * 100 : 0
+
+            return (
+              <div key={category.id}>
+                <div className="flex items-center justify-between mb-1">
+                  <span className="flex items-center gap-2 text-sm font-medium text-gray-700 dark:text-gray-300">
+                    <span className={cn("w-2 h-2 rounded-full", CATEGORY_SWATCH_CLASSES[category.color])} />
+                    {category.name}
+                  </span>
+                  <span className="text-xs text-gray-500">{categoryCompleted}/{categoryTasks.length}</span>
+                </div>
+                <Progress value={categoryRate} className="h-2" />
+              </div>
+            )
+          })}
+        </CardContent>
+      </Card>
+    </div>
+  )
+}
+
+// Rollover Dialog Component - the morning rollover setting and the log of moved tasks
+function RolloverDialog({
+  open,
+  enabled,
+  log,
+  onClose,
+  onEnabledChange,
+  onClearLog,
+  onOpenTask
+}: {
+  open: boolean
+  enabled: boolean
+  log: RolloverEntry[]
+  onClose: () => void
+  onEnabledChange: (enabled: boolean) => void
+  onClearLog: () => void
+  onOpenTask: (id: string) => void
+}) {
+  const formatDay = (date: Date) => date.toLocaleDateString('en-US', { month: 'short', day: 'numeric' })
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Overdue tasks</DialogTitle>
+          <DialogDescription>
+            Incomplete tasks due before today are listed under Overdue. Rollover moves them to today; repeating tasks stay where they are.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="flex items-center gap-2">
+          <Switch id="morning-rollover" checked={enabled} onCheckedChange={onEnabledChange} />
+          <Label htmlFor="morning-rollover" className="text-sm font-normal">
+            Move overdue tasks to today each morning
+          </Label>
+        </div>
+
+        <Separator />
+
+        <div className="flex items-center justify-between">
+          <h3 className="text-sm font-semibold text-gray-500">Rollover log</h3>
+          {log.length > 0 && (
+            <Button variant="ghost" size="sm" onClick={onClearLog} className="h-6 text-xs">
+              Clear
+            </Button>
+          )}
+        </div>
+        {log.length === 0 ? (
+          <p className="text-sm text-gray-500">No tasks have been rolled over yet.</p>
+        ) : (
+          <ScrollArea className="h-64">
+            <ul className="space-y-1 pr-3">
+              {log.map((entry, index) => (
+                <li key={`${entry.taskId}-${entry.rolledAt.getTime()}-${index}`}>
+                  <button
+                    type="button"
+                    onClick={() => {
+                      onClose()
+                      onOpenTask(entry.taskId)
+                    }}
+                    className="w-full text-left rounded-md px-2 py-1.5 hover:bg-gray-100 dark:hover:bg-gray-700"
+                  >
+                    <p className="text-sm truncate text-gray-900 dark:text-white">{entry.title}</p>
+                    <p className="text-xs text-gray-500">
+                      {formatDay(entry.from)} → {formatDay(entry.to)} · {entry.automatic ? 'Morning rollover' : 'Moved manually'}
+                    </p>
+                  </button>
+                </li>
+              ))}
+            </ul>
+          </ScrollArea>
+        )}
+      </DialogContent>
+    </Dialog>
+  )
+}
+
+// Time Zone Dialog Component - the zone day boundaries and due times are shown in
+function TimeZoneDialog({
+  open,
+  chosenTimeZone,
+  systemTimeZone,
+  onClose,
+  onChange
+}: {
+  open: boolean
+  chosenTimeZone: string | null
+  systemTimeZone: string
+  onClose: () => void
+  onChange: (zone: string | null) => void
+}) {
+  const [filter, setFilter] = useState('')
+  const zones = useMemo(() => getAvailableTimeZones(), [])
+
+  useEffect(() => {
+    if (open) setFilter('')
+  }, [open])
 
-            return (
-              <div key={category}>
-                <div className="flex items-center justify-between mb-1">
-                  <span className="text-sm font-medium text-gray-700 dark:text-gray-300">{category}</span>
-                  <span className="text-xs text-gray-500">{categoryCompleted}/{categoryTasks.length}</span>
-                </div>
-                <Progress value={categoryRate} className="h-2" />
-              </div>
-            )
-          })}
-        </CardContent>
-      </Card>
-    </div>
+  const needle = filter.trim().toLowerCase().replace(/\s+/g, '_')
+  const matches = needle ? zones.filter(zone => zone.toLowerCase().includes(needle)) : zones
+
+  const renderOption = (zone: string | null, label: string, detail?: string) => (
+    <button
+      key={zone ?? 'device'}
+      type="button"
+      onClick={() => {
+        onChange(zone)
+        onClose()
+      }}
+      aria-pressed={chosenTimeZone === zone}
+      className={cn(
+        "w-full flex items-center justify-between gap-2 rounded-md px-2 py-1.5 text-left text-sm hover:bg-gray-100 dark:hover:bg-gray-700",
+        chosenTimeZone === zone && "bg-[#6B4EE6]/10 text-[#6B4EE6]"
+      )}
+    >
+      <span className="truncate">{label}</span>
+      {detail && <span className="text-xs text-gray-500 flex-shrink-0">{detail}</span>}
+    </button>
+  )
+
+  return (
+    <Dialog open={open} onOpenChange={onClose}>
+      <DialogContent className="sm:max-w-md">
+        <DialogHeader>
+          <DialogTitle>Time zone</DialogTitle>
+          <DialogDescription>
+            Today, Upcoming and Overdue start at midnight in this zone. Timed tasks keep the zone they were set in and are shown converted.
+          </DialogDescription>
+        </DialogHeader>
+        <Input
+          value={filter}
+          onChange={(e) => setFilter(e.target.value)}
+          placeholder="Search time zones"
+          aria-label="Search time zones"
+        />
+        <ScrollArea className="h-72">
+          <div className="space-y-0.5 pr-3">
+            {!needle && renderOption(null, 'Use device time zone', systemTimeZone.replace(/_/g, ' '))}
+            {matches.map(zone => renderOption(zone, zone.replace(/_/g, ' ')))}
+            {matches.length === 0 && <p className="px-2 py-1.5 text-sm text-gray-500">No matching time zones.</p>}
+          </div>
+        </ScrollArea>
+      </DialogContent>
+    </Dialog>
   )
 }
 
 // Main Home Component
 export default function Home() {
   const [tasks, setTasks] = useState<Task[]>([])
-  const [activeView, setActiveView] = useState<'today' | 'upcoming' | 'lists' | 'stats'>('today')
+  const [activeView, setActiveView] = useState<HomeView>('today')
   const [showAddModal, setShowAddModal] = useState(false)
+  const [addModalDate, setAddModalDate] = useState<Date | null>(null)
   const [showAIChat, setShowAIChat] = useState(false)
+  const [showAgentSettings, setShowAgentSettings] = useState(false)
+  const [showCategoryManager, setShowCategoryManager] = useState(false)
+  const { smartLists, saveSmartList, deleteSmartList, renameInQueries } = useSmartLists()
+  const [activeSmartListId, setActiveSmartListId] = useState<string | null>(null)
+  // Smart list open in the editor; 'new' for one being created
+  const [editingSmartList, setEditingSmartList] = useState<SmartList | 'new' | null>(null)
+  const [sortModes, setSortModes] = useState<SortModes>(loadSortModes)
+  // Task being dragged to a new manual position, and where it would land
+  const [reorderingTaskId, setReorderingTaskId] = useState<string | null>(null)
+  const [dropTarget, setDropTarget] = useState<{ id: string; after: boolean } | null>(null)
+  // Keeps keyboard focus on a drag handle after its task moves
+  const [reorderFocusId, setReorderFocusId] = useState<string | null>(null)
+  const [showPalette, setShowPalette] = useState(false)
+  const [showRollover, setShowRollover] = useState(false)
+  const [showTimeZone, setShowTimeZone] = useState(false)
+  const { timeZone, chosenTimeZone, systemTimeZone, setTimeZone } = useTimeZone()
+  const [chatRequest, setChatRequest] = useState<ChatRequest | null>(null)
+  // Tasks picked in selection mode or from the command palette, acted on by batch actions
+  const [selectedTaskIds, setSelectedTaskIds] = useState<Set<string>>(() => new Set())
+  const [selectionMode, setSelectionMode] = useState(false)
+  // Last task clicked in selection mode, where shift-click ranges start
+  const selectionAnchor = useRef<string | null>(null)
+  const { assignments, getAgentId, assignAgent, resetAgent } = useAgentAssignments()
   const [categoryFilter, setCategoryFilter] = useState<string | null>(null)
+  const [highlightedTaskId, setHighlightedTaskId] = useState<string | null>(null)
+  const [tasksLoaded, setTasksLoaded] = useState(false)
+  // Writes each task change to the repository as a diff, created once tasks are loaded
+  const taskSaver = useRef<TaskSaver | null>(null)
+  const {
+    canUndo,
+    canRedo,
+    record,
+    undo,
+    redo,
+    revert,
+    renameCategory: renameCategoryInHistory
+  } = useTaskHistory(setTasks)
+  const {
+    categories,
+    addCategory,
+    renameCategory,
+    setCategoryColor,
+    archiveCategory,
+    moveCategory,
+    addProject,
+    renameProject,
+    archiveProject,
+    syncWithTasks
+  } = useCategories(setTasks)
+  // Task list the last history command was computed against
+  const historySnapshot = useRef<Task[]>([])
+  // Label for the next task change, set by the handler making it; unlabelled changes
+  // (loading, undo/redo) are not recorded. A command ID lets the handler revert it later
+  const pendingHistory = useRef<{ label: string; commandId?: string } | null>(null)
+  const trackChange = (label: string, commandId?: string) => {
+    pendingHistory.current = { label, commandId }
+  }
 
-  // Load tasks from localStorage
+  // Load tasks from the repository
   useEffect(() => {
-    const savedTasks = localStorage.getItem('taskflow_tasks')
-    if (savedTasks) {
-      const parsed = JSON.parse(savedTasks)
-      setTasks(parsed.map((t: any) => ({
-        ...t,
-        dueDate: new Date(t.dueDate),
-        createdAt: new Date(t.createdAt)
-      })))
-    } else {
+    const repository = getTaskRepository()
+    let cancelled = false
+
+    Promise.all([repository.getAll(), repository.isFirstRun()]).then(([savedTasks, firstRun]) => {
+      if (cancelled) return
+
+      taskSaver.current = createTaskSaver(savedTasks, repository)
+      if (!firstRun) {
+        historySnapshot.current = savedTasks
+        setTasks(savedTasks)
+        setTasksLoaded(true)
+        return
+      }
+
       // Add sample tasks
       const sampleTasks: Task[] = [
         {
@@ -817,85 +3606,504 @@ export default function Home() {
           createdAt: new Date()
         }
       ]
+      historySnapshot.current = sampleTasks
       setTasks(sampleTasks)
+      setTasksLoaded(true)
+    }).catch(error => {
+      console.error('Failed to load tasks:', error)
+      taskSaver.current = createTaskSaver([], repository)
+      setTasksLoaded(true)
+    })
+
+    return () => {
+      cancelled = true
     }
   }, [])
 
-  // Save tasks to localStorage
+  // Save changes to the repository (including deleting the last task)
+  useEffect(() => {
+    if (!tasksLoaded || !taskSaver.current || tasks === taskSaver.current.pending) return
+    taskSaver.current.save(tasks).catch(error => console.error('Failed to save tasks:', error))
+  }, [tasks, tasksLoaded])
+
+  const handleHistoryStep = useCallback(function step(direction: HistoryDirection) {
+    const command = direction === 'undo' ? undo() : redo()
+    if (!command) return
+    toast(`${direction === 'undo' ? 'Undone' : 'Redone'}: ${command.label}`, {
+      id: HISTORY_TOAST_ID,
+      action: {
+        label: direction === 'undo' ? 'Redo' : 'Undo',
+        onClick: () => step(direction === 'undo' ? 'redo' : 'undo')
+      }
+    })
+  }, [undo, redo])
+
+  // Record each labelled change as one undoable command; changes batched into the same
+  // render (e.g. an applied suggestion) become a single command
+  useEffect(() => {
+    if (!tasksLoaded || tasks === historySnapshot.current) return
+    const before = historySnapshot.current
+    const pending = pendingHistory.current
+    historySnapshot.current = tasks
+    pendingHistory.current = null
+    if (!pending) return
+
+    const { label, commandId } = pending
+    const command = record(label, diffTasks(before, tasks), commandId)
+    if (command) {
+      toast(label, {
+        id: HISTORY_TOAST_ID,
+        action: { label: 'Undo', onClick: () => handleHistoryStep('undo') }
+      })
+    }
+  }, [tasks, tasksLoaded, record, handleHistoryStep])
+
+  // Categories typed in quick add or set by the assistant join the stored list
+  useEffect(() => {
+    if (tasksLoaded) syncWithTasks(tasks)
+  }, [tasks, tasksLoaded, syncWithTasks])
+
+  // Keep due instants in step with their wall-clock times (DST) and float all-day tasks
+  // into the active zone; not an undoable change
+  useEffect(() => {
+    if (tasksLoaded) setTasks(prev => alignDueDates(prev, timeZone))
+  }, [tasks, tasksLoaded, timeZone])
+
+  // Rolled-over tasks are an ordinary undoable change
+  const {
+    settings: rolloverSettings,
+    log: rolloverLog,
+    setEnabled: setRolloverEnabled,
+    rollOver,
+    clearLog: clearRolloverLog
+  } = useRollover(tasks, tasksLoaded, setTasks, entries => {
+    trackChange(`Moved ${entries.length} overdue task${entries.length === 1 ? '' : 's'} to today`)
+  })
+
+  // Renames aren't undoable themselves; they migrate tasks, including the versions kept in
+  // undo history, so undoing an older change can't bring back the old name
+  const handleRenameCategory = (id: string, name: string) => {
+    const previous = categories.find(c => c.id === id)
+    const result = renameCategory(id, name)
+    if (result.success && previous) {
+      if (categoryFilter === previous.name) setCategoryFilter(name.trim())
+      renameInQueries('category', previous.name, name.trim())
+      renameCategoryInHistory(previous.name, name.trim())
+    }
+    return result
+  }
+
+  // Smart lists match projects by name, so ones naming a project another category
+  // still uses keep that name too
+  const handleRenameProject = (categoryId: string, projectId: string, name: string) => {
+    const previous = categories.find(c => c.id === categoryId)?.projects.find(p => p.id === projectId)
+    const result = renameProject(categoryId, projectId, name)
+    if (result.success && previous) {
+      const stillUsed = result.categories.some(c =>
+        c.projects.some(p => p.id !== projectId && p.name.toLowerCase() === previous.name.toLowerCase())
+      )
+      renameInQueries('project', previous.name, name.trim(), stillUsed)
+    }
+    return result
+  }
+
+  // Ctrl+K toggles the command palette and Escape clears the selection; Ctrl+Z / Ctrl+Shift+Z (and Ctrl+Y) undo and redo,
+  // except in text fields, which keep their own undo
   useEffect(() => {
-    if (tasks.length > 0) {
-      localStorage.setItem('taskflow_tasks', JSON.stringify(tasks))
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (e.key === 'Escape') setSelectedTaskIds(prev => (prev.size > 0 ? new Set() : prev))
+      if (!(e.ctrlKey || e.metaKey) || e.altKey) return
+      const key = e.key.toLowerCase()
+      if (key === 'k') {
+        e.preventDefault()
+        setShowPalette(open => !open)
+        return
+      }
+      if (key !== 'z' && key !== 'y') return
+      if ((e.target as HTMLElement).closest?.('input, textarea, select, [contenteditable="true"]')) return
+      e.preventDefault()
+      handleHistoryStep(key === 'y' || e.shiftKey ? 'redo' : 'undo')
     }
-  }, [tasks])
+    window.addEventListener('keydown', handleKeyDown)
+    return () => window.removeEventListener('keydown', handleKeyDown)
+  }, [handleHistoryStep])
 
-  const handleAddTask = (newTask: Omit<Task, 'id' | 'completed' | 'createdAt'>) => {
-    const task: Task = {
+  const handleAddTask = (newTask: Omit<Task, 'id' | 'completed' | 'createdAt'>): Task => {
+    const task: Task = alignDueDate({
       ...newTask,
-      id: Date.now().toString(),
+      id: generateId(),
       completed: newTask.status === 'completed',
       createdAt: new Date()
-    }
-    setTasks(prev => [...prev, task])
+    }, timeZone)
+    // Ranked inside the update so tasks added together keep their order
+    setTasks(prev => [...prev, { ...task, rank: getAppendRank(prev) }])
+    trackChange(`Added "${task.title}"`)
+    return task
   }
 
-  const handleToggleTask = (id: string) => {
-    setTasks(prev => prev.map(t =>
-      t.id === id ? {
-        ...t,
-        completed: !t.completed,
-        status: !t.completed ? 'completed' : 'not-started'
-      } : t
+  // Apply an update to one task; completing a recurring task spawns its next occurrence
+  const updateTask = (id: string, update: (task: Task) => Task) => {
+    setTasks(prev => prev.flatMap(t =>
+      t.id === id ? advanceRecurringTask(t, update(t)) : [t]
     ))
   }
 
+  const handleToggleTask = (id: string) => {
+    trackChange(tasks.find(t => t.id === id)?.completed ? 'Reopened task' : 'Completed task')
+    updateTask(id, t => setTaskStatus(t, t.completed ? 'not-started' : 'completed'))
+  }
+
   const handleStatusChange = (id: string, status: Task['status']) => {
-    setTasks(prev => prev.map(t =>
-      t.id === id ? {
-        ...t,
-        status,
-        completed: status === 'completed'
-      } : t
-    ))
+    trackChange('Changed status')
+    updateTask(id, t => setTaskStatus(t, status))
+  }
+
+  // Move a task to another day; recurring tasks re-anchor their rule on the new date
+  const handleReschedule = (id: string, day: Date) => {
+    trackChange('Rescheduled task')
+    setTasks(prev => prev.map(t => {
+      if (t.id !== id) return t
+      return {
+        ...moveDueToDay(t, getLocalDayKey(day), timeZone),
+        recurrence: t.recurrence && anchorRecurrence(t.recurrence, day)
+      }
+    }))
+  }
+
+  const handleOpenAddModal = (date?: Date) => {
+    setAddModalDate(date || null)
+    setShowAddModal(true)
+  }
+
+  // Apply one action to every selected task as a single undoable change
+  const handleBatchAction = (action: BatchAction) => {
+    const ids = [...selectedTaskIds].filter(id => tasks.some(t => t.id === id))
+    if (ids.length === 0) return
+    setTasks(prev => applyBatchAction(prev, ids, action))
+    trackChange(describeBatchAction(action, ids.length))
+    if (action.type === 'delete') setSelectedTaskIds(new Set())
+  }
+
+  const handleCompleteSelected = () => {
+    const ids = [...selectedTaskIds].filter(id => tasks.some(t => t.id === id && !t.completed))
+    const action: BatchAction = { type: 'set_status', status: 'completed' }
+    if (ids.length > 0) {
+      setTasks(prev => applyBatchAction(prev, ids, action))
+      trackChange(describeBatchAction(action, ids.length))
+    }
+    setSelectedTaskIds(new Set())
+  }
+
+  const handleOpenSmartList = (id: string) => {
+    setActiveView('smart')
+    setActiveSmartListId(id)
+    setCategoryFilter(null)
+  }
+
+  const handleSaveSmartList = (name: string, query: string): SmartListResult => {
+    const existing = editingSmartList === 'new' ? null : editingSmartList
+    const result = saveSmartList(existing?.id || null, name, query)
+    if (result.success && !existing && result.list) handleOpenSmartList(result.list.id)
+    return result
+  }
+
+  const handleDeleteSmartList = (id: string) => {
+    deleteSmartList(id)
+    if (activeSmartListId === id) setActiveView('lists')
+  }
+
+  const handleOpenChat = (request: ChatRequest | null) => {
+    setChatRequest(request)
+    setShowAIChat(true)
   }
 
   const handleDeleteTask = (id: string) => {
-    setTasks(prev => prev.filter(t => t.id !== id))
+    setTasks(prev => pruneDependencies(prev.filter(t => t.id !== id), [id]))
+    trackChange('Deleted task')
+  }
+
+  const handlePriorityChange = (id: string, priority: Task['priority']) => {
+    setTasks(prev => prev.map(t => (t.id === id ? { ...t, priority } : t)))
+    trackChange('Changed priority')
   }
 
-  // Filter tasks based on view
-  const getFilteredTasks = () => {
-    const today = new Date()
-    today.setHours(0, 0, 0, 0)
+  // Apply an accepted agent proposal as one undoable change, which undoing the proposal reverts
+  const handleApplyAgentAction = (action: AgentTaskAction): AppliedAgentAction | string => {
+    const error = applyAgentAction(action)
+    if (error) return error
+    const commandId = generateId()
+    trackChange('Applied suggestion', commandId)
+    return { commandId }
+  }
 
-    const tomorrow = new Date(today)
-    tomorrow.setDate(tomorrow.getDate() + 1)
+  // Apply an agent proposal through the regular handlers; returns an error message when rejected
+  const applyAgentAction = (action: AgentTaskAction): string | undefined => {
+    const error = validateAgentAction(action, tasks)
+    if (error) return error
 
-    let filtered = tasks
+    const target = resolveActionTarget(action, tasks)
+    const dueDate = parseActionDate(action.due_date)
 
-    if (activeView === 'today') {
-      filtered = tasks.filter(t => {
-        const taskDate = new Date(t.dueDate)
-        taskDate.setHours(0, 0, 0, 0)
-        return taskDate.getTime() === today.getTime()
-      })
-    } else if (activeView === 'upcoming') {
-      filtered = tasks.filter(t => {
-        const taskDate = new Date(t.dueDate)
-        taskDate.setHours(0, 0, 0, 0)
-        return taskDate.getTime() > today.getTime()
-      })
+    switch (action.type) {
+      case 'reprioritize':
+        handlePriorityChange(target.id, action.priority)
+        return undefined
+
+      case 'move_due_date':
+        handleReschedule(target.id, dueDate)
+        return undefined
+
+      case 'create_task':
+        handleAddTask({
+          title: action.title,
+          priority: action.priority || 'medium',
+          category: action.category || getDefaultCategoryName(categories),
+          status: 'not-started',
+          dueDate: dueDate || new Date()
+        })
+        return undefined
+
+      case 'split_task':
+        action.subtasks.forEach(title => handleAddTask({
+          title,
+          priority: target.priority,
+          category: target.category,
+          status: 'not-started',
+          dueDate: target.dueDate,
+          dueTime: target.dueTime,
+          timeZone: target.timeZone,
+          dependsOn: target.dependsOn
+        }))
+        handleDeleteTask(target.id)
+        return undefined
+
+      default:
+        return 'Unsupported action'
+    }
+  }
+
+  // Only the tasks the suggestion changed are restored; the revert is itself undoable
+  const handleUndoAgentAction = (applied: AppliedAgentAction): boolean => {
+    if (!revert(applied.commandId)) return false
+    trackChange('Reverted suggestion')
+    return true
+  }
+
+  // Returns an error message when the link is rejected (e.g. it would form a cycle)
+  const handleAddDependency = (id: string, dependencyId: string): string | undefined => {
+    const result = addDependency(tasks, id, dependencyId)
+    if (!result.success) return result.error
+    setTasks(result.tasks)
+    trackChange('Added dependency')
+    return undefined
+  }
+
+  const handleRemoveDependency = (id: string, dependencyId: string) => {
+    setTasks(prev => removeDependency(prev, id, dependencyId))
+    trackChange('Removed dependency')
+  }
+
+  // Switch to the view that shows a task and briefly highlight it
+  const handleJumpToTask = (id: string) => {
+    const task = tasks.find(t => t.id === id)
+    if (!task) return
+
+    setActiveView(differenceInZonedDays(task.dueDate, new Date(), timeZone) > 0 ? 'upcoming' : 'today')
+    setCategoryFilter(null)
+    setHighlightedTaskId(id)
+  }
+
+  useEffect(() => {
+    if (!highlightedTaskId) return
+    const frame = requestAnimationFrame(() => {
+      document.getElementById(`task-${highlightedTaskId}`)?.scrollIntoView({ behavior: 'smooth', block: 'center' })
+    })
+    const timeout = setTimeout(() => setHighlightedTaskId(null), 2000)
+    return () => {
+      cancelAnimationFrame(frame)
+      clearTimeout(timeout)
     }
+  }, [highlightedTaskId])
+
+  const handleAddSubtask = (id: string, title: string, parentId?: string) => {
+    setTasks(prev => prev.map(t => t.id === id ? addSubtask(t, title, parentId) : t))
+    trackChange('Added subtask')
+  }
+
+  const handleToggleSubtask = (id: string, subtaskId: string) => {
+    updateTask(id, t => toggleSubtask(t, subtaskId))
+    trackChange('Updated subtask')
+  }
+
+  const handleDeleteSubtask = (id: string, subtaskId: string) => {
+    updateTask(id, t => removeSubtask(t, subtaskId))
+    trackChange('Deleted subtask')
+  }
+
+  // Repository query for the active view
+  const getTaskQuery = (): TaskQuery | null => {
+    if (activeView === 'board') return { category: categoryFilter || undefined }
+    if (activeView !== 'today' && activeView !== 'upcoming') return null
 
-    if (categoryFilter) {
-      filtered = filtered.filter(t => t.category === categoryFilter)
+    // Day boundaries in the user's zone, not the browser's local midnight
+    const { start: today, end: tomorrow } = getDayBounds(new Date(), timeZone)
+
+    return {
+      dueFrom: activeView === 'today' ? today : tomorrow,
+      dueBefore: activeView === 'today' ? tomorrow : undefined,
+      category: categoryFilter || undefined
     }
+  }
 
-    return filtered
+  const { tasks: queriedTasks } = useTaskQuery(getTaskQuery(), tasks)
+
+  // Incomplete tasks due before today, listed above Today's tasks
+  const { tasks: overdueQueried } = useTaskQuery(
+    activeView === 'today'
+      ? { dueBefore: getDayBounds(new Date(), timeZone).start, status: OPEN_STATUSES, category: categoryFilter || undefined }
+      : null,
+    tasks
+  )
+
+  // Smart lists are evaluated against the in-memory tasks so their relative dates stay current
+  const activeSmartList = activeView === 'smart' ? smartLists.find(l => l.id === activeSmartListId) : undefined
+  const filteredTasks = activeSmartList
+    ? filterTasksByQuery(tasks, parseFilterQuery(activeSmartList.query), { categories })
+    : queriedTasks
+
+  // Future occurrences of recurring tasks, computed rather than stored
+  const getOccurrences = (): TaskOccurrence[] => {
+    if (activeView !== 'today' && activeView !== 'upcoming') return []
+
+    // Days in the user's zone, matching the Today and Upcoming queries
+    const today = getDayKeyInZone(new Date(), timeZone)
+    const startKey = activeView === 'upcoming' ? addDaysToKey(today, 1) : today
+    const endKey = activeView === 'upcoming' ? addDaysToKey(today, UPCOMING_OCCURRENCE_DAYS) : today
+    const start = zonedTimeToDate(startKey, '00:00', timeZone)
+    const end = zonedTimeToDate(endKey, '00:00', timeZone)
+
+    const source = categoryFilter ? tasks.filter(t => t.category === categoryFilter) : tasks
+    return expandOccurrences(source, start, end)
+  }
+
+  // Each view (and each smart list) remembers its own sort mode
+  const sortKey = activeView === 'smart' ? `smart:${activeSmartListId}` : activeView
+  const sortMode: SortMode = sortModes[sortKey] || 'manual'
+  const sortedTasks = sortTasks(filteredTasks, sortMode)
+
+  const taskIndex = indexTasks(tasks)
+  const overdueTasks = activeView === 'today' ? sortTasks(overdueQueried, sortMode) : []
+  const overdueCount = getOverdueTasks(tasks).length
+  const incompleteTasks = sortedTasks.filter(t => !t.completed)
+  const completedTasks = sortedTasks.filter(t => t.completed)
+  const occurrences = getOccurrences()
+  const isListView = activeView === 'today' || activeView === 'upcoming' || activeView === 'smart'
+
+  // Selection follows the on-screen order, so shift-click ranges match what the user sees
+  const visibleTaskIds = [...overdueTasks, ...incompleteTasks, ...completedTasks].map(t => t.id)
+  const allVisibleSelected = visibleTaskIds.length > 0 && visibleTaskIds.every(id => selectedTaskIds.has(id))
+
+  const handleSelectTask = (id: string, extend: boolean) => {
+    setSelectedTaskIds(prev => (extend
+      ? selectRange(prev, visibleTaskIds, selectionAnchor.current, id)
+      : toggleSelection(prev, id)))
+    selectionAnchor.current = id
+  }
+
+  const handleSelectAllInView = () => {
+    setSelectedTaskIds(prev => new Set([...prev, ...visibleTaskIds]))
+  }
+
+  const handleExitSelection = () => {
+    setSelectionMode(false)
+    setSelectedTaskIds(new Set())
+    selectionAnchor.current = null
+  }
+
+  const handleSortModeChange = (mode: SortMode) => {
+    const next = { ...sortModes, [sortKey]: mode }
+    setSortModes(next)
+    saveSortModes(next)
+  }
+
+  // Manual order; group is the section (open or completed) the task moves within
+  const reorderable = sortMode === 'manual' && !selectionMode
+
+  const handleMoveTask = (id: string, group: Task[], toIndex: number) => {
+    setTasks(prev => moveTask(prev, group.map(t => t.id), id, toIndex))
+    trackChange('Reordered task')
+  }
+
+  const handleTaskDragOver = (e: React.DragEvent, id: string) => {
+    if (!reorderingTaskId) return
+    e.preventDefault()
+    e.dataTransfer.dropEffect = 'move'
+    const rect = e.currentTarget.getBoundingClientRect()
+    const after = e.clientY > rect.top + rect.height / 2
+    if (dropTarget?.id !== id || dropTarget.after !== after) setDropTarget({ id, after })
+  }
+
+  const handleTaskDrop = (e: React.DragEvent, group: Task[]) => {
+    e.preventDefault()
+    const id = reorderingTaskId
+    setReorderingTaskId(null)
+    setDropTarget(null)
+    if (!id || !dropTarget || dropTarget.id === id || !group.some(t => t.id === id)) return
+    const index = group.filter(t => t.id !== id).findIndex(t => t.id === dropTarget.id)
+    if (index !== -1) handleMoveTask(id, group, index + (dropTarget.after ? 1 : 0))
+  }
+
+  const handleMoveByKeyboard = (id: string, group: Task[], direction: -1 | 1) => {
+    const index = group.findIndex(t => t.id === id)
+    const toIndex = index + direction
+    if (index === -1 || toIndex < 0 || toIndex >= group.length) return
+    handleMoveTask(id, group, toIndex)
+    setReorderFocusId(id)
   }
 
-  const filteredTasks = getFilteredTasks()
-  const incompleteTasks = filteredTasks.filter(t => !t.completed)
-  const completedTasks = filteredTasks.filter(t => t.completed)
+  useEffect(() => {
+    if (!reorderFocusId) return
+    document.querySelector<HTMLElement>(`#task-${CSS.escape(reorderFocusId)} [data-reorder-handle]`)?.focus()
+    setReorderFocusId(null)
+  }, [reorderFocusId, tasks])
+
+  const renderTaskCard = (task: Task, group: Task[]) => (
+    <div
+      key={task.id}
+      className="relative"
+      onDragOver={reorderable ? (e) => handleTaskDragOver(e, task.id) : undefined}
+      onDrop={reorderable ? (e) => handleTaskDrop(e, group) : undefined}
+    >
+      {dropTarget?.id === task.id && (
+        <div className={cn("absolute left-0 right-0 h-0.5 rounded bg-[#6B4EE6]", dropTarget.after ? "-bottom-2" : "-top-2")} />
+      )}
+      <TaskCard
+        task={task}
+        taskIndex={taskIndex}
+        categories={categories}
+        highlighted={highlightedTaskId === task.id}
+        selected={selectedTaskIds.has(task.id)}
+        selectionMode={selectionMode}
+        onSelect={(extend) => handleSelectTask(task.id, extend)}
+        reorderable={reorderable}
+        onReorderStart={() => setReorderingTaskId(task.id)}
+        onReorderEnd={() => {
+          setReorderingTaskId(null)
+          setDropTarget(null)
+        }}
+        onMove={(direction) => handleMoveByKeyboard(task.id, group, direction)}
+        onToggle={() => handleToggleTask(task.id)}
+        onDelete={() => handleDeleteTask(task.id)}
+        onStatusChange={(status) => handleStatusChange(task.id, status)}
+        onAddSubtask={(title, parentId) => handleAddSubtask(task.id, title, parentId)}
+        onToggleSubtask={(subtaskId) => handleToggleSubtask(task.id, subtaskId)}
+        onDeleteSubtask={(subtaskId) => handleDeleteSubtask(task.id, subtaskId)}
+        onAddDependency={(dependencyId) => handleAddDependency(task.id, dependencyId)}
+        onRemoveDependency={(dependencyId) => handleRemoveDependency(task.id, dependencyId)}
+        onJumpToTask={handleJumpToTask}
+      />
+    </div>
+  )
 
   return (
     <div className="min-h-screen bg-gradient-to-br from-gray-50 to-gray-100 dark:from-gray-900 dark:to-gray-800">
@@ -906,22 +4114,74 @@ export default function Home() {
             <h1 className="text-2xl font-bold bg-gradient-to-r from-[#6B4EE6] to-[#9b87f5] bg-clip-text text-transparent">
               {activeView === 'today' && 'Today'}
               {activeView === 'upcoming' && 'Upcoming'}
+              {activeView === 'board' && 'Board'}
+              {activeView === 'calendar' && 'Calendar'}
               {activeView === 'lists' && 'Lists'}
+              {activeView === 'smart' && (activeSmartList?.name || 'Smart list')}
               {activeView === 'stats' && 'Statistics'}
             </h1>
-            <p className="text-sm text-gray-500">
-              {new Date().toLocaleDateString('en-US', { weekday: 'long', month: 'long', day: 'numeric' })}
+            <p className="flex items-center gap-2 text-sm text-gray-500">
+              {new Date().toLocaleDateString('en-US', { weekday: 'long', month: 'long', day: 'numeric', timeZone })}
+              <button
+                type="button"
+                onClick={() => setShowTimeZone(true)}
+                className="inline-flex items-center gap-1 text-xs hover:text-[#6B4EE6]"
+                aria-label={`Time zone: ${timeZone}. Change time zone`}
+              >
+                <Globe className="w-3 h-3" />
+                {timeZone.replace(/_/g, ' ')}
+              </button>
             </p>
           </div>
           <div className="flex items-center gap-3">
+            <Button
+              variant="outline"
+              onClick={() => setShowPalette(true)}
+              className="hidden sm:flex gap-2 text-gray-500 font-normal"
+            >
+              <Search className="w-4 h-4" />
+              Search
+              <kbd className="text-xs bg-gray-100 dark:bg-gray-700 rounded px-1.5 py-0.5">Ctrl K</kbd>
+            </Button>
+            <div className="flex items-center gap-1">
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => handleHistoryStep('undo')}
+                disabled={!canUndo}
+                aria-label="Undo"
+                title="Undo (Ctrl+Z)"
+              >
+                <Undo2 className="w-4 h-4" />
+              </Button>
+              <Button
+                variant="ghost"
+                size="icon"
+                onClick={() => handleHistoryStep('redo')}
+                disabled={!canRedo}
+                aria-label="Redo"
+                title="Redo (Ctrl+Shift+Z)"
+              >
+                <Redo2 className="w-4 h-4" />
+              </Button>
+            </div>
             <Button
               variant="outline"
               size="icon"
-              onClick={() => setShowAIChat(true)}
+              onClick={() => handleOpenChat(null)}
               className="rounded-full"
             >
               <Sparkles className="w-5 h-5 text-[#6B4EE6]" />
             </Button>
+            <Button
+              variant="outline"
+              size="icon"
+              onClick={() => setShowAgentSettings(true)}
+              className="rounded-full"
+              aria-label="Agent settings"
+            >
+              <Settings className="w-5 h-5 text-gray-500" />
+            </Button>
             <div className="w-10 h-10 rounded-full bg-gradient-to-br from-[#6B4EE6] to-[#9b87f5] flex items-center justify-center">
               <User className="w-5 h-5 text-white" />
             </div>
@@ -930,30 +4190,88 @@ export default function Home() {
       </header>
 
       {/* Main Content */}
-      <main className="max-w-4xl mx-auto px-6 py-6 pb-24">
-        {activeView === 'lists' ? (
-          <ListsView tasks={tasks} onFilterChange={setCategoryFilter} />
+      <main className={cn("max-w-4xl mx-auto px-6 py-6 pb-24", isListView && selectionMode && "pb-40")}>
+        {activeView === 'board' ? (
+          <BoardView
+            tasks={sortedTasks}
+            taskIndex={taskIndex}
+            categories={categories}
+            onStatusChange={handleStatusChange}
+          />
+        ) : activeView === 'calendar' ? (
+          <CalendarView tasks={tasks} onReschedule={handleReschedule} onAddOnDay={handleOpenAddModal} />
+        ) : activeView === 'lists' ? (
+          <ListsView
+            tasks={tasks}
+            categories={categories}
+            smartLists={smartLists}
+            onFilterChange={setCategoryFilter}
+            onManage={() => setShowCategoryManager(true)}
+            onOpenSmartList={handleOpenSmartList}
+            onEditSmartList={(list) => setEditingSmartList(list || 'new')}
+          />
         ) : activeView === 'stats' ? (
-          <StatsView tasks={tasks} />
+          <StatsView tasks={tasks} categories={categories} />
         ) : (
           <div className="space-y-4">
-            {categoryFilter && (
-              <div className="flex items-center gap-2">
-                <Badge className={getCategoryColor(categoryFilter)}>
-                  {categoryFilter}
-                </Badge>
-                <Button
-                  variant="ghost"
-                  size="sm"
-                  onClick={() => setCategoryFilter(null)}
-                  className="h-6 text-xs"
-                >
-                  Clear filter
-                </Button>
-              </div>
-            )}
+            <div className="flex items-center gap-2">
+              {activeSmartList && (
+                <>
+                  <code className="text-xs text-gray-500 truncate">{activeSmartList.query}</code>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setEditingSmartList(activeSmartList)}
+                    className="h-6 gap-1 text-xs"
+                  >
+                    <Pencil className="w-3 h-3" />
+                    Edit
+                  </Button>
+                </>
+              )}
+              {categoryFilter && (
+                <>
+                  <Badge className={getCategoryColor(categories, categoryFilter)}>
+                    {categoryFilter}
+                  </Badge>
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => setCategoryFilter(null)}
+                    className="h-6 text-xs"
+                  >
+                    Clear filter
+                  </Button>
+                </>
+              )}
+              {visibleTaskIds.length > 0 && (
+                <div className="ml-auto flex items-center gap-2">
+                  <Select value={sortMode} onValueChange={(value) => handleSortModeChange(value as SortMode)}>
+                    <SelectTrigger className="h-7 w-auto gap-1.5 text-xs border-none shadow-none" aria-label="Sort tasks">
+                      <ArrowUpDown className="w-3.5 h-3.5" />
+                      <SelectValue />
+                    </SelectTrigger>
+                    <SelectContent>
+                      {SORT_MODES.map(({ mode, label }) => (
+                        <SelectItem key={mode} value={mode}>{label}</SelectItem>
+                      ))}
+                    </SelectContent>
+                  </Select>
+                  <Button
+                    variant={selectionMode ? 'secondary' : 'ghost'}
+                    size="sm"
+                    onClick={() => (selectionMode ? handleExitSelection() : setSelectionMode(true))}
+                    className="h-7 gap-1 text-xs"
+                    aria-pressed={selectionMode}
+                  >
+                    <CheckSquare className="w-3.5 h-3.5" />
+                    {selectionMode ? 'Cancel selection' : 'Select'}
+                  </Button>
+                </div>
+              )}
+            </div>
 
-            {incompleteTasks.length === 0 && completedTasks.length === 0 ? (
+            {overdueTasks.length === 0 && incompleteTasks.length === 0 && completedTasks.length === 0 && occurrences.length === 0 ? (
               <Card className="bg-white dark:bg-gray-800 border-gray-200 dark:border-gray-700">
                 <CardContent className="p-12 text-center">
                   <div className="w-16 h-16 rounded-full bg-gradient-to-br from-[#6B4EE6] to-[#9b87f5] flex items-center justify-center mx-auto mb-4">
@@ -963,21 +4281,65 @@ export default function Home() {
                     All caught up!
                   </h3>
                   <p className="text-gray-500">
-                    No tasks for {activeView === 'today' ? 'today' : 'the future'}. Add a new task to get started.
+                    {activeView === 'smart'
+                      ? 'No tasks match this smart list.'
+                      : `No tasks for ${activeView === 'today' ? 'today' : 'the future'}. Add a new task to get started.`}
                   </p>
                 </CardContent>
               </Card>
             ) : (
               <>
-                {incompleteTasks.map(task => (
-                  <TaskCard
-                    key={task.id}
-                    task={task}
-                    onToggle={() => handleToggleTask(task.id)}
-                    onDelete={() => handleDeleteTask(task.id)}
-                    onStatusChange={(status) => handleStatusChange(task.id, status)}
-                  />
-                ))}
+                {overdueTasks.length > 0 && (
+                  <>
+                    <div className="flex items-center gap-2 mb-3">
+                      <h3 className="text-sm font-semibold text-red-600">
+                        Overdue ({overdueTasks.length})
+                      </h3>
+                      <Button
+                        variant="ghost"
+                        size="sm"
+                        onClick={() => rollOver(overdueTasks.map(t => t.id))}
+                        disabled={overdueTasks.every(t => t.recurrence)}
+                        className="ml-auto h-6 gap-1 text-xs"
+                      >
+                        <CalendarClock className="w-3 h-3" />
+                        Move to today
+                      </Button>
+                      <Button
+                        variant="ghost"
+                        size="icon"
+                        onClick={() => setShowRollover(true)}
+                        className="h-6 w-6"
+                        aria-label="Rollover settings and log"
+                      >
+                        <History className="w-3 h-3" />
+                      </Button>
+                    </div>
+                    {overdueTasks.map(task => renderTaskCard(task, overdueTasks))}
+                    {incompleteTasks.length > 0 && (
+                      <h3 className="text-sm font-semibold text-gray-500 mb-3 mt-4">
+                        Today ({incompleteTasks.length})
+                      </h3>
+                    )}
+                  </>
+                )}
+
+                {incompleteTasks.map(task => renderTaskCard(task, incompleteTasks))}
+
+                {occurrences.length > 0 && (
+                  <>
+                    <h3 className="text-sm font-semibold text-gray-500 mb-3 mt-4">
+                      Repeating ({occurrences.length})
+                    </h3>
+                    {occurrences.map(occurrence => (
+                      <OccurrenceCard
+                        key={`${occurrence.task.id}-${occurrence.date.getTime()}`}
+                        occurrence={occurrence}
+                        categories={categories}
+                      />
+                    ))}
+                  </>
+                )}
 
                 {completedTasks.length > 0 && (
                   <>
@@ -985,15 +4347,7 @@ export default function Home() {
                     <h3 className="text-sm font-semibold text-gray-500 mb-3">
                       Completed ({completedTasks.length})
                     </h3>
-                    {completedTasks.map(task => (
-                      <TaskCard
-                        key={task.id}
-                        task={task}
-                        onToggle={() => handleToggleTask(task.id)}
-                        onDelete={() => handleDeleteTask(task.id)}
-                        onStatusChange={(status) => handleStatusChange(task.id, status)}
-                      />
-                    ))}
+                    {completedTasks.map(task => renderTaskCard(task, completedTasks))}
                   </>
                 )}
               </>
@@ -1002,12 +4356,26 @@ export default function Home() {
         )}
       </main>
 
+      {/* Batch actions for the selection */}
+      {isListView && selectionMode && (
+        <BatchActionBar
+          selectedCount={selectedTaskIds.size}
+          visibleCount={visibleTaskIds.length}
+          allVisibleSelected={allVisibleSelected}
+          categories={categories}
+          onSelectAll={handleSelectAllInView}
+          onClear={() => setSelectedTaskIds(new Set())}
+          onAction={handleBatchAction}
+          onDone={handleExitSelection}
+        />
+      )}
+
       {/* FAB - Add Task Button */}
-      {(activeView === 'today' || activeView === 'upcoming') && (
+      {isListView && !selectionMode && (
         <Button
           size="icon"
           className="fixed bottom-20 right-6 h-14 w-14 rounded-full bg-gradient-to-br from-[#6B4EE6] to-[#9b87f5] shadow-lg hover:shadow-xl transition-shadow"
-          onClick={() => setShowAddModal(true)}
+          onClick={() => handleOpenAddModal()}
         >
           <Plus className="w-6 h-6" />
         </Button>
@@ -1029,7 +4397,15 @@ export default function Home() {
                 setCategoryFilter(null)
               }}
             >
-              <CalendarIcon className="w-5 h-5" />
+              <span className="relative">
+                <CalendarIcon className="w-5 h-5" />
+                {overdueCount > 0 && (
+                  <span className="absolute -top-1.5 -right-2.5 min-w-[1rem] h-4 px-1 rounded-full bg-red-500 text-[10px] leading-4 text-center text-white">
+                    {overdueCount}
+                    <span className="sr-only"> overdue</span>
+                  </span>
+                )}
+              </span>
               <span className="text-xs">Today</span>
             </Button>
 
@@ -1054,7 +4430,39 @@ export default function Home() {
               size="sm"
               className={cn(
                 "flex flex-col items-center gap-1 h-auto py-2",
-                activeView === 'lists' && "text-[#6B4EE6]"
+                activeView === 'board' && "text-[#6B4EE6]"
+              )}
+              onClick={() => {
+                setActiveView('board')
+                setCategoryFilter(null)
+              }}
+            >
+              <SquareKanban className="w-5 h-5" />
+              <span className="text-xs">Board</span>
+            </Button>
+
+            <Button
+              variant="ghost"
+              size="sm"
+              className={cn(
+                "flex flex-col items-center gap-1 h-auto py-2",
+                activeView === 'calendar' && "text-[#6B4EE6]"
+              )}
+              onClick={() => {
+                setActiveView('calendar')
+                setCategoryFilter(null)
+              }}
+            >
+              <CalendarDays className="w-5 h-5" />
+              <span className="text-xs">Calendar</span>
+            </Button>
+
+            <Button
+              variant="ghost"
+              size="sm"
+              className={cn(
+                "flex flex-col items-center gap-1 h-auto py-2",
+                (activeView === 'lists' || activeView === 'smart') && "text-[#6B4EE6]"
               )}
               onClick={() => {
                 setActiveView('lists')
@@ -1087,13 +4495,103 @@ export default function Home() {
       {/* Modals */}
       <QuickAddModal
         open={showAddModal}
+        initialDueDate={addModalDate}
+        agentId={getAgentId('task_assistant')}
+        categories={categories}
         onClose={() => setShowAddModal(false)}
         onAdd={handleAddTask}
       />
 
       <AIChat
         open={showAIChat}
-        onClose={() => setShowAIChat(false)}
+        agentId={getAgentId('task_assistant')}
+        request={chatRequest}
+        onClose={() => {
+          setShowAIChat(false)
+          setChatRequest(null)
+        }}
+        tasks={tasks}
+        onApplyAction={handleApplyAgentAction}
+        onUndoAction={handleUndoAgentAction}
+      />
+
+      <CommandPalette
+        open={showPalette}
+        onOpenChange={setShowPalette}
+        tasks={tasks}
+        smartLists={smartLists}
+        selectedCount={selectedTaskIds.size}
+        onNewTask={() => handleOpenAddModal()}
+        onNavigate={(view) => {
+          setActiveView(view)
+          setCategoryFilter(null)
+        }}
+        onOpenSmartList={handleOpenSmartList}
+        onOpenTask={(id) => {
+          handleJumpToTask(id)
+          setSelectedTaskIds(new Set([id]))
+        }}
+        onOpenCategory={(category) => {
+          setActiveView('board')
+          setCategoryFilter(category)
+        }}
+        onOpenChat={(threadId) => handleOpenChat({ threadId })}
+        onCompleteSelected={handleCompleteSelected}
+        onAskAssistant={(draft) => handleOpenChat({ draft })}
+        onOpenSettings={() => setShowAgentSettings(true)}
+        onManageCategories={() => setShowCategoryManager(true)}
+        onOpenRollover={() => setShowRollover(true)}
+        onOpenTimeZone={() => setShowTimeZone(true)}
+      />
+
+      <AgentSettingsDialog
+        open={showAgentSettings}
+        assignments={assignments}
+        onClose={() => setShowAgentSettings(false)}
+        onAssign={assignAgent}
+        onReset={resetAgent}
+      />
+
+      <CategoryManagerDialog
+        open={showCategoryManager}
+        categories={categories}
+        onClose={() => setShowCategoryManager(false)}
+        onAdd={addCategory}
+        onRename={handleRenameCategory}
+        onColorChange={setCategoryColor}
+        onArchive={archiveCategory}
+        onMove={moveCategory}
+        onAddProject={addProject}
+        onRenameProject={handleRenameProject}
+        onArchiveProject={archiveProject}
+      />
+
+      <RolloverDialog
+        open={showRollover}
+        enabled={rolloverSettings.enabled}
+        log={rolloverLog}
+        onClose={() => setShowRollover(false)}
+        onEnabledChange={setRolloverEnabled}
+        onClearLog={clearRolloverLog}
+        onOpenTask={handleJumpToTask}
+      />
+
+      <TimeZoneDialog
+        open={showTimeZone}
+        chosenTimeZone={chosenTimeZone}
+        systemTimeZone={systemTimeZone}
+        onClose={() => setShowTimeZone(false)}
+        onChange={setTimeZone}
+      />
+
+      <SmartListEditor
+        open={editingSmartList !== null}
+        list={editingSmartList === 'new' ? null : editingSmartList}
+        tasks={tasks}
+        categories={categories}
+        onClose={() => setEditingSmartList(null)}
+        onSave={handleSaveSmartList}
+        onDelete={handleDeleteSmartList}
       />
     </div>
   )
@@ -0,0 +1,70 @@
+/**
+ * Agent response types generated from the schemas listed in workflow.json.
+ *
+ * DO NOT EDIT - run `npm run types:generate` after changing a schema.
+ * `npm run types:check` fails when this file is out of date.
+ */
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value)
+
+const isArrayOf = (value: unknown, guard: (item: unknown) => boolean): boolean =>
+  Array.isArray(value) && value.every(guard)
+
+// =============================================================================
+// Task Assistant Agent (response_schemas/task_assistant_agent_response.json)
+// =============================================================================
+
+export const TASK_ASSISTANT_AGENT_ID = '697176e5d6d0dcaec1119067'
+
+export interface TaskAssistantAgentResult {
+  answer: string
+  tips: string[]
+  priority_suggestions: string[]
+  related_topics: string[]
+  actions: Array<{
+    type: string
+    task_id: string
+    title: string
+    priority: string
+    due_date: string
+    category: string
+    subtasks: string[]
+    reason: string
+  }>
+}
+
+export interface TaskAssistantAgentResponse {
+  status: string
+  result: TaskAssistantAgentResult
+  metadata: {
+    agent_name: string
+    timestamp: string
+  }
+}
+
+export function isTaskAssistantAgentResult(value: unknown): value is TaskAssistantAgentResult {
+  return (isRecord(value) &&
+    typeof value.answer === 'string' &&
+    isArrayOf(value.tips, (item0) => typeof item0 === 'string') &&
+    isArrayOf(value.priority_suggestions, (item0) => typeof item0 === 'string') &&
+    isArrayOf(value.related_topics, (item0) => typeof item0 === 'string') &&
+    isArrayOf(value.actions, (item0) => (isRecord(item0) &&
+        typeof item0.type === 'string' &&
+        typeof item0.task_id === 'string' &&
+        typeof item0.title === 'string' &&
+        typeof item0.priority === 'string' &&
+        typeof item0.due_date === 'string' &&
+        typeof item0.category === 'string' &&
+        isArrayOf(item0.subtasks, (item1) => typeof item1 === 'string') &&
+        typeof item0.reason === 'string')))
+}
+
+export function isTaskAssistantAgentResponse(value: unknown): value is TaskAssistantAgentResponse {
+  return (isRecord(value) &&
+    typeof value.status === 'string' &&
+    isTaskAssistantAgentResult(value.result) &&
+    (isRecord(value.metadata) &&
+      typeof value.metadata.agent_name === 'string' &&
+      typeof value.metadata.timestamp === 'string'))
+}
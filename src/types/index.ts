@@ -19,6 +19,78 @@ export interface AppConfig {
   theme: Theme
 }
 
+// =============================================================================
+// Task Types for TaskFlow
+// =============================================================================
+
+export type TaskPriority = 'low' | 'medium' | 'high'
+
+export type TaskStatus = 'not-started' | 'in-progress' | 'blocked' | 'completed'
+
+/**
+ * A checklist step inside a task. Subtasks only track their own completion;
+ * the parent task's status is rolled up from them.
+ */
+export interface Subtask {
+  id: string
+  title: string
+  completed: boolean
+  /** Nested steps; the subtask is complete once all of them are */
+  subtasks?: Subtask[]
+}
+
+export type RecurrenceFrequency = 'daily' | 'weekly' | 'monthly' | 'yearly'
+
+/**
+ * RRULE-style recurrence, anchored on the task's dueDate.
+ * Field names follow RFC 5545 (FREQ, INTERVAL, BYDAY, BYMONTHDAY, BYSETPOS).
+ */
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency
+  /** Repeat every N units of freq (>= 1) */
+  interval: number
+  /** Weekdays, 0 = Sunday. Weekly: days in each active week. Monthly: with bySetPos. */
+  byWeekday?: number[]
+  /** Monthly and yearly: day of month, clamped to the month's last day */
+  byMonthDay?: number
+  /** Yearly: month, 1 = January */
+  byMonth?: number
+  /** Monthly: nth weekday of the month (1-4, or -1 for last) */
+  bySetPos?: number
+}
+
+export interface Task {
+  id: string
+  title: string
+  completed: boolean
+  priority: TaskPriority
+  /** Name of a category in the user's category list */
+  category: string
+  /** ID of a project nested under the category */
+  projectId?: string
+  status: TaskStatus
+  dueDate: Date
+  /** Wall-clock due time "HH:mm" in timeZone; absent for all-day tasks */
+  dueTime?: string
+  /** IANA zone the due day and time were set in (see lib/due-time) */
+  timeZone?: string
+  /** Estimated minutes the task takes */
+  durationMinutes?: number
+  createdAt: Date
+  subtasks?: Subtask[]
+  recurrence?: RecurrenceRule
+  /** IDs of tasks that must be completed before this one can start */
+  dependsOn?: string[]
+  /** Fractional position in the manual order (see lib/task-order) */
+  rank?: string
+}
+
+// =============================================================================
+// Agent Response Types (generated from response_schemas)
+// =============================================================================
+
+export * from './agents.generated'
+
 // =============================================================================
 // SSE Event Types for Lyra Chat
 // =============================================================================
@@ -168,6 +240,25 @@ export interface WorkflowUpdateEvent extends SSEEventBase {
     } | null
     last_updated: string | null
   }
+  /** Node whose status changed, when emitted by the workflow engine */
+  node_id?: string
+  node_status?: WorkflowNodeStatus
+  node_error?: string
+}
+
+export type WorkflowNodeStatus = 'pending' | 'running' | 'completed' | 'failed' | 'skipped'
+
+/**
+ * Workflow completed event - emitted once after every node has settled
+ */
+export interface WorkflowCompletedEvent extends SSEEventBase {
+  type: 'workflow_completed'
+  workflow_name: string
+  success: boolean
+  aborted?: boolean
+  /** Result of each output node, keyed by node ID */
+  outputs: Record<string, any>
+  error?: string
 }
 
 /**
@@ -191,6 +282,7 @@ export type SSEEvent =
   | ValidationErrorEvent
   | AgentCreatedEvent
   | WorkflowUpdateEvent
+  | WorkflowCompletedEvent
   | SubagentSwitchEvent
   | (SSEEventBase & { type: SSEEventType })
 
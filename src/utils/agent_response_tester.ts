@@ -24,11 +24,7 @@
  * ```
  */
 
-// =============================================================================
-// Configuration
-// =============================================================================
-
-const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:8889'
+import { API_BASE_URL } from '@/lib/api-config'
 
 // =============================================================================
 // Types
@@ -0,0 +1,127 @@
+import type { AddressInfo } from 'node:net'
+import { afterAll, afterEach, beforeAll, describe, expect, it, vi } from 'vitest'
+import { createMockLyzrServer } from '../../scripts/mock-lyzr-server.mjs'
+
+type AgentClient = typeof import('@/utils/aiAgent')
+
+const TASK_ASSISTANT_AGENT_ID = '697176e5d6d0dcaec1119067'
+
+const faults: object[] = []
+const server = createMockLyzrServer({ faults })
+const fastRetry = { baseDelay: 1, maxDelay: 5 }
+let agent: AgentClient
+
+beforeAll(async () => {
+  await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve))
+  const { port } = server.address() as AddressInfo
+  // Endpoints are read at import time, so point them at the mock first
+  vi.stubEnv('VITE_LYZR_AGENT_BASE_URL', `http://127.0.0.1:${port}`)
+  vi.resetModules()
+  agent = await import('@/utils/aiAgent')
+})
+
+afterEach(() => {
+  faults.length = 0
+})
+
+afterAll(async () => {
+  vi.unstubAllEnvs()
+  server.closeAllConnections()
+  await new Promise(resolve => server.close(resolve))
+})
+
+describe('callAIAgent', () => {
+  it('returns the normalized agent result', async () => {
+    const result = await agent.callAIAgent('I have too much to do', TASK_ASSISTANT_AGENT_ID, { retry: false })
+    expect(result.success).toBe(true)
+    expect(result.response.status).toBe('success')
+    expect(result.response.result.answer).toEqual(expect.any(String))
+    expect(result.response.result.tips).toHaveLength(2)
+  })
+
+  it('reports unknown agents as a failed call', async () => {
+    const result = await agent.callAIAgent('Hello', 'no-such-agent', { retry: false })
+    expect(result.success).toBe(false)
+    expect(result.error).toBeTruthy()
+  })
+
+  it('stops when its signal is aborted', async () => {
+    const controller = new AbortController()
+    controller.abort()
+    const result = await agent.callAIAgent('Hello', TASK_ASSISTANT_AGENT_ID, { signal: controller.signal })
+    expect(result.success).toBe(false)
+    expect(result.aborted).toBe(true)
+  })
+
+  it('cancels a request that is already in flight', async () => {
+    faults.push({ delayMs: 5_000 })
+    const controller = new AbortController()
+    setTimeout(() => controller.abort(), 50)
+    const started = Date.now()
+    const result = await agent.callAIAgent('Hello', TASK_ASSISTANT_AGENT_ID, { signal: controller.signal })
+    expect(result).toMatchObject({ success: false, aborted: true, error: 'Request cancelled' })
+    expect(Date.now() - started).toBeLessThan(1_000)
+  })
+
+  it('retries 429 and 5xx responses', async () => {
+    faults.push({ status: 503 }, { status: 429 })
+    const result = await agent.callAIAgent('Hello', TASK_ASSISTANT_AGENT_ID, { retry: fastRetry })
+    expect(result.success).toBe(true)
+    expect(faults).toHaveLength(0)
+  })
+
+  it('gives up once the retries are used', async () => {
+    faults.push({ status: 500 }, { status: 500 }, { status: 500 }, { status: 500 })
+    const result = await agent.callAIAgent('Hello', TASK_ASSISTANT_AGENT_ID, { retry: { ...fastRetry, retries: 2 } })
+    expect(result).toMatchObject({ success: false, error: 'API returned status 500' })
+    expect(faults).toHaveLength(1)
+  })
+
+  it('waits as long as Retry-After asks', async () => {
+    faults.push({ status: 429, retryAfter: 1 })
+    const started = Date.now()
+    const result = await agent.callAIAgent('Hello', TASK_ASSISTANT_AGENT_ID, { retry: fastRetry })
+    expect(result.success).toBe(true)
+    expect(Date.now() - started).toBeGreaterThanOrEqual(950)
+  })
+
+  it('does not retry when Retry-After is too far away', async () => {
+    faults.push({ status: 503, retryAfter: 3_600 })
+    const result = await agent.callAIAgent('Hello', TASK_ASSISTANT_AGENT_ID, { retry: fastRetry })
+    expect(result.success).toBe(false)
+    expect(faults).toHaveLength(0)
+  })
+})
+
+describe('streamAIAgent', () => {
+  it('reports text as it arrives and resolves with the full result', async () => {
+    const onText = vi.fn()
+    const result = await agent.streamAIAgent('I have too much to do', TASK_ASSISTANT_AGENT_ID, { onText, retry: false })
+    expect(result.success).toBe(true)
+    expect(result.response.result.tips).toHaveLength(2)
+    expect(onText.mock.calls.length).toBeGreaterThan(1)
+    expect(onText.mock.lastCall?.[0]).toContain('"tips"')
+  })
+
+  it('gives up on a stream that stalls', async () => {
+    faults.push({ stallAfter: 0 })
+    const result = await agent.streamAIAgent('Hello', TASK_ASSISTANT_AGENT_ID, { timeout: 200, retry: false })
+    expect(result).toMatchObject({ success: false, error: 'Request timed out after 0.2s' })
+  })
+
+  it('cancels a stream that is in progress', async () => {
+    faults.push({ stallAfter: 2 })
+    const controller = new AbortController()
+    const onText = vi.fn(() => controller.abort())
+    const result = await agent.streamAIAgent('Hello', TASK_ASSISTANT_AGENT_ID, { onText, signal: controller.signal })
+    expect(result).toMatchObject({ success: false, aborted: true })
+    expect(onText).toHaveBeenCalledTimes(1)
+  })
+
+  it('does not fall back to a second round of retries', async () => {
+    faults.push({ status: 503 }, { status: 503 }, { status: 503 })
+    const result = await agent.streamAIAgent('Hello', TASK_ASSISTANT_AGENT_ID, { retry: { ...fastRetry, retries: 2 } })
+    expect(result).toMatchObject({ success: false, error: 'API returned status 503' })
+    expect(faults).toHaveLength(0)
+  })
+})
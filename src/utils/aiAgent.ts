@@ -32,15 +32,21 @@
  */
 
 import parseLLMJson from '@/utils/jsonParser'
+import { handleSSEEvent, parseSSEStream } from '@/lib/event-parser'
+import { LYZR_CHAT_URL, LYZR_STREAM_URL, LYZR_UPLOAD_URL } from '@/lib/api-config'
 import React from 'react'
 
 // =============================================================================
 // Configuration
 // =============================================================================
 
-const LYZR_API_URL = 'https://agent-prod.studio.lyzr.ai/v3/inference/chat/'
 const LYZR_API_KEY = import.meta.env.VITE_LYZR_API_KEY || ''
 
+export const DEFAULT_TIMEOUT_MS = 90_000
+export const DEFAULT_RETRY_POLICY: RetryPolicy = { retries: 2, baseDelay: 500, maxDelay: 8_000 }
+/** Longest Retry-After the client will wait for before giving up */
+const MAX_RETRY_AFTER_MS = 60_000
+
 // =============================================================================
 // Types - UI can rely on these!
 // =============================================================================
@@ -86,6 +92,37 @@ export interface AIAgentResponse {
   error?: string
   /** Additional error details */
   details?: string
+  /** True when the call was cancelled through its AbortSignal */
+  aborted?: boolean
+}
+
+/**
+ * When and how often a failed request is retried. Only network errors,
+ * timeouts, 429 and 5xx responses are retried.
+ */
+export interface RetryPolicy {
+  /** Retries after the first attempt (0 disables retrying) */
+  retries: number
+  /** Backoff before the first retry, doubled for each further retry (ms) */
+  baseDelay: number
+  /** Upper bound for a single backoff (ms) */
+  maxDelay: number
+}
+
+/**
+ * Options accepted by callAIAgent and streamAIAgent
+ */
+export interface CallAIAgentOptions {
+  user_id?: string
+  session_id?: string
+  /** Asset IDs from uploadFiles */
+  assets?: string[]
+  /** Cancels the call, including any pending retry */
+  signal?: AbortSignal
+  /** Per-attempt timeout in ms, and for streams the longest wait between chunks (0 disables it) */
+  timeout?: number
+  /** Retry policy, or false to make a single attempt */
+  retry?: Partial<RetryPolicy> | false
 }
 
 // =============================================================================
@@ -186,6 +223,196 @@ function normalizeResponse(parsed: any): NormalizedAgentResponse {
   }
 }
 
+class RequestTimeoutError extends Error {
+  constructor(ms: number) {
+    super(`Request timed out after ${ms / 1000}s`)
+    this.name = 'RequestTimeoutError'
+  }
+}
+
+const isRetryableStatus = (status: number): boolean => status === 429 || status >= 500
+
+/**
+ * Delay requested by a Retry-After header (seconds or HTTP date), in ms
+ */
+function parseRetryAfter(header: string | null): number | null {
+  if (!header) return null
+  const seconds = Number(header)
+  if (!isNaN(seconds)) return Math.max(0, seconds * 1000)
+  const date = Date.parse(header)
+  return isNaN(date) ? null : Math.max(0, date - Date.now())
+}
+
+/**
+ * Exponential backoff with full jitter
+ */
+function getBackoffDelay(attempt: number, policy: RetryPolicy): number {
+  const ceiling = Math.min(policy.maxDelay, policy.baseDelay * 2 ** attempt)
+  return Math.random() * ceiling
+}
+
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(new DOMException('Aborted', 'AbortError'))
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort)
+      resolve()
+    }, ms)
+    const onAbort = () => {
+      clearTimeout(timer)
+      reject(new DOMException('Aborted', 'AbortError'))
+    }
+    signal?.addEventListener('abort', onAbort, { once: true })
+  })
+}
+
+/**
+ * fetch() with a per-attempt timeout and retries. `read` consumes the response
+ * inside the timeout window; the returned response keeps the caller's signal,
+ * so aborting still cancels a body that is read later (e.g. a stream). Failed
+ * attempts detach from the signal and release their connection.
+ */
+async function fetchWithRetry<T>(
+  url: string,
+  init: RequestInit,
+  options: CallAIAgentOptions | undefined,
+  read: (response: Response) => Promise<T>
+): Promise<{ response: Response; body: T }> {
+  const signal = options?.signal
+  const timeout = options?.timeout ?? DEFAULT_TIMEOUT_MS
+  const policy: RetryPolicy = options?.retry === false
+    ? { ...DEFAULT_RETRY_POLICY, retries: 0 }
+    : { ...DEFAULT_RETRY_POLICY, ...options?.retry }
+
+  for (let attempt = 0; ; attempt++) {
+    const controller = new AbortController()
+    const forwardAbort = () => controller.abort()
+    signal?.addEventListener('abort', forwardAbort, { once: true })
+    let timedOut = false
+    const timer = timeout > 0
+      ? setTimeout(() => {
+          timedOut = true
+          controller.abort()
+        }, timeout)
+      : undefined
+
+    let retryDelay: number
+    let returned = false
+    try {
+      if (signal?.aborted) throw new DOMException('Aborted', 'AbortError')
+      const response = await fetch(url, { ...init, signal: controller.signal })
+
+      if (!isRetryableStatus(response.status) || attempt >= policy.retries) {
+        const body = await read(response)
+        returned = true
+        return { response, body }
+      }
+
+      const retryAfter = parseRetryAfter(response.headers.get('Retry-After'))
+      if (retryAfter !== null && retryAfter > MAX_RETRY_AFTER_MS) {
+        const body = await read(response)
+        returned = true
+        return { response, body }
+      }
+      retryDelay = retryAfter ?? getBackoffDelay(attempt, policy)
+      // Drop the unread error body so the connection is freed before the next attempt
+      await response.body?.cancel().catch(() => undefined)
+    } catch (error) {
+      if (signal?.aborted) throw error
+      const failure = timedOut ? new RequestTimeoutError(timeout) : error
+      if (attempt >= policy.retries) throw failure
+      retryDelay = getBackoffDelay(attempt, policy)
+    } finally {
+      clearTimeout(timer)
+      if (!returned) signal?.removeEventListener('abort', forwardAbort)
+    }
+
+    await sleep(retryDelay, signal)
+  }
+}
+
+/**
+ * Error result for a request that threw (network failure, timeout or abort)
+ */
+function buildFailureResponse(error: unknown, signal?: AbortSignal): AIAgentResponse {
+  const aborted = Boolean(signal?.aborted)
+  const errorMsg = aborted
+    ? 'Request cancelled'
+    : error instanceof Error ? error.message : 'Network error'
+  return {
+    success: false,
+    response: {
+      status: 'error',
+      result: {},
+      message: errorMsg
+    },
+    error: errorMsg,
+    details: error instanceof Error ? error.stack : String(error),
+    aborted,
+  }
+}
+
+/**
+ * Turn a raw chat API response body into the guaranteed response structure
+ */
+function buildAgentResponse(
+  response: Response,
+  rawText: string,
+  ids: { agent_id: string; user_id: string; session_id: string }
+): AIAgentResponse {
+  const { agent_id, user_id, session_id } = ids
+
+  if (response.ok) {
+    // Parse with bulletproof JSON parser
+    const parsed = parseLLMJson(rawText)
+
+    // Check for parser error
+    if (parsed?.success === false && parsed?.error) {
+      return {
+        success: false,
+        response: {
+          status: 'error',
+          result: {},
+          message: parsed.error
+        },
+        error: parsed.error,
+        raw_response: rawText,
+      }
+    }
+
+    // Normalize to guaranteed structure
+    const normalized = normalizeResponse(parsed)
+
+    return {
+      success: true,
+      response: normalized,
+      agent_id,
+      user_id,
+      session_id,
+      timestamp: new Date().toISOString(),
+      raw_response: rawText,
+    }
+  } else {
+    // API error
+    let errorMsg = `API returned status ${response.status}`
+    try {
+      const errorData = parseLLMJson(rawText) || JSON.parse(rawText)
+      errorMsg = errorData?.error || errorData?.message || errorMsg
+    } catch {}
+
+    return {
+      success: false,
+      response: {
+        status: 'error',
+        result: {},
+        message: errorMsg
+      },
+      error: errorMsg,
+      raw_response: rawText,
+    }
+  }
+}
+
 // =============================================================================
 // Main API Function
 // =============================================================================
@@ -195,8 +422,11 @@ function normalizeResponse(parsed: any): NormalizedAgentResponse {
  *
  * @param message - Your query or prompt for the AI agent
  * @param agent_id - Agent ID (required)
- * @param options - Optional user_id, session_id, and assets (file attachments)
- * @returns Promise with normalized AI agent response
+ * @param options - Optional user_id, session_id, assets (file attachments), and
+ *   request controls: `signal` to cancel, `timeout` per attempt (ms), and
+ *   `retry` (exponential backoff with jitter on network errors, 429 and 5xx,
+ *   honoring Retry-After)
+ * @returns Promise with normalized AI agent response (never throws)
  *
  * @example
  * ```tsx
@@ -213,12 +443,20 @@ function normalizeResponse(parsed: any): NormalizedAgentResponse {
  *   console.log(result.response.status)  // "success"
  *   console.log(result.response.result)  // { ...agent's data }
  * }
+ *
+ * // Cancellable, 30s per attempt, up to 4 retries
+ * const controller = new AbortController()
+ * const result = await callAIAgent('Hello', 'your-agent-id', {
+ *   signal: controller.signal,
+ *   timeout: 30_000,
+ *   retry: { retries: 4 }
+ * })
  * ```
  */
 export async function callAIAgent(
   message: string,
   agent_id: string,
-  options?: { user_id?: string; session_id?: string; assets?: string[] }
+  options?: CallAIAgentOptions
 ): Promise<AIAgentResponse> {
   const user_id = options?.user_id || `user-${generateUUID()}`
   const session_id = options?.session_id || `${agent_id}-${generateUUID().substring(0, 12)}`
@@ -237,79 +475,203 @@ export async function callAIAgent(
   }
 
   try {
-    const response = await fetch(LYZR_API_URL, {
-      method: 'POST',
-      headers: {
-        'Content-Type': 'application/json',
-        'x-api-key': LYZR_API_KEY,
+    const { response, body: rawText } = await fetchWithRetry(
+      LYZR_CHAT_URL,
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'x-api-key': LYZR_API_KEY,
+        },
+        body: JSON.stringify(payload),
       },
-      body: JSON.stringify(payload),
-    })
+      options,
+      r => r.text()
+    )
+    return buildAgentResponse(response, rawText, { agent_id, user_id, session_id })
+  } catch (error) {
+    return buildFailureResponse(error, options?.signal)
+  }
+}
 
-    const rawText = await response.text()
+/**
+ * Pull the text chunk out of one SSE event block. Blocks carry either a JSON
+ * event ({"content": "..."} or similar) or a raw text token.
+ */
+function readStreamChunk(block: string): { text: string; done: boolean; error?: string } {
+  const data = block
+    .split('\n')
+    .filter(line => line.startsWith('data: '))
+    .map(line => line.substring(6))
+    .join('\n')
 
-    if (response.ok) {
-      // Parse with bulletproof JSON parser
-      const parsed = parseLLMJson(rawText)
-
-      // Check for parser error
-      if (parsed?.success === false && parsed?.error) {
-        return {
-          success: false,
-          response: {
-            status: 'error',
-            result: {},
-            message: parsed.error
-          },
-          error: parsed.error,
-          raw_response: rawText,
+  if (data === '[DONE]') return { text: '', done: true }
+  if (!data.trim().startsWith('{')) return { text: data, done: false }
+
+  const chunk = { text: '', done: false, error: undefined as string | undefined }
+  for (const parsed of parseSSEStream(block)) {
+    handleSSEEvent(parsed, {
+      onSuccess: (event: any) => {
+        if (event.type === 'chat_completed') chunk.done = true
+        else if (event.type === 'chat_failed' || event.type === 'error') chunk.error = event.error || event.message || 'Stream failed'
+        else {
+          const text = [event.content, event.delta, event.text, event.chunk].find(v => typeof v === 'string')
+          if (text) chunk.text += text
         }
-      }
+      },
+      // Not an event after all - treat it as part of the streamed text
+      onParseError: (raw) => {
+        chunk.text += raw || data
+      },
+      onToolError: (event: any) => {
+        chunk.error = event.error || 'Tool error'
+      },
+      onValidationError: (event: any) => {
+        chunk.error = event.error || 'Validation error'
+      },
+    })
+  }
+  return chunk
+}
 
-      // Normalize to guaranteed structure
-      const normalized = normalizeResponse(parsed)
+/**
+ * Call the AI Agent and stream its output as it is generated
+ *
+ * `onText` receives the accumulated raw output after every chunk, so callers
+ * can render partial fields (see `extractPartialStringField`). The resolved
+ * value has the same structure as `callAIAgent`. When the stream endpoint is
+ * unavailable or answers without SSE, this falls back to the regular call.
+ *
+ * @example
+ * ```tsx
+ * const result = await streamAIAgent(message, agentId, {
+ *   onText: (raw) => setAnswer(extractPartialStringField(raw, 'answer') || '')
+ * })
+ * ```
+ */
+export async function streamAIAgent(
+  message: string,
+  agent_id: string,
+  options?: CallAIAgentOptions & { onText?: (accumulated: string) => void }
+): Promise<AIAgentResponse> {
+  const user_id = options?.user_id || `user-${generateUUID()}`
+  const session_id = options?.session_id || `${agent_id}-${generateUUID().substring(0, 12)}`
+  const { onText, ...callOptions } = options || {}
 
-      return {
-        success: true,
-        response: normalized,
-        agent_id,
-        user_id,
-        session_id,
-        timestamp: new Date().toISOString(),
-        raw_response: rawText,
-      }
-    } else {
-      // API error
-      let errorMsg = `API returned status ${response.status}`
-      try {
-        const errorData = parseLLMJson(rawText) || JSON.parse(rawText)
-        errorMsg = errorData?.error || errorData?.message || errorMsg
-      } catch {}
+  const payload: Record<string, any> = {
+    message,
+    agent_id,
+    user_id,
+    session_id,
+  }
+  if (options?.assets && options.assets.length > 0) {
+    payload.assets = options.assets
+  }
 
-      return {
-        success: false,
-        response: {
-          status: 'error',
-          result: {},
-          message: errorMsg
+  // The timeout covers the wait for the stream to start and then each gap between
+  // chunks, not the whole stream
+  const timeout = options?.timeout ?? DEFAULT_TIMEOUT_MS
+  let response: Response
+  try {
+    ({ response } = await fetchWithRetry(
+      LYZR_STREAM_URL,
+      {
+        method: 'POST',
+        headers: {
+          'Content-Type': 'application/json',
+          'Accept': 'text/event-stream',
+          'x-api-key': LYZR_API_KEY,
         },
-        error: errorMsg,
-        raw_response: rawText,
+        body: JSON.stringify(payload),
+      },
+      options,
+      async r => r
+    ))
+  } catch (error) {
+    if (options?.signal?.aborted) return buildFailureResponse(error, options.signal)
+    // The stream attempts already used up the retries
+    return callAIAgent(message, agent_id, { ...callOptions, user_id, session_id, retry: false })
+  }
+
+  // Retried errors are final; falling back would retry them all over again
+  if (isRetryableStatus(response.status)) {
+    const rawText = await response.text().catch(() => '')
+    return buildAgentResponse(response, rawText, { agent_id, user_id, session_id })
+  }
+
+  if (!response.ok || !response.body) {
+    await response.body?.cancel().catch(() => undefined)
+    return callAIAgent(message, agent_id, { ...callOptions, user_id, session_id })
+  }
+
+  // Answered in one piece - parse it like a regular call
+  if (!response.headers.get('content-type')?.includes('text/event-stream')) {
+    const rawText = await response.text()
+    return buildAgentResponse(response, rawText, { agent_id, user_id, session_id })
+  }
+
+  const reader = response.body.getReader()
+  const decoder = new TextDecoder()
+  let buffer = ''
+  let accumulated = ''
+  let streamError: string | undefined
+
+  // Give up on a stream that goes quiet; cancelling the reader closes the connection
+  const readChunk = async () => {
+    if (!(timeout > 0)) return reader.read()
+    let timer: ReturnType<typeof setTimeout> | undefined
+    const stalled = new Promise<never>((_, reject) => {
+      timer = setTimeout(() => reject(new RequestTimeoutError(timeout)), timeout)
+    })
+    try {
+      return await Promise.race([reader.read(), stalled])
+    } finally {
+      clearTimeout(timer)
+    }
+  }
+
+  const consumeBlock = (block: string): boolean => {
+    const chunk = readStreamChunk(block)
+    if (chunk.error) streamError = chunk.error
+    if (chunk.text) {
+      accumulated += chunk.text
+      onText?.(accumulated)
+    }
+    return chunk.done
+  }
+
+  try {
+    let done = false
+    while (!done) {
+      const { value, done: finished } = await readChunk()
+      if (finished) break
+      buffer += decoder.decode(value, { stream: true }).replace(/\r\n/g, '\n')
+
+      let boundary = buffer.indexOf('\n\n')
+      while (boundary !== -1 && !done) {
+        done = consumeBlock(buffer.slice(0, boundary))
+        buffer = buffer.slice(boundary + 2)
+        boundary = buffer.indexOf('\n\n')
       }
     }
+    if (!done && buffer.trim()) consumeBlock(buffer)
   } catch (error) {
-    const errorMsg = error instanceof Error ? error.message : 'Network error'
+    if (options?.signal?.aborted) return buildFailureResponse(error, options.signal)
+    streamError = error instanceof Error ? error.message : 'Stream interrupted'
+    await reader.cancel().catch(() => undefined)
+  } finally {
+    reader.releaseLock()
+  }
+
+  if (streamError && !accumulated) {
     return {
       success: false,
-      response: {
-        status: 'error',
-        result: {},
-        message: errorMsg
-      },
-      error: errorMsg,
-      details: error instanceof Error ? error.stack : String(error),
+      response: { status: 'error', result: {}, message: streamError },
+      error: streamError,
     }
   }
+
+  return buildAgentResponse(response, accumulated, { agent_id, user_id, session_id })
 }
 
 // =============================================================================
@@ -348,17 +710,35 @@ export function useAIAgent() {
   const [loading, setLoading] = React.useState(false)
   const [error, setError] = React.useState<string | null>(null)
   const [response, setResponse] = React.useState<NormalizedAgentResponse | null>(null)
+  const controllerRef = React.useRef<AbortController | null>(null)
+
+  // Abort whatever is in flight when the component unmounts
+  React.useEffect(() => () => controllerRef.current?.abort(), [])
+
+  const cancel = React.useCallback(() => {
+    controllerRef.current?.abort()
+    controllerRef.current = null
+    setLoading(false)
+  }, [])
 
   const callAgent = async (
     message: string,
     agent_id: string,
-    options?: { user_id?: string; session_id?: string; assets?: string[] }
+    options?: Omit<CallAIAgentOptions, 'signal'>
   ) => {
+    controllerRef.current?.abort()
+    const controller = new AbortController()
+    controllerRef.current = controller
+
     setLoading(true)
     setError(null)
     setResponse(null)
 
-    const result = await callAIAgent(message, agent_id, options)
+    const result = await callAIAgent(message, agent_id, { ...options, signal: controller.signal })
+
+    // A newer call, cancel() or unmount took over - leave state alone
+    if (controller.signal.aborted) return result
+    controllerRef.current = null
 
     if (result.success) {
       setResponse(result.response)
@@ -373,6 +753,7 @@ export function useAIAgent() {
 
   return {
     callAgent,
+    cancel,
     loading,
     error,
     response,
@@ -439,8 +820,6 @@ export async function generateDocs(code: string, agent_id: string): Promise<stri
 // File Upload API
 // =============================================================================
 
-const LYZR_UPLOAD_URL = 'https://agent-prod.studio.lyzr.ai/v3/assets/upload'
-
 /**
  * Upload result for a single file
  */
@@ -18,9 +18,7 @@
  */
 
 import parseLLMJson from '@/utils/jsonParser'
-
-// Direct Lyzr Agent API endpoint
-const LYZR_API_URL = 'https://agent-prod.studio.lyzr.ai/v3/inference/chat'
+import { LYZR_CHAT_URL, UPLOAD_URL } from '@/lib/api-config'
 
 // API Key from environment variable
 const LYZR_API_KEY = import.meta.env.VITE_LYZR_API_KEY || ''
@@ -92,7 +90,7 @@ export async function uploadFiles(files: File | File[] | FileList): Promise<Uplo
   }
 
   try {
-    const response = await fetch('/api/upload', {
+    const response = await fetch(UPLOAD_URL, {
       method: 'POST',
       body: formData,
     })
@@ -155,7 +153,7 @@ export async function chatWithFiles(options: AgentChatWithFilesOptions) {
 
   // Call Lyzr Agent API directly with assets
   try {
-    const response = await fetch(LYZR_API_URL, {
+    const response = await fetch(LYZR_CHAT_URL, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
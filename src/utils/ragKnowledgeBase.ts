@@ -24,12 +24,12 @@
  */
 
 import { useState } from 'react'
+import { LYZR_RAG_API_URL } from '@/lib/api-config'
 
 // =============================================================================
 // Configuration
 // =============================================================================
 
-const LYZR_RAG_BASE_URL = 'https://rag-prod.studio.lyzr.ai/v3'
 const LYZR_API_KEY = import.meta.env.VITE_LYZR_API_KEY || ''
 
 // Supported file types with their parsers
@@ -173,7 +173,7 @@ export async function getDocuments(ragId: string): Promise<GetDocumentsResponse>
       return { success: false, error: 'VITE_LYZR_API_KEY not configured' }
     }
 
-    const response = await fetch(`${LYZR_RAG_BASE_URL}/rag/documents/${ragId}/`, {
+    const response = await fetch(`${LYZR_RAG_API_URL}/rag/documents/${ragId}/`, {
       method: 'GET',
       headers: {
         'Accept': 'application/json',
@@ -290,7 +290,7 @@ export async function uploadAndTrainDocument(
       parseFormData.append('chunk_overlap', '100')
     }
 
-    const parseUrl = `${LYZR_RAG_BASE_URL}/parse/${fileConfig.type}/`
+    const parseUrl = `${LYZR_RAG_API_URL}/parse/${fileConfig.type}/`
 
     const parseResponse = await fetch(parseUrl, {
       method: 'POST',
@@ -319,7 +319,7 @@ export async function uploadAndTrainDocument(
     }
 
     // STEP 2: Train knowledge base with parsed documents
-    const trainUrl = `${LYZR_RAG_BASE_URL}/rag/train/${ragId}/`
+    const trainUrl = `${LYZR_RAG_API_URL}/rag/train/${ragId}/`
 
     const trainResponse = await fetch(trainUrl, {
       method: 'POST',
@@ -399,7 +399,7 @@ export async function deleteDocuments(
       return `storage/${doc}`
     })
 
-    const deleteUrl = `${LYZR_RAG_BASE_URL}/rag/${ragId}/docs/`
+    const deleteUrl = `${LYZR_RAG_API_URL}/rag/${ragId}/docs/`
 
     const response = await fetch(deleteUrl, {
       method: 'DELETE',
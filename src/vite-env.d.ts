@@ -4,6 +4,9 @@ interface ImportMetaEnv {
   readonly VITE_AGENT_ID?: string
   readonly VITE_LYZR_API_KEY?: string
   readonly VITE_API_URL?: string
+  readonly VITE_LYZR_AGENT_BASE_URL?: string
+  readonly VITE_LYZR_RAG_BASE_URL?: string
+  readonly VITE_UPLOAD_URL?: string
 }
 
 interface ImportMeta {
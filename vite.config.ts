@@ -1,3 +1,4 @@
+/// <reference types="vitest/config" />
 import { defineConfig } from 'vite'
 import react from '@vitejs/plugin-react'
 import path from 'path'
@@ -20,4 +21,8 @@ export default defineConfig({
   build: {
     outDir: 'dist',
   },
+  test: {
+    include: ['src/**/*.test.ts'],
+    environment: 'node',
+  },
 })